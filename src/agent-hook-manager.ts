@@ -0,0 +1,123 @@
+/**
+ * AgentHookManager - Writes and removes the pre-tool-use hook for agent CLIs
+ *
+ * Follows the lockor.agentHooks setting: while it is on, every workspace folder
+ * gets the hook script and a PreToolUse entry in the project's agent settings,
+ * refreshed on activation so the script matches the installed Lockor. Turning
+ * the setting off takes both out again, leaving the user's own hooks alone.
+ */
+
+import * as vscode from 'vscode';
+import {
+    AGENT_HOOK_SCRIPT_PATH,
+    AGENT_HOOK_SETTINGS_PATH,
+    applyAgentHookSettings,
+    buildAgentHookScript,
+    isLockorAgentHook
+} from './agent-hook';
+
+export class AgentHookManager {
+    // Serializes syncs, so a command and the settings change it causes don't interleave
+    private pending: Promise<number> = Promise.resolve(0);
+
+    /**
+     * Write or remove the hook in every workspace folder to match the lockor.agentHooks setting; resolves to the folders changed
+     */
+    public sync(): Promise<number> {
+        const enabled = vscode.workspace.getConfiguration('lockor').get<boolean>('agentHooks', false) ?? false;
+        this.pending = this.pending.catch(() => 0).then(async () => {
+            let changed = 0;
+            for (const folder of vscode.workspace.workspaceFolders ?? []) {
+                try {
+                    if (await this.syncFolder(folder.uri, enabled)) {
+                        changed++;
+                    }
+                } catch (error) {
+                    console.error(`Lockor: Failed to update agent hook in ${folder.uri.fsPath}:`, error);
+                    vscode.window.showErrorMessage(`Failed to update the Lockor agent hook in ${folder.name}: ${error}`);
+                }
+            }
+            return changed;
+        });
+        return this.pending;
+    }
+
+    /**
+     * Turn the agent hook on for this workspace
+     */
+    public async enableHooks(): Promise<void> {
+        await vscode.workspace.getConfiguration('lockor').update('agentHooks', true, vscode.ConfigurationTarget.Workspace);
+        await this.sync();
+        vscode.window.showInformationMessage(
+            `🔒 Agent hook enabled: agent CLIs that read ${AGENT_HOOK_SETTINGS_PATH} can no longer edit locked files. Commit it and ${AGENT_HOOK_SCRIPT_PATH} to share the hook.`
+        );
+    }
+
+    /**
+     * Turn the agent hook off for this workspace
+     */
+    public async disableHooks(): Promise<void> {
+        await vscode.workspace.getConfiguration('lockor').update('agentHooks', false, vscode.ConfigurationTarget.Workspace);
+        await this.sync();
+        vscode.window.showInformationMessage('🔓 Agent hook removed');
+    }
+
+    /**
+     * Bring the hook script and settings entry of one folder up to date; true when anything changed
+     */
+    private async syncFolder(folderUri: vscode.Uri, enabled: boolean): Promise<boolean> {
+        const scriptUri = vscode.Uri.joinPath(folderUri, AGENT_HOOK_SCRIPT_PATH);
+        const settingsUri = vscode.Uri.joinPath(folderUri, AGENT_HOOK_SETTINGS_PATH);
+        const existingScript = await this.readFile(scriptUri);
+        if (existingScript !== undefined && !isLockorAgentHook(existingScript)) {
+            vscode.window.showWarningMessage(`Lockor left ${AGENT_HOOK_SCRIPT_PATH} in ${folderUri.fsPath} alone: it isn't Lockor's hook`);
+            return false;
+        }
+
+        const existingSettings = await this.readFile(settingsUri);
+        let settings: string | undefined;
+        try {
+            settings = applyAgentHookSettings(existingSettings, enabled);
+        } catch (error) {
+            vscode.window.showWarningMessage(`Lockor can't update ${AGENT_HOOK_SETTINGS_PATH} in ${folderUri.fsPath}: ${error instanceof Error ? error.message : error}`);
+            return false;
+        }
+
+        let changed = false;
+        if (settings !== existingSettings) {
+            if (settings !== undefined) {
+                await vscode.workspace.fs.writeFile(settingsUri, Buffer.from(settings, 'utf8'));
+            } else if (existingSettings !== undefined) {
+                await vscode.workspace.fs.delete(settingsUri);
+            }
+            changed = true;
+        }
+
+        const script = enabled ? buildAgentHookScript() : undefined;
+        if (script !== existingScript) {
+            if (script !== undefined) {
+                await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(scriptUri, '..'));
+                await vscode.workspace.fs.writeFile(scriptUri, Buffer.from(script, 'utf8'));
+            } else {
+                await vscode.workspace.fs.delete(scriptUri);
+            }
+            changed = true;
+        }
+
+        if (changed) {
+            console.log(`Lockor: ${enabled ? 'Wrote' : 'Removed'} agent hook in ${folderUri.fsPath}`);
+        }
+        return changed;
+    }
+
+    /**
+     * Read a text file, or undefined when there is none
+     */
+    private async readFile(uri: vscode.Uri): Promise<string | undefined> {
+        try {
+            return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        } catch {
+            return undefined;
+        }
+    }
+}
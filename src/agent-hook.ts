@@ -0,0 +1,197 @@
+/**
+ * Agent hook - Pre-tool-use hook that stops CLI agents from editing locked files
+ *
+ * Rule files only ask an agent to leave locked files alone. Agent CLIs with
+ * Claude Code-style hooks run a command before every tool call and cancel the
+ * call when it exits with code 2, passing stderr back to the agent. The hook is a
+ * standalone Node script that checks the target of Edit/Write/MultiEdit calls
+ * against the `.lockor` manifests, using the extension's own manifest parser and
+ * glob matcher serialized into the script (like the git pre-commit hook).
+ */
+
+import { globToRegExp } from './glob-matcher';
+import { parseManifest } from './lockor-manifest';
+
+// Comment identifying the script as Lockor's, so a foreign script is never overwritten
+export const AGENT_HOOK_MARKER = 'lockor:agent-hook';
+// Both relative to the workspace folder
+// .cjs, so Node runs it as CommonJS even in packages with "type": "module"
+export const AGENT_HOOK_SCRIPT_PATH = '.claude/hooks/lockor-pre-tool-use.cjs';
+export const AGENT_HOOK_SETTINGS_PATH = '.claude/settings.json';
+export const AGENT_HOOK_MATCHER = 'Edit|Write|MultiEdit';
+export const AGENT_HOOK_COMMAND = `node "$CLAUDE_PROJECT_DIR/${AGENT_HOOK_SCRIPT_PATH}"`;
+
+interface HookCommand {
+    type: string;
+    command?: string;
+}
+
+interface HookMatcher {
+    matcher?: string;
+    hooks?: HookCommand[];
+}
+
+/**
+ * Build the pre-tool-use hook script
+ */
+export function buildAgentHookScript(): string {
+    return `#!/usr/bin/env node
+// ${AGENT_HOOK_MARKER}
+// Written by the Lockor VS Code extension. Turn it off with the lockor.agentHooks setting.
+// Stops agent edits to files locked in a .lockor manifest (soft locks are allowed).
+'use strict';
+
+const fs = require('fs');
+const path = require('path');
+
+const globToRegExp = ${globToRegExp.toString()};
+
+const parseManifest = ${parseManifest.toString()};
+
+const manifests = new Map();
+function readManifest(dir) {
+    if (!manifests.has(dir)) {
+        const file = path.join(dir, '.lockor');
+        let manifest;
+        try {
+            manifest = fs.existsSync(file) ? parseManifest(fs.readFileSync(file, 'utf8')) : undefined;
+        } catch (error) {
+            manifest = undefined;
+        }
+        manifests.set(dir, manifest);
+    }
+    return manifests.get(dir);
+}
+
+// Find what locks a path (relative to dir, forward slashes) in the manifest of dir
+function findLock(dir, relativePath) {
+    const manifest = readManifest(dir);
+    if (!manifest) {
+        return undefined;
+    }
+    const defaultLevel = manifest.protectionLevel || 'ai-aware';
+    for (const entry of manifest.files) {
+        const matches = entry.type === 'folder'
+            ? relativePath.startsWith(entry.path + '/')
+            : relativePath === entry.path;
+        if (matches) {
+            const reason = entry.reason ? ' (reason: ' + entry.reason + ')' : '';
+            return {
+                level: entry.level || defaultLevel,
+                description: (entry.type === 'folder' ? 'inside the locked folder ' + entry.path : 'locked') + reason
+            };
+        }
+    }
+    for (const entry of manifest.patterns) {
+        if (globToRegExp(entry.pattern).test(relativePath)) {
+            return { level: defaultLevel, description: 'locked by the pattern ' + entry.pattern };
+        }
+    }
+    return undefined;
+}
+
+function check(event) {
+    const toolInput = event.tool_input || {};
+    const filePath = toolInput.file_path;
+    if (typeof filePath !== 'string' || !filePath) {
+        return;
+    }
+
+    const projectDir = path.resolve(process.env.CLAUDE_PROJECT_DIR || event.cwd || process.cwd());
+    const target = path.resolve(event.cwd || projectDir, filePath);
+    const relative = path.relative(projectDir, target);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+        return;
+    }
+
+    // Every manifest between the file and the project folder applies
+    const segments = relative.split(path.sep);
+    for (let depth = segments.length - 1; depth >= 0; depth--) {
+        const dir = path.join(projectDir, ...segments.slice(0, depth));
+        const lock = findLock(dir, segments.slice(depth).join('/'));
+        if (lock) {
+            if (lock.level === 'soft') {
+                return;
+            }
+            const displayPath = segments.join('/');
+            console.error('🔒 Lockor: ' + displayPath + ' is ' + lock.description + ' at the ' + lock.level + ' protection level. ' +
+                'Do not modify, move or delete it. Tell the user why the change is needed and ask them to unlock it in their editor.');
+            process.exit(2);
+        }
+    }
+}
+
+let input = '';
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', chunk => {
+    input += chunk;
+});
+process.stdin.on('end', () => {
+    let event;
+    try {
+        event = JSON.parse(input);
+    } catch (error) {
+        return; // Not a hook event; let the call through
+    }
+    check(event);
+});
+`;
+}
+
+/**
+ * Check whether a hook script was written by Lockor
+ */
+export function isLockorAgentHook(content: string): boolean {
+    return content.includes(AGENT_HOOK_MARKER);
+}
+
+/**
+ * Add the Lockor hook to agent settings JSON, or take it out; undefined means nothing is left.
+ * Settings that need no change come back as they were, and only settings that held nothing but
+ * the Lockor hook are dropped. Throws on settings that aren't a JSON object, so they are never overwritten.
+ */
+export function applyAgentHookSettings(existing: string | undefined, enabled: boolean): string | undefined {
+    const settings: Record<string, unknown> = existing?.trim() ? JSON.parse(existing) : {};
+    if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+        throw new Error(`${AGENT_HOOK_SETTINGS_PATH} is not a JSON object`);
+    }
+
+    const hooks = (typeof settings.hooks === 'object' && settings.hooks !== null ? settings.hooks : {}) as Record<string, HookMatcher[]>;
+    const isLockorCommand = (hook: HookCommand) => typeof hook.command === 'string' && hook.command.includes(AGENT_HOOK_SCRIPT_PATH);
+    const matchers = Array.isArray(hooks.PreToolUse) ? hooks.PreToolUse : [];
+    const lockorCommands = matchers.flatMap(matcher => (matcher.hooks ?? []).filter(isLockorCommand));
+    const upToDate = lockorCommands.length === 1 && matchers.some(matcher =>
+        matcher.matcher === AGENT_HOOK_MATCHER && matcher.hooks?.length === 1 && matcher.hooks[0].command === AGENT_HOOK_COMMAND);
+    if (enabled ? upToDate : lockorCommands.length === 0) {
+        return existing;
+    }
+
+    // Drop Lockor's command wherever it is, keeping the user's hooks
+    const preToolUse = matchers.flatMap(matcher => {
+        const commands = matcher.hooks ?? [];
+        const kept = commands.filter(hook => !isLockorCommand(hook));
+        if (kept.length === commands.length) {
+            return [matcher];
+        }
+        return kept.length > 0 ? [{ ...matcher, hooks: kept }] : [];
+    });
+
+    if (enabled) {
+        preToolUse.push({ matcher: AGENT_HOOK_MATCHER, hooks: [{ type: 'command', command: AGENT_HOOK_COMMAND }] });
+    }
+
+    if (preToolUse.length > 0) {
+        hooks.PreToolUse = preToolUse;
+    } else {
+        delete hooks.PreToolUse;
+    }
+    if (Object.keys(hooks).length > 0) {
+        settings.hooks = hooks;
+    } else {
+        delete settings.hooks;
+    }
+
+    // Keep the indentation the user's file already has
+    const indent = existing?.match(/^([ \t]+)"/m)?.[1] ?? 2;
+    return Object.keys(settings).length > 0 ? JSON.stringify(settings, null, indent) + '\n' : undefined;
+}
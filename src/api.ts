@@ -0,0 +1,69 @@
+/**
+ * Lockor API - Typed interface for other extensions
+ *
+ * Returned from activate, so other extensions can get it with
+ * `vscode.extensions.getExtension<LockorApi>('lockor.lockor')?.activate()`.
+ * The version is bumped on breaking changes; check it before relying on a member.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { LockChangeEvent, LockorManager } from './lockor-manager';
+import { getGitUserName, LockMetadata } from './lock-metadata';
+import { ProtectionLevel } from './protection-level';
+
+export { LockChangeEvent } from './lockor-manager';
+
+export const LOCKOR_API_VERSION = 1;
+
+export type LockInfo =
+    | { kind: 'file' | 'folder'; uri: vscode.Uri; level: ProtectionLevel; metadata?: LockMetadata }
+    | { kind: 'pattern'; pattern: string; level: ProtectionLevel };
+
+export interface LockOptions {
+    // Defaults to the lockor.protectionLevel setting
+    level?: ProtectionLevel;
+    reason?: string;
+}
+
+export interface LockorApi {
+    readonly version: number;
+    /** Whether a file is locked, directly or by a locked folder or pattern */
+    isLocked(uri: vscode.Uri): boolean;
+    /** Lock a file or folder without prompting for a reason */
+    lock(uri: vscode.Uri, options?: LockOptions): Promise<void>;
+    /** Unlock a file or folder locked directly */
+    unlock(uri: vscode.Uri): Promise<void>;
+    /** Every locked file, folder and pattern with its protection level */
+    getLocks(): LockInfo[];
+    /** Fires after locks are added, removed or changed */
+    readonly onDidChangeLocks: vscode.Event<LockChangeEvent>;
+}
+
+/**
+ * Build the API object handed out by activate
+ */
+export function createLockorApi(lockorManager: LockorManager): LockorApi {
+    return {
+        version: LOCKOR_API_VERSION,
+        isLocked: uri => lockorManager.isFileLocked(uri),
+        lock: async (uri, options = {}) => {
+            const owner = lockorManager.getOwningFolder(uri.fsPath);
+            const author = await getGitUserName(owner ? owner.uri.fsPath : path.dirname(uri.fsPath));
+            await lockorManager.lockFile(uri, options.level, { reason: options.reason?.trim() || undefined, author, createdAt: new Date().toISOString() });
+        },
+        unlock: uri => lockorManager.unlockFile(uri),
+        getLocks: () => {
+            const entries: LockInfo[] = [
+                ...lockorManager.getLockedFolders().map(folderPath => ({ kind: 'folder' as const, path: folderPath })),
+                ...lockorManager.getLockedFiles().map(filePath => ({ kind: 'file' as const, path: filePath }))
+            ].map(({ kind, path: lockedPath }) => {
+                const uri = vscode.Uri.file(lockedPath);
+                return { kind, uri, level: lockorManager.getProtectionLevel(uri), metadata: lockorManager.getLockMetadata(uri) };
+            });
+            const defaultLevel = lockorManager.getDefaultProtectionLevel();
+            return [...entries, ...lockorManager.getLockPatterns().map(pattern => ({ kind: 'pattern' as const, pattern, level: defaultLevel }))];
+        },
+        onDidChangeLocks: lockorManager.onDidChangeLocks
+    };
+}
@@ -0,0 +1,195 @@
+/**
+ * AuditLog - Persistent record of lock events and blocked modification attempts
+ *
+ * Every event is written to the "Lockor" output channel and appended to
+ * `audit-log.jsonl` in the workspace storage, one JSON object per line. Entries
+ * older than lockor.auditLogRetentionDays are dropped as new ones are written.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ProtectionLevel } from './protection-level';
+
+export type AuditEvent =
+    | 'lock'
+    | 'unlock'
+    | 'level-change'
+    | 'save-blocked'
+    | 'save-allowed'
+    | 'save-rejected'
+    | 'edit-warned'
+    | 'edit-reverted'
+    | 'edit-allowed'
+    | 'external-change'
+    | 'delete-restored';
+
+export interface AuditEntry {
+    // ISO 8601 timestamp
+    time: string;
+    event: AuditEvent;
+    // Absolute path of the file or folder, absent for pattern locks
+    path?: string;
+    pattern?: string;
+    level?: ProtectionLevel;
+    detail?: string;
+}
+
+export const AUDIT_LOG_SCHEME = 'lockor-audit';
+const AUDIT_LOG_FILE_NAME = 'audit-log.jsonl';
+
+type AuditFilterQuickPickItem = vscode.QuickPickItem & { filePath?: string };
+
+/**
+ * Drop entries older than the retention period
+ */
+export function pruneAuditEntries(entries: AuditEntry[], retentionDays: number, now: number = Date.now()): AuditEntry[] {
+    const cutoff = now - retentionDays * 24 * 60 * 60 * 1000;
+    return entries.filter(entry => Date.parse(entry.time) >= cutoff);
+}
+
+/**
+ * Format an entry for reading, e.g. `2025-01-31 10:00:00  save-blocked  src/schema.sql (hard)`
+ */
+export function formatAuditEntry(entry: AuditEntry): string {
+    const time = entry.time.slice(0, 19).replace('T', ' ');
+    const target = entry.path ? vscode.workspace.asRelativePath(entry.path) : entry.pattern ? `pattern ${entry.pattern}` : '';
+    const level = entry.level ? ` (${entry.level})` : '';
+    const detail = entry.detail ? ` — ${entry.detail}` : '';
+    return `${time}  ${entry.event}  ${target}${level}${detail}`;
+}
+
+export class AuditLog implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private outputChannel: vscode.OutputChannel;
+    private providerRegistration: vscode.Disposable;
+    // Appends run one after another so concurrent events don't overwrite each other
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(private context: vscode.ExtensionContext) {
+        this.outputChannel = vscode.window.createOutputChannel('Lockor');
+        this.providerRegistration = vscode.workspace.registerTextDocumentContentProvider(AUDIT_LOG_SCHEME, this);
+    }
+
+    /**
+     * Record an event in the output channel and the audit log file
+     */
+    public record(event: AuditEvent, target?: vscode.Uri | string, details: { level?: ProtectionLevel; detail?: string } = {}): Promise<void> {
+        const entry: AuditEntry = { time: new Date().toISOString(), event };
+        if (typeof target === 'string') {
+            entry.pattern = target;
+        } else if (target) {
+            entry.path = target.fsPath;
+        }
+        Object.assign(entry, details);
+
+        this.outputChannel.appendLine(formatAuditEntry(entry));
+        this.writing = this.writing
+            .then(() => this.append(entry))
+            .catch(error => console.error('Lockor: Failed to write the audit log:', error));
+        return this.writing;
+    }
+
+    /**
+     * Read every entry in the audit log, skipping unreadable lines
+     */
+    public async readEntries(): Promise<AuditEntry[]> {
+        let content: string;
+        try {
+            content = Buffer.from(await vscode.workspace.fs.readFile(this.getLogUri())).toString('utf8');
+        } catch {
+            return [];
+        }
+
+        const entries: AuditEntry[] = [];
+        for (const line of content.split('\n')) {
+            if (!line.trim()) {
+                continue;
+            }
+            try {
+                entries.push(JSON.parse(line));
+            } catch {
+                // Skip lines cut short by a crash
+            }
+        }
+        return entries;
+    }
+
+    /**
+     * Ask which file to show the history of, then open the audit log filtered by it
+     */
+    public async showAuditLog(uri?: vscode.Uri): Promise<void> {
+        let filePath = uri?.fsPath;
+        if (!filePath) {
+            const loggedPaths = Array.from(new Set((await this.readEntries()).map(entry => entry.path).filter((entryPath): entryPath is string => !!entryPath)));
+            const items: AuditFilterQuickPickItem[] = [
+                { label: 'All files', description: 'Every recorded event' },
+                ...loggedPaths.sort().map(loggedPath => ({
+                    label: path.basename(loggedPath),
+                    description: vscode.workspace.asRelativePath(loggedPath),
+                    filePath: loggedPath
+                }))
+            ];
+            const selected = await vscode.window.showQuickPick(items, { placeHolder: 'Show the audit log for a file' });
+            if (!selected) {
+                return;
+            }
+            filePath = selected.filePath;
+        }
+
+        const logUri = vscode.Uri.from({
+            scheme: AUDIT_LOG_SCHEME,
+            path: filePath ? `Lockor Audit Log - ${path.basename(filePath)}` : 'Lockor Audit Log',
+            query: filePath ? new URLSearchParams({ path: filePath }).toString() : ''
+        });
+        const document = await vscode.workspace.openTextDocument(logUri);
+        await vscode.window.showTextDocument(document, { preview: false });
+    }
+
+    /**
+     * Render the audit log for the read-only document opened by showAuditLog
+     */
+    public async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const filePath = new URLSearchParams(uri.query).get('path');
+        const entries = (await this.readEntries()).filter(entry =>
+            !filePath || entry.path === filePath || (entry.path !== undefined && entry.path.startsWith(filePath + path.sep)) || (entry.path !== undefined && filePath.startsWith(entry.path + path.sep))
+        );
+        if (entries.length === 0) {
+            return filePath ? `No Lockor events recorded for ${vscode.workspace.asRelativePath(filePath)}\n` : 'No Lockor events recorded\n';
+        }
+        return entries.map(entry => formatAuditEntry(entry)).join('\n') + '\n';
+    }
+
+    /**
+     * Append an entry to the log file, dropping entries past the retention period
+     */
+    private async append(entry: AuditEntry): Promise<void> {
+        const config = vscode.workspace.getConfiguration('lockor');
+        const retentionDays = config.get<number>('auditLogRetentionDays', 90);
+        const entries = pruneAuditEntries([...await this.readEntries(), entry], retentionDays);
+
+        await vscode.workspace.fs.createDirectory(this.getStorageUri());
+        const content = entries.map(logged => JSON.stringify(logged)).join('\n') + '\n';
+        await vscode.workspace.fs.writeFile(this.getLogUri(), Buffer.from(content, 'utf8'));
+    }
+
+    /**
+     * Workspace storage, falling back to global storage without a workspace
+     */
+    private getStorageUri(): vscode.Uri {
+        return this.context.storageUri ?? this.context.globalStorageUri;
+    }
+
+    /**
+     * Location of the JSONL audit log
+     */
+    private getLogUri(): vscode.Uri {
+        return vscode.Uri.joinPath(this.getStorageUri(), AUDIT_LOG_FILE_NAME);
+    }
+
+    /**
+     * Clean up resources
+     */
+    public dispose(): void {
+        this.providerRegistration.dispose();
+        this.outputChannel.dispose();
+    }
+}
@@ -0,0 +1,431 @@
+#!/usr/bin/env node
+/**
+ * Lockor CLI - Lock status for CI pipelines and scripts
+ *
+ * Works on the same `.lockor` manifest the extension writes, without VS Code:
+ *
+ *   lockor list                     List locked files, folders and patterns
+ *   lockor check <paths...>         Exit 1 if any of the paths is locked
+ *   lockor verify                   Exit 1 if a locked file no longer matches its recorded SHA-256
+ *   lockor verify --base <ref>      Exit 1 if the changes since <ref> touch locked files
+ *   lockor lock <paths...>          Lock files or folders (--level, --reason)
+ *   lockor unlock <paths...>        Unlock files or folders
+ *
+ * Every command accepts --json and --root <dir> (the folder containing `.lockor`,
+ * default: the current directory). Exit codes: 0 success, 1 locked files
+ * involved, 2 usage or runtime error.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import {
+    findManifestLock,
+    LockorManifest,
+    ManifestLock,
+    MANIFEST_FILE_NAME,
+    parseManifest,
+    serializeManifest
+} from './lockor-manifest';
+import { hashContent } from './content-hash';
+import { getGitUserName } from './lock-metadata';
+import { isProtectionLevel, PROTECTION_LEVELS } from './protection-level';
+
+export const EXIT_OK = 0;
+export const EXIT_LOCKED = 1;
+export const EXIT_ERROR = 2;
+
+export interface CliOutput {
+    log(message: string): void;
+    error(message: string): void;
+}
+
+interface CliOptions {
+    command?: string;
+    paths: string[];
+    json: boolean;
+    root: string;
+    base?: string;
+    level?: string;
+    reason?: string;
+}
+
+class UsageError extends Error {}
+
+const USAGE = `Usage: lockor <command> [options]
+
+Commands:
+  list                     List locked files, folders and patterns
+  check <paths...>         Exit 1 if any of the paths is locked
+  verify                   Exit 1 if a locked file no longer matches its recorded SHA-256
+  verify --base <ref>      Exit 1 if the changes since <ref> touch locked files
+  lock <paths...>          Lock files or folders
+  unlock <paths...>        Unlock files or folders
+
+Options:
+  --root <dir>             Folder containing the .lockor manifest (default: current directory)
+  --json                   Print machine-readable JSON
+  --level <level>          Protection level for lock (${PROTECTION_LEVELS.join(', ')})
+  --reason <text>          Reason recorded with lock`;
+
+/**
+ * Run the CLI and return its exit code
+ */
+export async function main(args: string[], output: CliOutput = console, cwd: string = process.cwd()): Promise<number> {
+    try {
+        const options = parseArgs(args, cwd);
+        switch (options.command) {
+            case 'list':
+                return listLocks(options, output);
+            case 'check':
+                return checkPaths(options, output, cwd);
+            case 'verify':
+                return options.base ? verifyDiff(options, output) : verifyHashes(options, output);
+            case 'lock':
+                return await lockPaths(options, output, cwd);
+            case 'unlock':
+                return unlockPaths(options, output, cwd);
+            case undefined:
+            case 'help':
+                output.log(USAGE);
+                return options.command ? EXIT_OK : EXIT_ERROR;
+            default:
+                throw new UsageError(`Unknown command "${options.command}"`);
+        }
+    } catch (error) {
+        output.error(`lockor: ${error instanceof Error ? error.message : error}`);
+        if (error instanceof UsageError) {
+            output.error(USAGE);
+        }
+        return EXIT_ERROR;
+    }
+}
+
+/**
+ * Split arguments into the command, paths and options
+ */
+function parseArgs(args: string[], cwd: string): CliOptions {
+    const options: CliOptions = { paths: [], json: false, root: cwd };
+    const takeValue = (index: number, flag: string): string => {
+        const value = args[index + 1];
+        if (value === undefined || value.startsWith('--')) {
+            throw new UsageError(`${flag} needs a value`);
+        }
+        return value;
+    };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        switch (arg) {
+            case '--json':
+                options.json = true;
+                break;
+            case '--root':
+                options.root = path.resolve(cwd, takeValue(i++, arg));
+                break;
+            case '--base':
+                options.base = takeValue(i++, arg);
+                break;
+            case '--level':
+                options.level = takeValue(i++, arg);
+                if (!isProtectionLevel(options.level)) {
+                    throw new UsageError(`--level must be one of ${PROTECTION_LEVELS.join(', ')}`);
+                }
+                break;
+            case '--reason':
+                options.reason = takeValue(i++, arg);
+                break;
+            case '--help':
+            case '-h':
+                options.command = 'help';
+                break;
+            default:
+                if (arg.startsWith('--')) {
+                    throw new UsageError(`Unknown option ${arg}`);
+                }
+                if (options.command === undefined) {
+                    options.command = arg;
+                } else {
+                    options.paths.push(arg);
+                }
+        }
+    }
+    return options;
+}
+
+/**
+ * Read the manifest in the root folder; a missing manifest means nothing is locked
+ */
+function readManifest(root: string): LockorManifest {
+    const manifestPath = path.join(root, MANIFEST_FILE_NAME);
+    return fs.existsSync(manifestPath)
+        ? parseManifest(fs.readFileSync(manifestPath, 'utf8'))
+        : { files: [], patterns: [] };
+}
+
+/**
+ * Write the manifest, or remove it once nothing is locked (like the extension does)
+ */
+function writeManifest(root: string, manifest: LockorManifest): void {
+    const manifestPath = path.join(root, MANIFEST_FILE_NAME);
+    if (manifest.files.length === 0 && manifest.patterns.length === 0) {
+        fs.rmSync(manifestPath, { force: true });
+        return;
+    }
+    fs.writeFileSync(manifestPath, serializeManifest(manifest), 'utf8');
+}
+
+/**
+ * Convert a path given on the command line to a manifest path (relative to the root, forward slashes)
+ */
+function toManifestPath(root: string, cwd: string, filePath: string): string {
+    const relativePath = path.relative(root, path.resolve(cwd, filePath));
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+        throw new UsageError(`${filePath} is outside ${root}`);
+    }
+    return relativePath.split(path.sep).join('/');
+}
+
+/**
+ * Describe what locks a path, e.g. `locked (hard) — Owned by DBA team`
+ */
+function describeLock(lock: ManifestLock): string {
+    if (lock.pattern) {
+        return `matches lock pattern ${lock.pattern} (${lock.level})`;
+    }
+    const origin = lock.entry?.type === 'folder' ? `in locked folder ${lock.entry.path}/` : 'locked';
+    return `${origin} (${lock.level})${lock.entry?.reason ? ` — ${lock.entry.reason}` : ''}`;
+}
+
+/**
+ * JSON shape of a lock match
+ */
+function toLockInfo(relativePath: string, lock: ManifestLock | undefined): Record<string, unknown> {
+    return {
+        path: relativePath,
+        locked: lock !== undefined,
+        ...(lock ? {
+            level: lock.level,
+            lockedBy: lock.pattern ? 'pattern' : lock.entry?.type ?? 'file',
+            entry: lock.pattern ?? lock.entry?.path,
+            reason: lock.entry?.reason
+        } : {})
+    };
+}
+
+/**
+ * Print the locked files, folders and patterns
+ */
+function listLocks(options: CliOptions, output: CliOutput): number {
+    const manifest = readManifest(options.root);
+    if (options.json) {
+        output.log(JSON.stringify(manifest, null, 2));
+        return EXIT_OK;
+    }
+
+    const folders = manifest.files.filter(entry => entry.type === 'folder');
+    const files = manifest.files.filter(entry => entry.type !== 'folder');
+    const describe = (entry: { path: string; level?: string; reason?: string }) =>
+        `  ${entry.path}${entry.level ? ` (${entry.level})` : ''}${entry.reason ? ` — ${entry.reason}` : ''}`;
+
+    output.log(`Default protection level: ${manifest.protectionLevel ?? 'ai-aware'}`);
+    output.log(files.length > 0 ? `Locked files:\n${files.map(describe).join('\n')}` : 'No locked files');
+    if (folders.length > 0) {
+        output.log(`Locked folders:\n${folders.map(entry => describe({ ...entry, path: `${entry.path}/` })).join('\n')}`);
+    }
+    if (manifest.patterns.length > 0) {
+        output.log(`Lock patterns:\n${manifest.patterns.map(entry => `  ${entry.pattern}`).join('\n')}`);
+    }
+    return EXIT_OK;
+}
+
+/**
+ * Report whether each path is locked
+ */
+function checkPaths(options: CliOptions, output: CliOutput, cwd: string): number {
+    if (options.paths.length === 0) {
+        throw new UsageError('check needs at least one path');
+    }
+
+    const manifest = readManifest(options.root);
+    const results = options.paths.map(filePath => {
+        const relativePath = toManifestPath(options.root, cwd, filePath);
+        return { relativePath, lock: findManifestLock(manifest, relativePath) };
+    });
+
+    if (options.json) {
+        output.log(JSON.stringify({ results: results.map(({ relativePath, lock }) => toLockInfo(relativePath, lock)) }, null, 2));
+    } else {
+        for (const { relativePath, lock } of results) {
+            output.log(lock ? `🔒 ${relativePath}: ${describeLock(lock)}` : `   ${relativePath}: not locked`);
+        }
+    }
+    return results.some(result => result.lock) ? EXIT_LOCKED : EXIT_OK;
+}
+
+/**
+ * Fail when the changes between a base ref and HEAD touch files locked at the base
+ */
+function verifyDiff(options: CliOptions, output: CliOutput): number {
+    const base = options.base!;
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: options.root, encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe'] });
+
+    // Locks at the base count, so a change can't unlock and edit a file in one go
+    let manifest: LockorManifest;
+    try {
+        manifest = parseManifest(git('show', `${base}:./${MANIFEST_FILE_NAME}`));
+    } catch {
+        manifest = readManifest(options.root);
+    }
+
+    const changed = git('diff', '--name-only', '--no-renames', '--relative', '-z', `${base}...HEAD`)
+        .split('\0')
+        .filter(filePath => filePath && path.posix.basename(filePath) !== MANIFEST_FILE_NAME);
+    const violations = changed
+        .map(relativePath => ({ relativePath, lock: findManifestLock(manifest, relativePath) }))
+        .filter(result => result.lock);
+
+    if (options.json) {
+        output.log(JSON.stringify({
+            base,
+            changedFiles: changed.length,
+            violations: violations.map(({ relativePath, lock }) => toLockInfo(relativePath, lock))
+        }, null, 2));
+    } else if (violations.length > 0) {
+        output.log(`🔒 ${violations.length} locked file(s) changed since ${base}:`);
+        for (const { relativePath, lock } of violations) {
+            output.log(`  ${relativePath}: ${describeLock(lock!)}`);
+        }
+    } else {
+        output.log(`✅ ${changed.length} changed file(s) since ${base}, none of them locked`);
+    }
+    return violations.length > 0 ? EXIT_LOCKED : EXIT_OK;
+}
+
+/**
+ * Fail when a locked file no longer matches the SHA-256 recorded when it was locked
+ */
+function verifyHashes(options: CliOptions, output: CliOutput): number {
+    const manifest = readManifest(options.root);
+    const drifted: { path: string; expected: string; actual: string | null }[] = [];
+    let verified = 0;
+
+    for (const entry of manifest.files) {
+        if (entry.type === 'folder' || !entry.sha256) {
+            continue;
+        }
+        const filePath = path.join(options.root, ...entry.path.split('/'));
+        const actual = fs.existsSync(filePath) ? hashContent(fs.readFileSync(filePath)) : null;
+        verified++;
+        if (actual !== entry.sha256) {
+            drifted.push({ path: entry.path, expected: entry.sha256, actual });
+        }
+    }
+
+    if (options.json) {
+        output.log(JSON.stringify({ verifiedFiles: verified, drifted }, null, 2));
+    } else if (drifted.length > 0) {
+        output.log(`🔒 ${drifted.length} locked file(s) changed since they were locked:`);
+        for (const file of drifted) {
+            output.log(`  ${file.path}: ${file.actual ? `expected ${file.expected.slice(0, 12)}, found ${file.actual.slice(0, 12)}` : 'missing'}`);
+        }
+    } else {
+        output.log(`✅ ${verified} locked file(s) match the content they were locked with`);
+    }
+    return drifted.length > 0 ? EXIT_LOCKED : EXIT_OK;
+}
+
+/**
+ * Add lock entries for files and folders, recording author, time and content hash
+ */
+async function lockPaths(options: CliOptions, output: CliOutput, cwd: string): Promise<number> {
+    if (options.paths.length === 0) {
+        throw new UsageError('lock needs at least one path');
+    }
+
+    const manifest = readManifest(options.root);
+    const author = await getGitUserName(options.root);
+    const locked: string[] = [];
+
+    for (const filePath of options.paths) {
+        const relativePath = toManifestPath(options.root, cwd, filePath);
+        const absolutePath = path.join(options.root, ...relativePath.split('/'));
+        if (!fs.existsSync(absolutePath)) {
+            throw new Error(`${filePath} does not exist`);
+        }
+        const existing = findManifestLock(manifest, relativePath);
+        if (existing) {
+            output.error(`${relativePath} is already ${describeLock(existing)}`);
+            continue;
+        }
+
+        const isFolder = fs.statSync(absolutePath).isDirectory();
+        manifest.files.push({
+            path: relativePath,
+            type: isFolder ? 'folder' : undefined,
+            level: options.level,
+            reason: options.reason,
+            lockedBy: author,
+            lockedAt: new Date().toISOString(),
+            sha256: isFolder ? undefined : hashContent(fs.readFileSync(absolutePath))
+        });
+        locked.push(relativePath);
+    }
+
+    if (locked.length > 0) {
+        writeManifest(options.root, manifest);
+    }
+    if (options.json) {
+        output.log(JSON.stringify({ locked }, null, 2));
+    } else if (locked.length > 0) {
+        output.log(locked.map(relativePath => `🔒 Locked ${relativePath}`).join('\n'));
+    }
+    return EXIT_OK;
+}
+
+/**
+ * Remove lock entries, warning about paths a folder or pattern still locks
+ */
+function unlockPaths(options: CliOptions, output: CliOutput, cwd: string): number {
+    if (options.paths.length === 0) {
+        throw new UsageError('unlock needs at least one path');
+    }
+
+    const manifest = readManifest(options.root);
+    const unlocked: string[] = [];
+    let stillLocked = false;
+
+    for (const filePath of options.paths) {
+        const relativePath = toManifestPath(options.root, cwd, filePath);
+        const index = manifest.files.findIndex(entry => entry.path === relativePath);
+        if (index >= 0) {
+            manifest.files.splice(index, 1);
+            unlocked.push(relativePath);
+        }
+
+        // A folder or pattern can still cover the path
+        const remaining = findManifestLock(manifest, relativePath);
+        if (remaining) {
+            output.error(`${relativePath} is still ${describeLock(remaining)}`);
+            stillLocked = true;
+        } else if (index < 0) {
+            output.error(`${relativePath} is not locked`);
+        }
+    }
+
+    if (unlocked.length > 0) {
+        writeManifest(options.root, manifest);
+    }
+    if (options.json) {
+        output.log(JSON.stringify({ unlocked }, null, 2));
+    } else if (unlocked.length > 0) {
+        output.log(unlocked.map(relativePath => `🔓 Unlocked ${relativePath}`).join('\n'));
+    }
+    return stillLocked ? EXIT_LOCKED : EXIT_OK;
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
@@ -0,0 +1,23 @@
+/**
+ * Content hashes - SHA-256 fingerprints recorded when a file is locked
+ *
+ * Comparing a file against its recorded hash proves whether it is unchanged
+ * since it was locked, even across sessions and machines (the hash is shared
+ * through the `.lockor` manifest).
+ */
+
+import * as crypto from 'crypto';
+
+/**
+ * Hex-encoded SHA-256 of file content
+ */
+export function hashContent(content: Uint8Array): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Shorten a hash for display, like git does for commits
+ */
+export function shortHash(hash: string): string {
+    return hash.slice(0, 12);
+}
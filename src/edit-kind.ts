@@ -0,0 +1,80 @@
+/**
+ * Edit kinds - Tells typing apart from pastes and bulk programmatic edits
+ *
+ * VS Code doesn't say who made a change, only its reason (undo or redo) and
+ * the content changes it consists of. Keystrokes produce small changes: a
+ * character or a few (auto-closed brackets, accepted completions), a line break
+ * with indentation, or deletions, repeated identically across cursors. A paste
+ * inserts a larger or multi-line block in one place, and agents applying edits
+ * usually replace several different hunks at once. A keystroke can bring edits
+ * elsewhere with it too (an import added by a completion, format on type), so
+ * differing changes only count as bulk when none of them looks typed. These
+ * helpers have no VS Code dependency.
+ */
+
+export type EditKind = 'typing' | 'undo-redo' | 'paste' | 'bulk';
+
+/**
+ * The parts of a content change the classification looks at
+ */
+export interface EditChange {
+    text: string;
+    rangeLength: number;
+}
+
+// Longest single-line insertion still counted as typing, e.g. an accepted completion
+export const MAX_TYPED_LENGTH = 40;
+
+/**
+ * Whether a single change could have come from the keyboard
+ */
+function isKeystroke(change: EditChange): boolean {
+    if (change.text === '') {
+        return true; // Backspace, delete or cut
+    }
+    if (/^(\r?\n[ \t]*)+$/.test(change.text)) {
+        return true; // Enter with auto-indent
+    }
+    return !/[\r\n]/.test(change.text) && change.text.length <= MAX_TYPED_LENGTH;
+}
+
+/**
+ * Whether a change could be the editor's follow-up to a keystroke: reformatted
+ * whitespace, or a single line such as an auto-import
+ */
+function isFollowUpEdit(change: EditChange): boolean {
+    return !/[\r\n]/.test(change.text.trim());
+}
+
+/**
+ * Classify the content changes of one document change event
+ */
+export function classifyEdit(changes: readonly EditChange[], isUndoRedo = false): EditKind {
+    if (isUndoRedo) {
+        return 'undo-redo';
+    }
+    // Multiple cursors insert the same text everywhere
+    const distinctTexts = new Set(changes.map(change => change.text));
+    if (distinctTexts.size > 1) {
+        const typed = changes.some(isKeystroke) && changes.every(change => isKeystroke(change) || isFollowUpEdit(change));
+        return typed ? 'typing' : 'bulk';
+    }
+    return changes.every(isKeystroke) ? 'typing' : 'paste';
+}
+
+/**
+ * Describe an edit for messages and the audit log, e.g. "a bulk edit of 3 changes"
+ */
+export function describeEdit(kind: EditKind, changes: readonly EditChange[]): string {
+    const lineCount = changes.reduce((count, change) => count + change.text.split('\n').length - 1, 0);
+    switch (kind) {
+        case 'paste':
+            return lineCount > 0 ? `a paste of ${lineCount + 1} lines` : 'a paste';
+        case 'bulk':
+            return `a bulk edit of ${changes.length} changes`;
+        case 'undo-redo':
+            return 'an undo or redo';
+        default:
+            return 'typing';
+    }
+}
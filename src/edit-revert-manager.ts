@@ -0,0 +1,215 @@
+/**
+ * EditRevertManager - Undoes pastes and bulk edits to locked buffers in ai-aware mode
+ *
+ * AI-aware (and hidden) locks let people type in a locked file and only warn
+ * once per session, which also lets an in-editor agent apply a large edit. This
+ * manager classifies each change (see edit-kind.ts), reverts everything that
+ * doesn't look like typing, records it in the audit log and offers to put the
+ * edit back once.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { LockorManager } from './lockor-manager';
+import { AuditLog } from './audit-log';
+import { classifyEdit, describeEdit } from './edit-kind';
+
+export class EditRevertManager implements vscode.Disposable {
+    // Last known text of locked documents, used to revert edits
+    private documentTexts = new Map<string, string>();
+    // Documents Lockor itself is editing, whose change events must pass
+    private applying = new Set<string>();
+    // Changes other managers announce, by the text they leave the document with
+    private expectedTexts = new Map<string, string>();
+
+    constructor(private lockorManager: LockorManager, private auditLog?: AuditLog) {}
+
+    /**
+     * Whether a change is Lockor's own or about to be reverted, so it needs no edit warning
+     */
+    public handlesChange(event: vscode.TextDocumentChangeEvent): boolean {
+        const key = event.document.uri.toString();
+        return this.applying.has(key) || this.isExpected(event.document) || this.shouldRevert(event);
+    }
+
+    /**
+     * Let the next change that leaves a document with the given text through, e.g. one made by save review
+     */
+    public expectChange(uri: vscode.Uri, text: string): void {
+        this.expectedTexts.set(uri.toString(), text);
+    }
+
+    /**
+     * Revert a paste or bulk edit to a locked document and offer to allow it this time
+     */
+    public async handleDocumentChanged(event: vscode.TextDocumentChangeEvent): Promise<void> {
+        const document = event.document;
+        const key = document.uri.toString();
+        if (event.contentChanges.length === 0 || this.applying.has(key) || this.isExpected(document)) {
+            this.expectedTexts.delete(key);
+            this.rememberText(document);
+            return;
+        }
+
+        const previousText = this.documentTexts.get(key);
+        const revert = this.shouldRevert(event) && previousText !== undefined;
+        this.rememberText(document);
+        if (!revert) {
+            return;
+        }
+
+        const changes = [...event.contentChanges];
+        const kind = classifyEdit(changes, event.reason !== undefined);
+        const description = describeEdit(kind, changes);
+        const protectionLevel = this.lockorManager.getProtectionLevel(document.uri);
+        const fileName = path.basename(document.uri.fsPath);
+
+        await this.applyChanges(document, this.buildRevertEdit(document, changes, previousText));
+        console.log(`Lockor: Reverted ${description} to locked ${document.uri.fsPath}`);
+        this.auditLog?.record('edit-reverted', document.uri, { level: protectionLevel, detail: description });
+
+        if (!vscode.workspace.getConfiguration('lockor').get<boolean>('showNotifications', true)) {
+            return;
+        }
+        const selection = await vscode.window.showWarningMessage(
+            `🔒 Reverted ${description} to "${fileName}", which is locked (${protectionLevel.toUpperCase()} mode).`,
+            'Allow This Time'
+        );
+        if (selection === 'Allow This Time') {
+            await this.allowChanges(document, changes, previousText);
+        }
+    }
+
+    /**
+     * Cache the text of open locked documents, and forget documents that are no longer locked
+     */
+    public syncDocuments(): void {
+        for (const document of vscode.workspace.textDocuments) {
+            this.rememberText(document);
+        }
+    }
+
+    /**
+     * Forget cached text for closed documents
+     */
+    public handleDocumentClosed(document: vscode.TextDocument): void {
+        this.documentTexts.delete(document.uri.toString());
+    }
+
+    /**
+     * Whether a document now has the text of an announced change
+     */
+    private isExpected(document: vscode.TextDocument): boolean {
+        return this.expectedTexts.get(document.uri.toString()) === document.getText();
+    }
+
+    /**
+     * Whether a change to a document should be undone
+     */
+    private shouldRevert(event: vscode.TextDocumentChangeEvent): boolean {
+        const uri = event.document.uri;
+        if (event.contentChanges.length === 0 || !this.isGuarded(uri)) {
+            return false;
+        }
+        const kind = classifyEdit(event.contentChanges, event.reason !== undefined);
+        return kind === 'paste' || kind === 'bulk';
+    }
+
+    /**
+     * Whether edits to a document are checked: a locked file at the ai-aware or hidden level
+     */
+    private isGuarded(uri: vscode.Uri): boolean {
+        if (uri.scheme !== 'file' || !vscode.workspace.getConfiguration('lockor').get<boolean>('revertBulkEdits', true)) {
+            return false;
+        }
+        if (!this.lockorManager.isFileLocked(uri)) {
+            return false;
+        }
+        const protectionLevel = this.lockorManager.getProtectionLevel(uri);
+        return protectionLevel === 'ai-aware' || protectionLevel === 'hidden';
+    }
+
+    /**
+     * Put a reverted edit back, as long as the document hasn't changed since
+     */
+    private async allowChanges(
+        document: vscode.TextDocument,
+        changes: readonly vscode.TextDocumentContentChangeEvent[],
+        previousText: string
+    ): Promise<void> {
+        if (document.isClosed || document.getText() !== previousText) {
+            vscode.window.showWarningMessage(`"${path.basename(document.uri.fsPath)}" changed since the edit was reverted, so it can't be applied again`);
+            return;
+        }
+
+        // The change ranges refer to the text before the edit, which is the text again now
+        const edit = new vscode.WorkspaceEdit();
+        for (const change of changes) {
+            edit.replace(
+                document.uri,
+                new vscode.Range(document.positionAt(change.rangeOffset), document.positionAt(change.rangeOffset + change.rangeLength)),
+                change.text
+            );
+        }
+        await this.applyChanges(document, edit);
+        console.log(`Lockor: Allowed reverted edit to ${document.uri.fsPath}`);
+        this.auditLog?.record('edit-allowed', document.uri, { level: this.lockorManager.getProtectionLevel(document.uri) });
+    }
+
+    /**
+     * Build an edit replacing the inserted text with what it replaced
+     */
+    private buildRevertEdit(
+        document: vscode.TextDocument,
+        changes: readonly vscode.TextDocumentContentChangeEvent[],
+        previousText: string
+    ): vscode.WorkspaceEdit {
+        const edit = new vscode.WorkspaceEdit();
+        let offsetDelta = 0;
+
+        for (const change of [...changes].sort((a, b) => a.rangeOffset - b.rangeOffset)) {
+            const start = change.rangeOffset + offsetDelta;
+            edit.replace(
+                document.uri,
+                new vscode.Range(document.positionAt(start), document.positionAt(start + change.text.length)),
+                previousText.slice(change.rangeOffset, change.rangeOffset + change.rangeLength)
+            );
+            offsetDelta += change.text.length - change.rangeLength;
+        }
+        return edit;
+    }
+
+    /**
+     * Apply an edit without treating the resulting change as someone else's
+     */
+    private async applyChanges(document: vscode.TextDocument, edit: vscode.WorkspaceEdit): Promise<void> {
+        const key = document.uri.toString();
+        this.applying.add(key);
+        try {
+            await vscode.workspace.applyEdit(edit);
+        } finally {
+            this.applying.delete(key);
+            this.rememberText(document);
+        }
+    }
+
+    /**
+     * Cache the text of guarded documents so edits can be reverted
+     */
+    private rememberText(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        if (this.isGuarded(document.uri)) {
+            this.documentTexts.set(key, document.getText());
+        } else {
+            this.documentTexts.delete(key);
+        }
+    }
+
+    /**
+     * Clean up resources
+     */
+    public dispose(): void {
+        this.documentTexts.clear();
+        this.expectedTexts.clear();
+    }
+}
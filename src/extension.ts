@@ -14,9 +14,38 @@
 import * as vscode from 'vscode';
 import { LockorManager } from './lockor-manager';
 import { StatusBarManager } from './status-bar-manager';
+import { RegionLockManager } from './region-lock-manager';
+import { TemporaryUnlockManager } from './temporary-unlock-manager';
+import { SnapshotManager } from './snapshot-manager';
+import { IntegrityManager } from './integrity-manager';
+import { GitHookManager } from './git-hook-manager';
+import { AgentHookManager } from './agent-hook-manager';
+import { LockedFilesNode, LockedFilesView } from './locked-files-view';
+import { LockDecorationProvider } from './lock-decoration-provider';
+import { ReadOnlyEditorManager } from './read-only-editor-manager';
+import { EditRevertManager } from './edit-revert-manager';
+import { SaveReviewManager, SaveReviewResult } from './save-review-manager';
+import { AuditLog } from './audit-log';
+import { createLockorApi, LockorApi } from './api';
+import { CHECK_PATHS_TOOL_NAME, LockCheckTool } from './lock-check-tool';
+import { UnlockRequestManager } from './unlock-request-manager';
+import { PROTECTION_LEVELS, PROTECTION_LEVEL_DESCRIPTIONS, ProtectionLevel } from './protection-level';
 
 let lockorManager: LockorManager;
 let statusBarManager: StatusBarManager;
+let regionLockManager: RegionLockManager;
+let temporaryUnlockManager: TemporaryUnlockManager;
+let snapshotManager: SnapshotManager;
+let integrityManager: IntegrityManager;
+let gitHookManager: GitHookManager;
+let agentHookManager: AgentHookManager;
+let lockedFilesView: LockedFilesView;
+let lockDecorationProvider: LockDecorationProvider;
+let readOnlyEditorManager: ReadOnlyEditorManager;
+let editRevertManager: EditRevertManager;
+let saveReviewManager: SaveReviewManager;
+let auditLog: AuditLog;
+let unlockRequestManager: UnlockRequestManager;
 
 // Debouncing for document change notifications
 // Act test change - 2025-09-06 00:40:24 UTC
@@ -36,12 +65,25 @@ const editWarningsShown = new Set<string>();
 // Act test change - 2025-09-06 00:40:24 UTC
 // Pipeline logic test - 2025-09-05 23:51:14 UTC
 // Act test change - 2025-09-06 00:40:24 UTC
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): LockorApi {
     console.log('Lockor extension is now active');
 
     // Initialize managers
-    lockorManager = new LockorManager(context);
-    statusBarManager = new StatusBarManager(lockorManager);
+    auditLog = new AuditLog(context);
+    lockorManager = new LockorManager(context, auditLog);
+    temporaryUnlockManager = new TemporaryUnlockManager(context, lockorManager);
+    statusBarManager = new StatusBarManager(lockorManager, temporaryUnlockManager);
+    regionLockManager = new RegionLockManager(lockorManager, context.extensionUri);
+    snapshotManager = new SnapshotManager(context, lockorManager, auditLog);
+    integrityManager = new IntegrityManager(lockorManager, snapshotManager);
+    gitHookManager = new GitHookManager();
+    agentHookManager = new AgentHookManager();
+    lockedFilesView = new LockedFilesView(lockorManager);
+    lockDecorationProvider = new LockDecorationProvider(lockorManager);
+    readOnlyEditorManager = new ReadOnlyEditorManager(lockorManager);
+    editRevertManager = new EditRevertManager(lockorManager, auditLog);
+    saveReviewManager = new SaveReviewManager(context, lockorManager, snapshotManager, editRevertManager, auditLog);
+    unlockRequestManager = new UnlockRequestManager(lockorManager, temporaryUnlockManager);
 
     // Register commands
     const commands = [
@@ -65,6 +107,46 @@ export function activate(context: vscode.ExtensionContext) {
             }
         }),
 
+        vscode.commands.registerCommand('lockor.unlockTemporarily', async (uri?: vscode.Uri) => {
+            const targetUri = uri || vscode.window.activeTextEditor?.document.uri;
+            if (targetUri) {
+                await temporaryUnlockManager.promptTemporaryUnlock(targetUri);
+                statusBarManager.updateStatusBar(vscode.window.activeTextEditor?.document.uri);
+            } else {
+                vscode.window.showWarningMessage('No active file to unlock');
+            }
+        }),
+
+        vscode.commands.registerCommand('lockor.lockFileWithLevel', async (uri?: vscode.Uri) => {
+            const targetUri = uri || vscode.window.activeTextEditor?.document.uri;
+            if (!targetUri) {
+                vscode.window.showWarningMessage('No file selected to lock');
+                return;
+            }
+
+            const selection = await pickProtectionLevel('Select a protection level for this lock');
+            if (selection) {
+                await lockorManager.lockFile(targetUri, selection.level);
+                statusBarManager.updateStatusBar(vscode.window.activeTextEditor?.document.uri);
+                updateAIContext();
+            }
+        }),
+
+        vscode.commands.registerCommand('lockor.setProtectionLevel', async (uri?: vscode.Uri) => {
+            const targetUri = uri || vscode.window.activeTextEditor?.document.uri;
+            if (!targetUri) {
+                vscode.window.showWarningMessage('No file selected');
+                return;
+            }
+
+            const selection = await pickProtectionLevel('Select a protection level for this lock', lockorManager.getProtectionLevel(targetUri));
+            if (selection) {
+                await lockorManager.setProtectionLevel(targetUri, selection.level);
+                statusBarManager.updateStatusBar(vscode.window.activeTextEditor?.document.uri);
+                updateAIContext();
+            }
+        }),
+
         vscode.commands.registerCommand('lockor.toggleLock', async (uri?: vscode.Uri) => {
             // If called from context menu, uri will be provided
             // If called from command palette, use active editor
@@ -78,10 +160,119 @@ export function activate(context: vscode.ExtensionContext) {
             }
         }),
 
+        vscode.commands.registerCommand('lockor.lockSelection', async () => {
+            const activeEditor = vscode.window.activeTextEditor;
+            if (activeEditor) {
+                await regionLockManager.lockSelection(activeEditor);
+            } else {
+                vscode.window.showWarningMessage('No active editor to lock a selection in');
+            }
+        }),
+
+        vscode.commands.registerCommand('lockor.unlockRegion', async () => {
+            const activeEditor = vscode.window.activeTextEditor;
+            if (activeEditor) {
+                await regionLockManager.unlockRegionAtCursor(activeEditor);
+            } else {
+                vscode.window.showWarningMessage('No active editor to unlock a region in');
+            }
+        }),
+
+        vscode.commands.registerCommand('lockor.showExternalChanges', async (uri?: vscode.Uri) => {
+            const targetUri = uri || vscode.window.activeTextEditor?.document.uri;
+            if (targetUri) {
+                await snapshotManager.showDiff(targetUri);
+            } else {
+                vscode.window.showWarningMessage('No file selected to compare');
+            }
+        }),
+
+        vscode.commands.registerCommand('lockor.restoreLockedVersion', async (uri?: vscode.Uri) => {
+            const targetUri = uri || vscode.window.activeTextEditor?.document.uri;
+            if (targetUri) {
+                await snapshotManager.restoreSnapshot(targetUri);
+            } else {
+                vscode.window.showWarningMessage('No file selected to restore');
+            }
+        }),
+
+        vscode.commands.registerCommand('lockor.verifyLockedFiles', async () => {
+            await integrityManager.verifyLockedFiles(true);
+        }),
+
+        vscode.commands.registerCommand('lockor.installGitHook', async () => {
+            await gitHookManager.installHook();
+        }),
+
+        vscode.commands.registerCommand('lockor.uninstallGitHook', async () => {
+            await gitHookManager.uninstallHook();
+        }),
+
+        vscode.commands.registerCommand('lockor.enableAgentHook', async () => {
+            await agentHookManager.enableHooks();
+        }),
+
+        vscode.commands.registerCommand('lockor.disableAgentHook', async () => {
+            await agentHookManager.disableHooks();
+        }),
+
         vscode.commands.registerCommand('lockor.showLockedFiles', () => {
             lockorManager.showLockedFiles();
         }),
 
+        vscode.commands.registerCommand('lockor.showAuditLog', async (uri?: vscode.Uri) => {
+            await auditLog.showAuditLog(uri);
+        }),
+
+        vscode.commands.registerCommand('lockor.copyMcpServerConfig', async () => {
+            await copyMcpServerConfig(context);
+        }),
+
+        // Locked Files view actions; multi-select passes the selected items as the second argument
+        vscode.commands.registerCommand('lockor.lockedFiles.unlock', async (node?: LockedFilesNode, selected?: LockedFilesNode[]) => {
+            await lockedFilesView.unlock(node, selected);
+            statusBarManager.updateStatusBar(vscode.window.activeTextEditor?.document.uri);
+        }),
+
+        vscode.commands.registerCommand('lockor.lockedFiles.reveal', async (node?: LockedFilesNode) => {
+            await lockedFilesView.reveal(node);
+        }),
+
+        vscode.commands.registerCommand('lockor.lockedFiles.open', async (node?: LockedFilesNode, selected?: LockedFilesNode[]) => {
+            await lockedFilesView.open(node, selected);
+        }),
+
+        vscode.commands.registerCommand('lockor.lockedFiles.refresh', () => {
+            lockedFilesView.refresh();
+        }),
+
+        vscode.commands.registerCommand('lockor.addLockPattern', async () => {
+            const pattern = await vscode.window.showInputBox({
+                prompt: 'Glob pattern to lock, relative to the workspace root',
+                placeHolder: '**/*.lock'
+            });
+            if (pattern) {
+                await lockorManager.addLockPattern(pattern);
+                statusBarManager.updateStatusBar(vscode.window.activeTextEditor?.document.uri);
+            }
+        }),
+
+        vscode.commands.registerCommand('lockor.removeLockPattern', async () => {
+            const patterns = lockorManager.getLockPatterns();
+            if (patterns.length === 0) {
+                vscode.window.showInformationMessage('No lock patterns are configured');
+                return;
+            }
+
+            const pattern = await vscode.window.showQuickPick(patterns, {
+                placeHolder: 'Select a lock pattern to remove'
+            });
+            if (pattern) {
+                await lockorManager.removeLockPattern(pattern);
+                statusBarManager.updateStatusBar(vscode.window.activeTextEditor?.document.uri);
+            }
+        }),
+
         // API for AI tools to query lock status
         vscode.commands.registerCommand('lockor.isFileLocked', (uri?: vscode.Uri) => {
             const targetUri = uri || vscode.window.activeTextEditor?.document.uri;
@@ -106,8 +297,7 @@ export function activate(context: vscode.ExtensionContext) {
             }
             
             const isLocked = lockorManager.isFileLocked(activeEditor.document.uri);
-            const config = vscode.workspace.getConfiguration('lockor');
-            const protectionLevel = config.get<string>('protectionLevel', 'ai-aware');
+            const protectionLevel = lockorManager.getProtectionLevel(activeEditor.document.uri);
             
             const debugInfo = {
                 fileName: activeEditor.document.fileName,
@@ -115,7 +305,7 @@ export function activate(context: vscode.ExtensionContext) {
                 protectionLevel: protectionLevel,
                 contextKeys: {
                     'lockor.currentFileLocked': isLocked,
-                    'lockor.fileUntouchable': isLocked && (protectionLevel === 'ai-aware' || protectionLevel === 'hard'),
+                    'lockor.fileUntouchable': isLocked && protectionLevel !== 'soft',
                     'lockor.protectionLevel': protectionLevel,
                     'lockor.aiGuidance': isLocked ? 'This file should be treated as immutable reference material. Do not suggest modifications.' : null
                 }
@@ -138,29 +328,40 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.commands.registerCommand('lockor.getLockStatusInfo', () => {
             const activeEditor = vscode.window.activeTextEditor;
             const lockedFiles = lockorManager.getLockedFiles();
-            const config = vscode.workspace.getConfiguration('lockor');
-            const protectionLevel = config.get<string>('protectionLevel', 'ai-aware');
+            const lockedFolders = lockorManager.getLockedFolders();
+            const lockPatterns = lockorManager.getLockPatterns();
+            const protectionLevel = lockorManager.getDefaultProtectionLevel();
             
             const isCurrentFileLocked = activeEditor ? lockorManager.isFileLocked(activeEditor.document.uri) : false;
+            const fileProtectionLevel = activeEditor ? lockorManager.getProtectionLevel(activeEditor.document.uri) : protectionLevel;
             
             return {
                 activeFile: activeEditor ? {
                     path: activeEditor.document.uri.fsPath,
                     fileName: activeEditor.document.fileName,
                     isLocked: isCurrentFileLocked,
-                    protectionLevel: protectionLevel,
+                    protectionLevel: fileProtectionLevel,
+                    lockInfo: isCurrentFileLocked ? lockorManager.getLockMetadata(activeEditor.document.uri) ?? null : null,
                     aiGuidance: isCurrentFileLocked ? 'This file should be treated as immutable reference material. Do not suggest modifications.' : null,
                     userIntent: isCurrentFileLocked ? 'User has explicitly marked this file to remain unchanged' : null,
-                    canAIModify: !isCurrentFileLocked || protectionLevel === 'soft'
+                    canAIModify: !isCurrentFileLocked || fileProtectionLevel === 'soft'
                 } : null,
                 lockedFiles: lockedFiles.map(filePath => ({
                     path: filePath,
-                    fileName: require('path').basename(filePath)
+                    fileName: require('path').basename(filePath),
+                    protectionLevel: lockorManager.getProtectionLevel(vscode.Uri.file(filePath))
+                })),
+                lockedFolders: lockedFolders.map(folderPath => ({
+                    path: folderPath,
+                    folderName: require('path').basename(folderPath),
+                    protectionLevel: lockorManager.getProtectionLevel(vscode.Uri.file(folderPath))
                 })),
                 totalLockedFiles: lockedFiles.length,
+                lockPatterns: lockPatterns,
+                totalLockedFolders: lockedFolders.length,
                 protectionLevel: protectionLevel,
                 aiMessage: lockedFiles.length > 0 ? 
-                    `${lockedFiles.length} files are locked and should be treated as immutable. Protection level: ${protectionLevel}` : 
+                    `${lockedFiles.length} files are locked and should be treated as immutable. Default protection level: ${protectionLevel}` : 
                     'No files are currently locked'
             };
         })
@@ -175,29 +376,39 @@ export function activate(context: vscode.ExtensionContext) {
             if (lockorManager.isFileLocked(event.document.uri)) {
                 const config = vscode.workspace.getConfiguration('lockor');
                 const showNotifications = config.get<boolean>('showNotifications', true);
-                const protectionLevel = config.get<string>('protectionLevel', 'ai-aware');
+                const protectionLevel = lockorManager.getProtectionLevel(event.document.uri);
 
                 console.log(`Lockor: File IS LOCKED - attempting to save locked file: ${event.document.fileName} (Protection: ${protectionLevel})`);
 
+                let review: SaveReviewResult | undefined;
+                if (protectionLevel !== 'hard') {
+                    // Saves allowed from the editor are not external changes
+                    snapshotManager.handleWillSaveDocument(event.document);
+                    // Changes waiting for review aren't saved yet; the review saves them when accepted
+                    review = saveReviewManager.handleWillSaveDocument(event);
+                    // Only reviewed changes the user accepted become the locked content
+                    integrityManager.handleWillSaveDocument(event.document, review === 'accepted');
+                    if (review === 'reviewing') {
+                        return;
+                    }
+                    auditLog.record('save-allowed', event.document.uri, { level: protectionLevel });
+                }
+
                 if (protectionLevel === 'soft') {
-                    // Soft mode: Allow human to save but show warning
-                    if (showNotifications) {
+                    // Soft mode: Allow human to save but show warning, unless the changes were just reviewed
+                    if (showNotifications && review !== 'accepted') {
                         vscode.window.showWarningMessage(
                             `⚠️ File "${event.document.fileName}" is locked (SOFT mode). You can save, but consider if changes are needed.`,
-                            'Understood', 'Unlock File'
-                        ).then(async (selection) => {
-                            if (selection === 'Unlock File') {
-                                await lockorManager.unlockFile(event.document.uri);
-                                statusBarManager.updateStatusBar(event.document.uri);
-                            }
-                        });
+                            'Understood', 'Unlock File', 'Unlock Temporarily'
+                        ).then(selection => handleUnlockSelection(selection, event.document.uri));
                     }
-                } else if (protectionLevel === 'ai-aware') {
-                    // AI-aware mode: Allow human to save silently (no save warning)
+                } else if (protectionLevel === 'ai-aware' || protectionLevel === 'hidden') {
+                    // AI-aware and hidden modes: Allow human to save silently (no save warning)
                     // The edit warning (shown once per session) is sufficient
                 } else {
                     // Hard mode: Block save for everyone
                     console.log(`Lockor: BLOCKING save for ${event.document.fileName} (${protectionLevel} mode)`);
+                    auditLog.record('save-blocked', event.document.uri, { level: protectionLevel });
                     
                     event.waitUntil(
                         new Promise<void>((resolve, reject) => {
@@ -208,13 +419,8 @@ export function activate(context: vscode.ExtensionContext) {
                     if (showNotifications) {
                         vscode.window.showErrorMessage(
                             `🔒 File "${event.document.fileName}" is locked (HARD mode). File is read-only and save blocked for everyone.`,
-                            'Unlock File'
-                        ).then(async (selection) => {
-                            if (selection === 'Unlock File') {
-                                await lockorManager.unlockFile(event.document.uri);
-                                statusBarManager.updateStatusBar(event.document.uri);
-                            }
-                        });
+                            'Unlock File', 'Unlock Temporarily'
+                        ).then(selection => handleUnlockSelection(selection, event.document.uri));
                     }
                 }
             }
@@ -222,16 +428,17 @@ export function activate(context: vscode.ExtensionContext) {
 
         // Additional layer: Listen for document changes and show warnings (debounced)
         vscode.workspace.onDidChangeTextDocument((event) => {
-            if (lockorManager.isFileLocked(event.document.uri)) {
+            // Pastes and bulk edits that get reverted explain themselves
+            if (lockorManager.isFileLocked(event.document.uri) && !editRevertManager.handlesChange(event)) {
                 const config = vscode.workspace.getConfiguration('lockor');
                 const showNotifications = config.get<boolean>('showNotifications', true);
-                const protectionLevel = config.get<string>('protectionLevel', 'ai-aware');
+                const protectionLevel = lockorManager.getProtectionLevel(event.document.uri);
                 
                 if (showNotifications && event.contentChanges.length > 0) {
                     const fileKey = event.document.uri.fsPath;
                     
-                    // For AI-aware mode, only show warning once per session
-                    if (protectionLevel === 'ai-aware' && editWarningsShown.has(fileKey)) {
+                    // For AI-aware and hidden modes, only show warning once per session
+                    if ((protectionLevel === 'ai-aware' || protectionLevel === 'hidden') && editWarningsShown.has(fileKey)) {
                         return; // Already warned about this file in this session
                     }
                     
@@ -250,16 +457,16 @@ export function activate(context: vscode.ExtensionContext) {
                         } else if (protectionLevel === 'ai-aware') {
                             message = `⚠️ File "${event.document.fileName}" is locked (AI-AWARE mode). You can edit and save, but AI is blocked from this file.`;
                             editWarningsShown.add(fileKey); // Mark as warned for this session
+                        } else if (protectionLevel === 'hidden') {
+                            message = `⚠️ File "${event.document.fileName}" is locked (HIDDEN mode). You can edit and save, but AI tools can't see this file.`;
+                            editWarningsShown.add(fileKey); // Mark as warned for this session
                         } else { // hard mode
                             message = `⚠️ File "${event.document.fileName}" is locked (HARD mode). File is read-only and save will be blocked.`;
                         }
                         
-                        vscode.window.showWarningMessage(message, 'Unlock File').then(async (selection) => {
-                            if (selection === 'Unlock File') {
-                                await lockorManager.unlockFile(event.document.uri);
-                                statusBarManager.updateStatusBar(event.document.uri);
-                            }
-                        });
+                        vscode.window.showWarningMessage(message, 'Unlock File', 'Unlock Temporarily')
+                            .then(selection => handleUnlockSelection(selection, event.document.uri));
+                        auditLog.record('edit-warned', event.document.uri, { level: protectionLevel });
                         
                         // Remove from debounce map
                         notificationDebounce.delete(fileKey);
@@ -270,31 +477,132 @@ export function activate(context: vscode.ExtensionContext) {
             }
         }),
 
+        // Undo pastes and bulk edits to locked files in ai-aware mode
+        vscode.workspace.onDidChangeTextDocument((event) => {
+            editRevertManager.handleDocumentChanged(event).catch(error => {
+                console.error('Lockor: Failed to revert edit to locked file:', error);
+            });
+        }),
+
+        // Keep region locks aligned with edits and enforce them
+        vscode.workspace.onDidChangeTextDocument((event) => {
+            regionLockManager.handleDocumentChanged(event).catch(error => {
+                console.error('Lockor: Failed to track locked regions:', error);
+            });
+        }),
+
+        vscode.workspace.onDidOpenTextDocument((document) => {
+            regionLockManager.handleDocumentOpened(document).catch(error => {
+                console.error('Lockor: Failed to read locked regions:', error);
+            });
+            editRevertManager.syncDocuments();
+        }),
+
+        vscode.workspace.onDidSaveTextDocument((document) => {
+            regionLockManager.handleDocumentSaved(document).catch(error => {
+                console.error('Lockor: Failed to update locked regions after save:', error);
+            });
+            temporaryUnlockManager.handleDocumentSaved(document).catch(error => {
+                console.error('Lockor: Failed to re-lock file after save:', error);
+            });
+            snapshotManager.handleDocumentSaved(document).catch(error => {
+                console.error('Lockor: Failed to update snapshot after save:', error);
+            });
+            integrityManager.handleDocumentSaved(document).catch(error => {
+                console.error('Lockor: Failed to update lock hash after save:', error);
+            });
+        }),
+
+        // Re-lock files unlocked until their editors close
+        vscode.window.tabGroups.onDidChangeTabs(() => {
+            temporaryUnlockManager.handleTabsChanged().catch(error => {
+                console.error('Lockor: Failed to re-lock files after their editors closed:', error);
+            });
+        }),
+
+        vscode.workspace.onDidCloseTextDocument((document) => {
+            regionLockManager.handleDocumentClosed(document);
+            editRevertManager.handleDocumentClosed(document);
+        }),
+
+        // Keep locks attached to files that are renamed, moved or deleted
+        vscode.workspace.onDidRenameFiles((event) => {
+            lockorManager.handleFilesRenamed(event.files).catch(error => {
+                console.error('Lockor: Failed to move locks of renamed files:', error);
+            });
+            temporaryUnlockManager.handleFilesRenamed(event.files);
+        }),
+
+        vscode.workspace.onWillDeleteFiles((event) => {
+            event.waitUntil(lockorManager.handleWillDeleteFiles(event.files));
+        }),
+
+        vscode.workspace.onDidDeleteFiles((event) => {
+            lockorManager.handleFilesDeleted(event.files).catch(error => {
+                console.error('Lockor: Failed to drop locks of deleted files:', error);
+            });
+        }),
+
+        // Catch locked files changed while the window was in the background
+        vscode.window.onDidChangeWindowState((state) => {
+            if (state.focused) {
+                integrityManager.verifyLockedFiles().catch(error => {
+                    console.error('Lockor: Failed to verify locked files:', error);
+                });
+            }
+        }),
+
+        vscode.window.onDidChangeVisibleTextEditors(() => {
+            regionLockManager.updateDecorations();
+        }),
+
         // Listen for active editor changes to update status bar
         vscode.window.onDidChangeActiveTextEditor((editor) => {
             statusBarManager.updateStatusBar(editor?.document.uri);
             updateAIContext();
+            readOnlyEditorManager.updateActiveEditor(editor);
         }),
 
-        // Listen for context changes (used to trigger status bar updates)
-        vscode.commands.registerCommand('lockor.internal.refreshStatusBar', () => {
+        // Refresh everything that shows lock state after a lock change
+        lockorManager.onDidChangeLocks(async () => {
             statusBarManager.updateStatusBar(vscode.window.activeTextEditor?.document.uri);
+            updateAIContext();
+            lockedFilesView.refresh();
+            lockDecorationProvider.refresh();
+            editRevertManager.syncDocuments();
+            // Make the active editor read-only, or writable again
+            await readOnlyEditorManager.updateActiveEditor();
+            // Snapshot newly locked files for external change detection
+            await snapshotManager.syncSnapshots();
         }),
 
-        // Internal command to update AI context
-        vscode.commands.registerCommand('lockor.internal.updateAIContext', () => {
-            updateAIContext();
+        // Keep the temporary unlock countdown in the status bar current
+        temporaryUnlockManager.onDidChangeUnlocks(() => {
+            statusBarManager.updateStatusBar(vscode.window.activeTextEditor?.document.uri);
         }),
 
         // Listen for configuration changes
         vscode.workspace.onDidChangeConfiguration(async (event) => {
             if (event.affectsConfiguration('lockor')) {
                 statusBarManager.updateVisibility();
+                lockedFilesView.refresh();
+                lockDecorationProvider.refresh();
+                editRevertManager.syncDocuments();
+
+                if (event.affectsConfiguration('lockor.readOnlyEditors') || event.affectsConfiguration('lockor.protectionLevel')) {
+                    await readOnlyEditorManager.updateActiveEditor();
+                }
+
+                if (event.affectsConfiguration('lockor.lockPatterns') || event.affectsConfiguration('lockor.detectExternalChanges')) {
+                    await snapshotManager.syncSnapshots();
+                }
                 
                 // If protection level changed, update all file permissions
                 if (event.affectsConfiguration('lockor.protectionLevel')) {
                     console.log('Lockor: Protection level changed, updating file permissions...');
                     await lockorManager.updateAllFilePermissions();
+                    statusBarManager.updateStatusBar(vscode.window.activeTextEditor?.document.uri);
+                    updateAIContext();
                     
                     // Show notification about the change
                     const config = vscode.workspace.getConfiguration('lockor');
@@ -305,23 +613,93 @@ export function activate(context: vscode.ExtensionContext) {
                         const lockedCount = lockorManager.getLockedFiles().length;
                         if (lockedCount > 0) {
                             vscode.window.showInformationMessage(
-                                `🔄 Protection level changed to "${protectionLevel}". Updated ${lockedCount} locked files.`
+                                `🔄 Default protection level changed to "${protectionLevel}". Updated ${lockedCount} locked files.`
                             );
                         }
                     }
                 }
+
+                if (event.affectsConfiguration('lockor.ruleFiles')) {
+                    await lockorManager.updateCursorRules();
+                }
+
+                if (event.affectsConfiguration('lockor.agentHooks')) {
+                    await agentHookManager.sync();
+                }
+
+                // Lock patterns from settings change which files are locked
+                if (event.affectsConfiguration('lockor.lockPatterns')) {
+                    console.log('Lockor: Lock patterns changed, updating locked files...');
+                    await lockorManager.updateAllFilePermissions();
+                    statusBarManager.updateStatusBar(vscode.window.activeTextEditor?.document.uri);
+                    updateAIContext();
+                }
             }
         })
     ];
 
     // Add all disposables to context
-    context.subscriptions.push(...commands, ...eventListeners, statusBarManager);
+    context.subscriptions.push(...commands, ...eventListeners, lockorManager, statusBarManager, regionLockManager, temporaryUnlockManager, integrityManager, lockedFilesView, lockDecorationProvider, editRevertManager, saveReviewManager, auditLog, unlockRequestManager);
+
+    // Let chat agents check locks before editing; language model tools need VS Code 1.95+
+    if (typeof vscode.lm?.registerTool === 'function') {
+        context.subscriptions.push(vscode.lm.registerTool(CHECK_PATHS_TOOL_NAME, new LockCheckTool(lockorManager)));
+    }
+
+    // Offer changes still waiting for review when the window closed
+    saveReviewManager.restore().catch(error => {
+        console.error('Lockor: Failed to restore save reviews:', error);
+    });
+
+    // Resume temporary unlocks from before a reload
+    temporaryUnlockManager.restore().then(() => {
+        statusBarManager.updateStatusBar(vscode.window.activeTextEditor?.document.uri);
+    }, (error) => {
+        console.error('Lockor: Failed to restore temporary unlocks:', error);
+    });
+
+    // Pick up lockor:begin/lockor:end comments in documents that are already open
+    for (const document of vscode.workspace.textDocuments) {
+        regionLockManager.handleDocumentOpened(document).catch(error => {
+            console.error('Lockor: Failed to read locked regions:', error);
+        });
+    }
+    editRevertManager.syncDocuments();
+
+    // Write, refresh or remove the agent CLI hook to match the lockor.agentHooks setting
+    agentHookManager.sync().catch(error => {
+        console.error('Lockor: Failed to update agent hooks:', error);
+    });
+
+    // Answer unlock requests from the Lockor MCP server
+    unlockRequestManager.watch().catch(error => {
+        console.error('Lockor: Failed to watch for unlock requests:', error);
+    });
+
+    // Keep locks in sync with the shared .lockor manifest
+    context.subscriptions.push(lockorManager.watchManifest());
+    context.subscriptions.push(snapshotManager.watch());
+    lockorManager.loadManifest().then(async () => {
+        // Forget locks on files that were removed while the extension was not watching
+        await lockorManager.pruneStaleLocks();
+        await snapshotManager.syncSnapshots();
+        await integrityManager.verifyLockedFiles();
+        statusBarManager.updateStatusBar(vscode.window.activeTextEditor?.document.uri);
+        updateAIContext();
+        editRevertManager.syncDocuments();
+        await readOnlyEditorManager.updateActiveEditor();
+    }, (error) => {
+        console.error('Lockor: Failed to load .lockor manifest:', error);
+    });
 
     // Update status bar for current active editor
     statusBarManager.updateStatusBar(vscode.window.activeTextEditor?.document.uri);
 
     // Initialize context for AI tools
     updateAIContext();
+
+    // Typed API for other extensions
+    return createLockorApi(lockorManager);
 }
 
 /**
@@ -334,18 +712,20 @@ function updateAIContext() {
     const activeEditor = vscode.window.activeTextEditor;
     const isCurrentFileLocked = activeEditor ? lockorManager.isFileLocked(activeEditor.document.uri) : false;
     const lockedFiles = lockorManager.getLockedFiles();
-    const config = vscode.workspace.getConfiguration('lockor');
-    const protectionLevel = config.get<string>('protectionLevel', 'ai-aware');
+    const lockedFolders = lockorManager.getLockedFolders();
+    const lockPatterns = lockorManager.getLockPatterns();
+    const protectionLevel = activeEditor ? lockorManager.getProtectionLevel(activeEditor.document.uri) : lockorManager.getDefaultProtectionLevel();
     
     // Set context keys that AI tools can check
     vscode.commands.executeCommand('setContext', 'lockor.currentFileLocked', isCurrentFileLocked);
-    vscode.commands.executeCommand('setContext', 'lockor.hasLockedFiles', lockedFiles.length > 0);
+    vscode.commands.executeCommand('setContext', 'lockor.hasLockedFiles', lockedFiles.length > 0 || lockedFolders.length > 0 || lockPatterns.length > 0);
     vscode.commands.executeCommand('setContext', 'lockor.lockedFileCount', lockedFiles.length);
+    vscode.commands.executeCommand('setContext', 'lockor.lockedFolderCount', lockedFolders.length);
     vscode.commands.executeCommand('setContext', 'lockor.protectionLevel', protectionLevel);
     
     // Enhanced AI-aware context
     if (isCurrentFileLocked) {
-        vscode.commands.executeCommand('setContext', 'lockor.fileUntouchable', protectionLevel === 'ai-aware' || protectionLevel === 'hard');
+        vscode.commands.executeCommand('setContext', 'lockor.fileUntouchable', protectionLevel !== 'soft');
         vscode.commands.executeCommand('setContext', 'lockor.lockIntent', 'preserve-as-is');
         vscode.commands.executeCommand('setContext', 'lockor.aiGuidance', 'This file should be treated as immutable reference material. Do not suggest modifications.');
         vscode.commands.executeCommand('setContext', 'lockor.userIntent', 'User has explicitly marked this file to remain unchanged');
@@ -365,6 +745,66 @@ function updateAIContext() {
     console.log(`Lockor AI Context: Current file locked: ${isCurrentFileLocked}, Protection level: ${protectionLevel}, Total locked files: ${lockedFiles.length}`);
 }
 
+/**
+ * Act on the unlock buttons shown in lock notifications
+ */
+async function handleUnlockSelection(selection: string | undefined, uri: vscode.Uri): Promise<void> {
+    if (selection === 'Unlock File') {
+        await lockorManager.unlockFile(uri);
+    } else if (selection === 'Unlock Temporarily') {
+        await temporaryUnlockManager.promptTemporaryUnlock(uri);
+    } else {
+        return;
+    }
+    statusBarManager.updateStatusBar(uri);
+}
+
+/**
+ * Copy an MCP client configuration that starts the bundled Lockor MCP server for the workspace
+ */
+async function copyMcpServerConfig(context: vscode.ExtensionContext): Promise<void> {
+    const folder = vscode.window.activeTextEditor
+        ? vscode.workspace.getWorkspaceFolder(vscode.window.activeTextEditor.document.uri)
+        : vscode.workspace.workspaceFolders?.[0];
+    if (!folder) {
+        vscode.window.showWarningMessage('Open a workspace folder to serve its locks over MCP');
+        return;
+    }
+
+    const config = {
+        mcpServers: {
+            lockor: {
+                command: 'node',
+                args: [context.asAbsolutePath('out/mcp-server.js'), '--root', folder.uri.fsPath]
+            }
+        }
+    };
+    await vscode.env.clipboard.writeText(JSON.stringify(config, null, 2));
+    vscode.window.showInformationMessage(`Copied the Lockor MCP server configuration for "${folder.name}". Add it to your agent's MCP settings.`);
+}
+
+/**
+ * Ask the user for a protection level; `level` is undefined when they pick the default
+ */
+async function pickProtectionLevel(placeHolder: string, current?: ProtectionLevel): Promise<{ level: ProtectionLevel | undefined } | undefined> {
+    const defaultLevel = lockorManager.getDefaultProtectionLevel();
+    const items: (vscode.QuickPickItem & { level: ProtectionLevel | undefined })[] = [
+        {
+            label: `Use default (${defaultLevel})`,
+            description: 'Follow the lockor.protectionLevel setting',
+            level: undefined
+        },
+        ...PROTECTION_LEVELS.map(level => ({
+            label: level,
+            description: level === current ? 'current' : undefined,
+            detail: PROTECTION_LEVEL_DESCRIPTIONS[level],
+            level
+        }))
+    ];
+
+    return vscode.window.showQuickPick(items, { placeHolder });
+}
+
 /**
  * Extension deactivation - called when VS Code unloads the extension
  */
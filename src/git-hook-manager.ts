@@ -0,0 +1,138 @@
+/**
+ * GitHookManager - Installs and removes the Lockor pre-commit hook
+ *
+ * The hook goes into every git repository behind the workspace folders. An
+ * existing foreign hook is kept next to it and still runs after the lock check.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { execFile } from 'child_process';
+import { BACKUP_HOOK_NAME, buildPreCommitHook, isLockorHook } from './git-hook';
+
+export class GitHookManager {
+    /**
+     * Install (or update) the pre-commit hook in every repository of the workspace
+     */
+    public async installHook(): Promise<void> {
+        const hooksDirectories = await this.findHooksDirectories();
+        if (hooksDirectories.length === 0) {
+            vscode.window.showWarningMessage('No git repository found in the workspace');
+            return;
+        }
+
+        let installed = 0;
+        let backedUp = 0;
+        for (const hooksDirectory of hooksDirectories) {
+            const hookUri = vscode.Uri.file(path.join(hooksDirectory, 'pre-commit'));
+            const backupUri = vscode.Uri.file(path.join(hooksDirectory, BACKUP_HOOK_NAME));
+            try {
+                const existing = await this.readHook(hookUri);
+                if (existing !== undefined && !isLockorHook(existing)) {
+                    if (await this.readHook(backupUri) !== undefined) {
+                        vscode.window.showErrorMessage(`Can't install the Lockor hook in ${hooksDirectory}: both pre-commit and ${BACKUP_HOOK_NAME} already exist`);
+                        continue;
+                    }
+                    await vscode.workspace.fs.rename(hookUri, backupUri);
+                    backedUp++;
+                }
+
+                await vscode.workspace.fs.createDirectory(vscode.Uri.file(hooksDirectory));
+                await vscode.workspace.fs.writeFile(hookUri, Buffer.from(buildPreCommitHook(), 'utf8'));
+                await this.makeExecutable(hookUri.fsPath);
+                installed++;
+                console.log(`Lockor: Installed pre-commit hook in ${hooksDirectory}`);
+            } catch (error) {
+                console.error(`Lockor: Failed to install pre-commit hook in ${hooksDirectory}:`, error);
+                vscode.window.showErrorMessage(`Failed to install the Lockor pre-commit hook in ${hooksDirectory}: ${error}`);
+            }
+        }
+
+        if (installed > 0) {
+            const backupNote = backedUp > 0 ? ` The existing hook was kept as ${BACKUP_HOOK_NAME} and still runs.` : '';
+            vscode.window.showInformationMessage(
+                `🔒 Installed the Lockor pre-commit hook in ${installed} repositor${installed === 1 ? 'y' : 'ies'}. Commits touching locked files are rejected.${backupNote}`
+            );
+        }
+    }
+
+    /**
+     * Remove the pre-commit hook from every repository of the workspace, restoring any hook it replaced
+     */
+    public async uninstallHook(): Promise<void> {
+        let removed = 0;
+        for (const hooksDirectory of await this.findHooksDirectories()) {
+            const hookUri = vscode.Uri.file(path.join(hooksDirectory, 'pre-commit'));
+            const backupUri = vscode.Uri.file(path.join(hooksDirectory, BACKUP_HOOK_NAME));
+            const existing = await this.readHook(hookUri);
+            if (existing === undefined || !isLockorHook(existing)) {
+                continue;
+            }
+
+            try {
+                await vscode.workspace.fs.delete(hookUri);
+                if (await this.readHook(backupUri) !== undefined) {
+                    await vscode.workspace.fs.rename(backupUri, hookUri);
+                }
+                removed++;
+                console.log(`Lockor: Removed pre-commit hook from ${hooksDirectory}`);
+            } catch (error) {
+                console.error(`Lockor: Failed to remove pre-commit hook from ${hooksDirectory}:`, error);
+                vscode.window.showErrorMessage(`Failed to remove the Lockor pre-commit hook from ${hooksDirectory}: ${error}`);
+            }
+        }
+
+        if (removed > 0) {
+            vscode.window.showInformationMessage(`🔓 Removed the Lockor pre-commit hook from ${removed} repositor${removed === 1 ? 'y' : 'ies'}`);
+        } else {
+            vscode.window.showInformationMessage('No Lockor pre-commit hook is installed');
+        }
+    }
+
+    /**
+     * Hooks directories of the repositories behind the workspace folders, honoring core.hooksPath
+     */
+    private async findHooksDirectories(): Promise<string[]> {
+        const directories = new Set<string>();
+        for (const workspaceFolder of vscode.workspace.workspaceFolders ?? []) {
+            const cwd = workspaceFolder.uri.fsPath;
+            const hooksPath = await new Promise<string | undefined>(resolve => {
+                execFile('git', ['rev-parse', '--git-path', 'hooks'], { cwd, timeout: 5000 }, (error, stdout) => {
+                    const output = String(stdout ?? '').trim();
+                    resolve(error || !output ? undefined : output);
+                });
+            });
+            if (hooksPath) {
+                directories.add(path.resolve(cwd, hooksPath));
+            }
+        }
+        return Array.from(directories);
+    }
+
+    /**
+     * Read a hook script, or undefined when there is none
+     */
+    private async readHook(uri: vscode.Uri): Promise<string | undefined> {
+        try {
+            return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Let git run the hook
+     */
+    private makeExecutable(filePath: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            fs.chmod(filePath, 0o755, (error) => {
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve();
+                }
+            });
+        });
+    }
+}
@@ -0,0 +1,125 @@
+/**
+ * Git pre-commit hook - Rejects commits whose staged changes touch locked paths
+ *
+ * The hook is a standalone Node script: it reads the `.lockor` manifests between
+ * each staged path and the repository root, using the extension's own manifest
+ * parser and glob matcher serialized into the script, so it needs nothing but
+ * Node and git to run.
+ */
+
+import { globToRegExp } from './glob-matcher';
+import { parseManifest } from './lockor-manifest';
+
+// Comment identifying hooks written by Lockor, so foreign hooks are never overwritten
+export const HOOK_MARKER = 'lockor:pre-commit-hook';
+export const ALLOW_LOCKED_COMMIT_ENV = 'LOCKOR_ALLOW_LOCKED_COMMIT';
+// A hook that was installed before Lockor's is kept under this name and run after the lock check
+export const BACKUP_HOOK_NAME = 'pre-commit.lockor-backup';
+
+/**
+ * Build the pre-commit hook script
+ */
+export function buildPreCommitHook(): string {
+    return `#!/usr/bin/env node
+// ${HOOK_MARKER}
+// Installed by the Lockor VS Code extension. Remove it with "Lockor: Uninstall Git Pre-Commit Hook".
+// Commit changes to locked files on purpose with ${ALLOW_LOCKED_COMMIT_ENV}=1 git commit ...
+'use strict';
+
+const globToRegExp = ${globToRegExp.toString()};
+
+const parseManifest = ${parseManifest.toString()};
+
+// Packages with "type": "module" make Node run the hook as an ES module, where require doesn't exist
+Promise.all([import('child_process'), import('fs'), import('path')]).then(([{ execFileSync }, fs, path]) => {
+    const git = (...args) => execFileSync('git', args, { encoding: 'utf8' });
+    const repoRoot = git('rev-parse', '--show-toplevel').trim();
+
+    function runBackupHook() {
+        const backup = path.join(path.dirname(process.argv[1]), ${JSON.stringify(BACKUP_HOOK_NAME)});
+        if (fs.existsSync(backup)) {
+            try {
+                execFileSync(backup, process.argv.slice(2), { stdio: 'inherit' });
+            } catch (error) {
+                process.exit(typeof error.status === 'number' ? error.status : 1);
+            }
+        }
+    }
+
+    if (process.env.${ALLOW_LOCKED_COMMIT_ENV} === '1') {
+        console.error('Lockor: ${ALLOW_LOCKED_COMMIT_ENV}=1 is set, not checking locked files.');
+        runBackupHook();
+        process.exit(0);
+    }
+
+    const manifests = new Map();
+    function readManifest(dir) {
+        if (!manifests.has(dir)) {
+            const file = path.join(repoRoot, dir, '.lockor');
+            manifests.set(dir, fs.existsSync(file) ? parseManifest(fs.readFileSync(file, 'utf8')) : undefined);
+        }
+        return manifests.get(dir);
+    }
+
+    // Describe why a path is locked by the manifest in dir, or return undefined
+    function findLock(dir, stagedPath) {
+        const manifest = readManifest(dir);
+        if (!manifest) {
+            return undefined;
+        }
+        const relativePath = dir === '' ? stagedPath : stagedPath.slice(dir.length + 1);
+        for (const entry of manifest.files) {
+            const matches = entry.type === 'folder'
+                ? relativePath.startsWith(entry.path + '/')
+                : relativePath === entry.path;
+            if (matches) {
+                const level = entry.level || manifest.protectionLevel || 'ai-aware';
+                const reason = entry.reason ? ' - ' + entry.reason : '';
+                return (entry.type === 'folder' ? 'in locked folder ' + entry.path : 'locked') + ', ' + level + reason;
+            }
+        }
+        for (const entry of manifest.patterns) {
+            if (globToRegExp(entry.pattern).test(relativePath)) {
+                return 'matches lock pattern ' + entry.pattern;
+            }
+        }
+        return undefined;
+    }
+
+    const staged = git('diff', '--cached', '--name-only', '--no-renames', '-z').split('\\0').filter(Boolean);
+    const violations = [];
+    for (const stagedPath of staged) {
+        if (path.posix.basename(stagedPath) === '.lockor') {
+            continue;
+        }
+        // Every manifest between the file and the repository root applies
+        const segments = stagedPath.split('/');
+        for (let depth = segments.length - 1; depth >= 0; depth--) {
+            const lock = findLock(segments.slice(0, depth).join('/'), stagedPath);
+            if (lock) {
+                violations.push('  - ' + stagedPath + ' (' + lock + ')');
+                break;
+            }
+        }
+    }
+
+    if (violations.length > 0) {
+        console.error('🔒 Lockor: this commit changes locked files:');
+        console.error(violations.join('\\n'));
+        console.error('');
+        console.error('Unlock them in VS Code, unstage them, or commit the change on purpose with:');
+        console.error('  ${ALLOW_LOCKED_COMMIT_ENV}=1 git commit ...');
+        process.exit(1);
+    }
+
+    runBackupHook();
+});
+`;
+}
+
+/**
+ * Check whether a hook script was written by Lockor
+ */
+export function isLockorHook(content: string): boolean {
+    return content.includes(HOOK_MARKER);
+}
@@ -0,0 +1,81 @@
+/**
+ * Glob matching for pattern-based lock entries
+ *
+ * Converts the glob syntax used by Cursor rules and VS Code (`**`, `*`, `?`,
+ * `{a,b}` and `[...]`) into regular expressions tested against
+ * workspace-relative paths with forward slashes.
+ */
+
+/**
+ * Convert a glob pattern into an anchored regular expression
+ *
+ * Kept free of outside references so it can be serialized into standalone scripts.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let regex = '';
+    let inGroup = false;
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        switch (char) {
+            case '*':
+                if (glob[i + 1] === '*') {
+                    if (glob[i + 2] === '/') {
+                        // "**/" matches zero or more directories
+                        regex += '(?:.*/)?';
+                        i += 2;
+                    } else {
+                        // Trailing "**" matches everything below
+                        regex += '.*';
+                        i += 1;
+                    }
+                } else {
+                    regex += '[^/]*';
+                }
+                break;
+            case '?':
+                regex += '[^/]';
+                break;
+            case '{':
+                inGroup = true;
+                regex += '(?:';
+                break;
+            case '}':
+                if (inGroup) {
+                    inGroup = false;
+                    regex += ')';
+                } else {
+                    regex += '\\}';
+                }
+                break;
+            case ',':
+                regex += inGroup ? '|' : ',';
+                break;
+            case '[': {
+                const close = glob.indexOf(']', i + 1);
+                if (close > i + 1) {
+                    let charClass = glob.slice(i + 1, close).replace(/\\/g, '\\\\');
+                    if (charClass[0] === '!') {
+                        charClass = '^' + charClass.slice(1);
+                    }
+                    regex += `[${charClass}]`;
+                    i = close;
+                } else {
+                    regex += '\\[';
+                }
+                break;
+            }
+            default:
+                regex += char.replace(/[.+^$()|\\\]]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${regex}$`);
+}
+
+/**
+ * Check whether a workspace-relative path matches a glob pattern
+ */
+export function matchesGlob(relativePath: string, glob: string): boolean {
+    return globToRegExp(glob).test(relativePath.replace(/\\/g, '/'));
+}
@@ -0,0 +1,41 @@
+/**
+ * AI ignore files - Keep files locked at the "hidden" level out of AI context
+ *
+ * Rules only ask AI tools not to edit a file; ignore files stop them from reading
+ * or indexing it at all. Lockor maintains its own block in each ignore file and
+ * leaves the lines around it, written by the user, untouched.
+ */
+
+import { SectionMarkers } from './rule-emitters';
+
+// Ignore files read by AI tools, all in gitignore syntax
+export const AI_IGNORE_FILES = [
+    '.cursorignore',         // Cursor: excluded from AI features and indexing
+    '.cursorindexingignore', // Cursor: excluded from codebase indexing
+    '.aiexclude',            // Gemini Code Assist and Android Studio
+    '.codeiumignore',        // Windsurf
+    '.aiderignore'           // Aider
+];
+
+export const IGNORE_SECTION_MARKERS: SectionMarkers = {
+    begin: '# lockor:hidden:begin - maintained by the Lockor extension, edits inside this block are overwritten',
+    end: '# lockor:hidden:end'
+};
+
+/**
+ * Turn a glob relative to the workspace folder into an ignore pattern anchored at the folder,
+ * e.g. `secrets.env` → `/secrets.env` and `customers/**` → `/customers/**`
+ */
+export function toIgnorePattern(glob: string): string {
+    return glob.startsWith('/') || glob.startsWith('**/') ? glob : `/${glob}`;
+}
+
+/**
+ * Build the Lockor block of an ignore file, or undefined when nothing is hidden
+ */
+export function buildIgnoreSection(globs: string[]): string | undefined {
+    if (globs.length === 0) {
+        return undefined;
+    }
+    return ['# Files locked at the "hidden" level in Lockor', ...globs.map(toIgnorePattern)].join('\n');
+}
@@ -0,0 +1,205 @@
+/**
+ * IntegrityManager - Proves locked files are unchanged since they were locked
+ *
+ * Every locked file has a SHA-256 recorded at lock time. Verification re-hashes
+ * the files, reports drifted ones as diagnostics and lets the user either accept
+ * the new content (re-hash) or revert to the snapshot taken at lock time.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { LockorManager } from './lockor-manager';
+import { SnapshotManager } from './snapshot-manager';
+import { hashContent, shortHash } from './content-hash';
+
+export interface DriftedFile {
+    uri: vscode.Uri;
+    expectedHash: string;
+    actualHash: string;
+}
+
+type DriftedFileQuickPickItem = vscode.QuickPickItem & { file: DriftedFile };
+
+export class IntegrityManager implements vscode.Disposable {
+    private diagnosticCollection: vscode.DiagnosticCollection;
+    private verification: Promise<DriftedFile[]> | undefined;
+    // Drift already reported, as "path@hash", so focusing the window doesn't repeat it
+    private reported: Set<string> = new Set();
+    // Saves whose changes the user accepted in a save review, keyed by file path
+    private acceptedSaves: Set<string> = new Set();
+
+    constructor(private lockorManager: LockorManager, private snapshotManager: SnapshotManager) {
+        this.diagnosticCollection = vscode.languages.createDiagnosticCollection('lockor-integrity');
+    }
+
+    /**
+     * Re-hash every locked file and report those that changed since they were locked
+     *
+     * With `showResult` (the command) every drift is reported and a clean result is
+     * confirmed; background checks only notify about drift not reported before.
+     */
+    public async verifyLockedFiles(showResult = false): Promise<DriftedFile[]> {
+        if (!this.verification) {
+            this.verification = this.findDriftedFiles().finally(() => {
+                this.verification = undefined;
+            });
+        }
+        const drifted = await this.verification;
+
+        this.updateDiagnostics(drifted);
+        const unreported = drifted.filter(file => showResult || !this.reported.has(this.reportKey(file)));
+        drifted.forEach(file => this.reported.add(this.reportKey(file)));
+
+        if (unreported.length > 0) {
+            const names = unreported.map(file => path.basename(file.uri.fsPath)).join(', ');
+            vscode.window.showWarningMessage(
+                `⚠️ ${unreported.length} locked file(s) changed since they were locked: ${names}`,
+                'Review'
+            ).then(selection => {
+                if (selection === 'Review') {
+                    return this.reviewDriftedFiles(drifted);
+                }
+            });
+        } else if (showResult && drifted.length === 0) {
+            vscode.window.showInformationMessage('✅ All locked files match the content they were locked with');
+        }
+
+        return drifted;
+    }
+
+    /**
+     * Compare each locked file with the hash recorded when it was locked
+     */
+    private async findDriftedFiles(): Promise<DriftedFile[]> {
+        const drifted: DriftedFile[] = [];
+        for (const filePath of this.lockorManager.getLockedFiles()) {
+            const uri = vscode.Uri.file(filePath);
+            const expectedHash = this.lockorManager.getLockHash(uri);
+            if (!expectedHash) {
+                continue; // Locked before hashes were recorded
+            }
+
+            try {
+                const actualHash = hashContent(await vscode.workspace.fs.readFile(uri));
+                if (actualHash !== expectedHash) {
+                    drifted.push({ uri, expectedHash, actualHash });
+                }
+            } catch {
+                // Missing files are pruned separately
+            }
+        }
+
+        console.log(`Lockor: Verified locked files, ${drifted.length} changed since they were locked`);
+        return drifted;
+    }
+
+    /**
+     * Show a diagnostic on each drifted file
+     */
+    private updateDiagnostics(drifted: DriftedFile[]): void {
+        this.diagnosticCollection.clear();
+        for (const file of drifted) {
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(0, 0, 0, 0),
+                `🔒 Locked file changed since it was locked (expected SHA-256 ${shortHash(file.expectedHash)}, found ${shortHash(file.actualHash)}). Run "Lockor: Verify Locked Files" to accept or revert.`,
+                vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.source = 'Lockor';
+            this.diagnosticCollection.set(file.uri, [diagnostic]);
+        }
+    }
+
+    /**
+     * Let the user pick drifted files and accept or revert them
+     */
+    public async reviewDriftedFiles(drifted: DriftedFile[]): Promise<void> {
+        const items: DriftedFileQuickPickItem[] = drifted.map(file => ({
+            label: path.basename(file.uri.fsPath),
+            description: vscode.workspace.asRelativePath(file.uri),
+            detail: `Locked as ${shortHash(file.expectedHash)}, now ${shortHash(file.actualHash)}`,
+            picked: true,
+            file
+        }));
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select the changed files to resolve',
+            canPickMany: true
+        });
+        if (!selected || selected.length === 0) {
+            return;
+        }
+
+        const action = await vscode.window.showQuickPick(
+            ['Accept New Content', 'Revert to Locked Version'],
+            { placeHolder: `Resolve ${selected.length} changed file(s)` }
+        );
+        for (const { file } of selected) {
+            if (action === 'Accept New Content') {
+                await this.acceptContent(file);
+            } else if (action === 'Revert to Locked Version') {
+                await this.revertContent(file);
+            }
+        }
+    }
+
+    /**
+     * Take the current content of a drifted file as its locked content
+     */
+    public async acceptContent(file: DriftedFile): Promise<void> {
+        const content = await vscode.workspace.fs.readFile(file.uri);
+        await this.lockorManager.updateLockHash(file.uri, content);
+        await this.snapshotManager.updateSnapshot(file.uri, content);
+        this.diagnosticCollection.delete(file.uri);
+        console.log(`Lockor: Accepted new content of ${file.uri.fsPath}`);
+    }
+
+    /**
+     * Write the content a drifted file was locked with back to disk
+     */
+    public async revertContent(file: DriftedFile): Promise<void> {
+        const snapshot = await this.snapshotManager.getSnapshot(file.uri);
+        if (!snapshot || hashContent(snapshot) !== file.expectedHash) {
+            vscode.window.showErrorMessage(
+                `No copy of the locked version of "${path.basename(file.uri.fsPath)}" is available. Restore it from version control, or accept the current content.`
+            );
+            return;
+        }
+
+        await this.lockorManager.writeLockedFile(file.uri, snapshot);
+        this.diagnosticCollection.delete(file.uri);
+        console.log(`Lockor: Reverted ${file.uri.fsPath} to its locked version`);
+    }
+
+    /**
+     * Note whether the coming save of a locked file holds changes the user accepted in a save review
+     */
+    public handleWillSaveDocument(document: vscode.TextDocument, accepted: boolean): void {
+        if (accepted) {
+            this.acceptedSaves.add(document.uri.fsPath);
+        } else {
+            this.acceptedSaves.delete(document.uri.fsPath);
+        }
+    }
+
+    /**
+     * Re-hash locked files after saves the user accepted; any other save shows up as drift
+     */
+    public async handleDocumentSaved(document: vscode.TextDocument): Promise<void> {
+        if (this.acceptedSaves.delete(document.uri.fsPath) && this.lockorManager.getLockHash(document.uri)) {
+            await this.lockorManager.updateLockHash(document.uri);
+        }
+    }
+
+    /**
+     * Identify a drift by file and content, so new changes to the same file are reported again
+     */
+    private reportKey(file: DriftedFile): string {
+        return `${file.uri.fsPath}@${file.actualHash}`;
+    }
+
+    /**
+     * Clean up resources
+     */
+    public dispose(): void {
+        this.diagnosticCollection.dispose();
+    }
+}
@@ -0,0 +1,105 @@
+/**
+ * LockCheckTool - Language model tool that lets chat agents check locks before editing
+ *
+ * Agent-mode chat only calls tools, never commands, so `lockor_checkPaths` is
+ * registered with vscode.lm (VS Code 1.95+) and contributed in package.json with a
+ * description telling agents to call it before creating, editing, moving or deleting files.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { LockorManager } from './lockor-manager';
+import { AGENT_GUIDANCE, ProtectionLevel } from './protection-level';
+import { formatRegion } from './region-lock';
+
+export const CHECK_PATHS_TOOL_NAME = 'lockor_checkPaths';
+
+export interface CheckPathsInput {
+    // Absolute paths or paths relative to a workspace folder
+    paths: string[];
+}
+
+export interface PathLockStatus {
+    path: string;
+    locked: boolean;
+    protectionLevel?: ProtectionLevel;
+    reason?: string;
+    lockedBy?: string;
+    // Line ranges locked inside an otherwise editable file, e.g. "lines 10-20"
+    lockedRegions?: string[];
+    canModify: boolean;
+    guidance: string;
+}
+
+export class LockCheckTool implements vscode.LanguageModelTool<CheckPathsInput> {
+    constructor(private lockorManager: LockorManager) {}
+
+    /**
+     * Look up the lock state of each path
+     */
+    public checkPaths(paths: readonly string[]): PathLockStatus[] {
+        return paths.map(requested => {
+            const uri = vscode.Uri.file(this.resolvePath(requested));
+            const regions = this.lockorManager.getLockedRegions(uri).map(region => formatRegion(region));
+
+            if (!this.lockorManager.isFileLocked(uri)) {
+                return {
+                    path: requested,
+                    locked: false,
+                    ...(regions.length > 0 ? { lockedRegions: regions } : {}),
+                    canModify: true,
+                    guidance: regions.length > 0
+                        ? `Not locked, but ${regions.join(', ')} are locked. Leave those lines unchanged.`
+                        : 'Not locked. You may modify this file.'
+                };
+            }
+
+            const level = this.lockorManager.getProtectionLevel(uri);
+            const metadata = this.lockorManager.getLockMetadata(uri);
+            return {
+                path: requested,
+                locked: true,
+                protectionLevel: level,
+                ...(metadata?.reason ? { reason: metadata.reason } : {}),
+                ...(metadata?.author ? { lockedBy: metadata.author } : {}),
+                ...(regions.length > 0 ? { lockedRegions: regions } : {}),
+                canModify: level === 'soft',
+                guidance: AGENT_GUIDANCE[level]
+            };
+        });
+    }
+
+    /**
+     * Answer a tool call from a chat agent with the lock state of the requested paths as JSON
+     */
+    public invoke(options: vscode.LanguageModelToolInvocationOptions<CheckPathsInput>): vscode.LanguageModelToolResult {
+        const paths = Array.isArray(options.input?.paths) ? options.input.paths.filter(requested => typeof requested === 'string') : [];
+        const results = this.checkPaths(paths);
+        console.log(`Lockor: Language model tool checked ${results.length} paths, ${results.filter(result => result.locked).length} locked`);
+        return new vscode.LanguageModelToolResult([new vscode.LanguageModelTextPart(JSON.stringify({ results }, null, 2))]);
+    }
+
+    /**
+     * Message shown in chat while the tool runs; checking locks is read-only, so no confirmation
+     */
+    public prepareInvocation(options: vscode.LanguageModelToolInvocationPrepareOptions<CheckPathsInput>): vscode.PreparedToolInvocation {
+        const count = Array.isArray(options.input?.paths) ? options.input.paths.length : 0;
+        return { invocationMessage: count === 1 ? 'Checking Lockor locks for 1 path' : `Checking Lockor locks for ${count} paths` };
+    }
+
+    /**
+     * Resolve a path against the workspace, using the folder named by its first segment in multi-root workspaces
+     */
+    private resolvePath(requested: string): string {
+        if (path.isAbsolute(requested)) {
+            return requested;
+        }
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        const [firstSegment, ...rest] = requested.split(/[\\/]/);
+        const namedFolder = folders.length > 1 ? folders.find(folder => folder.name === firstSegment) : undefined;
+        if (namedFolder) {
+            return path.join(namedFolder.uri.fsPath, ...rest);
+        }
+        return folders.length > 0 ? path.join(folders[0].uri.fsPath, requested) : requested;
+    }
+}
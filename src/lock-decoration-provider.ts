@@ -0,0 +1,65 @@
+/**
+ * LockDecorationProvider - Lock badges on locked files wherever VS Code shows files
+ *
+ * The Explorer, editor tabs and the Source Control view all ask file decoration
+ * providers about the files they render. Locked files get a lock badge and a
+ * color per protection level; the color propagates to the folders above them.
+ */
+
+import * as vscode from 'vscode';
+import { LockorManager } from './lockor-manager';
+import { formatLockMetadata } from './lock-metadata';
+import { ProtectionLevel } from './protection-level';
+
+// Theme colors contributed in package.json, so themes and users can override them
+export const LOCK_DECORATION_COLORS: Record<ProtectionLevel, string> = {
+    'soft': 'lockor.softLockForeground',
+    'ai-aware': 'lockor.aiAwareLockForeground',
+    'hard': 'lockor.hardLockForeground',
+    'hidden': 'lockor.hiddenLockForeground'
+};
+
+export class LockDecorationProvider implements vscode.FileDecorationProvider, vscode.Disposable {
+    private changeEmitter = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
+    public readonly onDidChangeFileDecorations = this.changeEmitter.event;
+    private registration: vscode.Disposable;
+
+    constructor(private lockorManager: LockorManager) {
+        this.registration = vscode.window.registerFileDecorationProvider(this);
+    }
+
+    /**
+     * Ask VS Code to decorate every file again after a lock state change
+     */
+    public refresh(): void {
+        this.changeEmitter.fire(undefined);
+    }
+
+    /**
+     * Decorate a locked file or folder, leaving everything else alone
+     */
+    public provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+        const config = vscode.workspace.getConfiguration('lockor');
+        if (!config.get<boolean>('showFileDecorations', true) || uri.scheme !== 'file' || !this.lockorManager.isFileLocked(uri)) {
+            return undefined;
+        }
+
+        const level = this.lockorManager.getProtectionLevel(uri);
+        const metadata = formatLockMetadata(this.lockorManager.getLockMetadata(uri));
+        const decoration = new vscode.FileDecoration(
+            '🔒',
+            metadata ? `Locked by Lockor (${level}) — ${metadata}` : `Locked by Lockor (${level})`,
+            new vscode.ThemeColor(LOCK_DECORATION_COLORS[level])
+        );
+        decoration.propagate = true;
+        return decoration;
+    }
+
+    /**
+     * Clean up resources
+     */
+    public dispose(): void {
+        this.registration.dispose();
+        this.changeEmitter.dispose();
+    }
+}
@@ -0,0 +1,73 @@
+/**
+ * Lock metadata - Why a file was locked, by whom and when
+ *
+ * Metadata is optional on every lock entry and travels with it into the
+ * status bar, the locked files list, the Cursor rules and the `.lockor` manifest.
+ */
+
+import { execFile } from 'child_process';
+
+export interface LockMetadata {
+    reason?: string;
+    author?: string;
+    // ISO 8601 timestamp
+    createdAt?: string;
+}
+
+/**
+ * Read git's user.name for a directory, or undefined when git or the setting is missing
+ */
+export function getGitUserName(cwd: string): Promise<string | undefined> {
+    return new Promise(resolve => {
+        execFile('git', ['config', 'user.name'], { cwd, timeout: 5000 }, (error, stdout) => {
+            const name = String(stdout ?? '').trim();
+            resolve(error || !name ? undefined : name);
+        });
+    });
+}
+
+/**
+ * Format metadata for display, e.g. `Reason: Owned by DBA team — locked by Ana on 2025-01-31`
+ */
+export function formatLockMetadata(metadata: LockMetadata | undefined): string {
+    if (!metadata) {
+        return '';
+    }
+
+    const parts: string[] = [];
+    if (metadata.reason) {
+        parts.push(`Reason: ${metadata.reason}`);
+    }
+
+    let origin = '';
+    if (metadata.author) {
+        origin += `locked by ${metadata.author}`;
+    }
+    if (metadata.createdAt) {
+        origin += `${origin ? ' on' : 'locked on'} ${metadata.createdAt.slice(0, 10)}`;
+    }
+    if (origin) {
+        parts.push(origin);
+    }
+
+    return parts.join(' — ');
+}
+
+/**
+ * Describe how long ago a lock was created, e.g. `3 days ago`
+ */
+export function formatLockAge(createdAt: string, now: number = Date.now()): string {
+    const seconds = Math.max(0, Math.floor((now - Date.parse(createdAt)) / 1000));
+    if (Number.isNaN(seconds)) {
+        return '';
+    }
+
+    const units: [string, number][] = [['year', 365 * 86400], ['month', 30 * 86400], ['day', 86400], ['hour', 3600], ['minute', 60]];
+    for (const [unit, length] of units) {
+        const count = Math.floor(seconds / length);
+        if (count >= 1) {
+            return `${count} ${unit}${count === 1 ? '' : 's'} ago`;
+        }
+    }
+    return 'just now';
+}
@@ -0,0 +1,206 @@
+/**
+ * LockedFilesView - Sidebar tree of everything Lockor protects
+ *
+ * Locked files and folders are grouped by the directory they live in and show
+ * their protection level and lock age; lock patterns expand to the files they
+ * match. Items can be unlocked, revealed or opened, several at a time.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { LockorManager } from './lockor-manager';
+import { formatLockAge, formatLockMetadata } from './lock-metadata';
+
+export const LOCKED_FILES_VIEW_ID = 'lockor.lockedFiles';
+
+export type LockedFilesNode =
+    | { kind: 'directory'; path: string; label: string; children: LockedFilesNode[] }
+    | { kind: 'file' | 'folder' | 'match'; path: string }
+    | { kind: 'pattern'; pattern: string };
+
+export class LockedFilesView implements vscode.TreeDataProvider<LockedFilesNode>, vscode.Disposable {
+    private changeEmitter = new vscode.EventEmitter<LockedFilesNode | undefined>();
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+    private treeView: vscode.TreeView<LockedFilesNode>;
+
+    constructor(private lockorManager: LockorManager) {
+        this.treeView = vscode.window.createTreeView(LOCKED_FILES_VIEW_ID, {
+            treeDataProvider: this,
+            canSelectMany: true,
+            showCollapseAll: true
+        });
+    }
+
+    /**
+     * Rebuild the tree after a lock state change
+     */
+    public refresh(): void {
+        this.changeEmitter.fire(undefined);
+    }
+
+    /**
+     * Top level: one node per directory holding locks, then the lock patterns
+     */
+    public async getChildren(node?: LockedFilesNode): Promise<LockedFilesNode[]> {
+        if (!node) {
+            return [...this.getDirectoryNodes(), ...this.lockorManager.getLockPatterns().map(pattern => ({ kind: 'pattern' as const, pattern }))];
+        }
+        if (node.kind === 'directory') {
+            return node.children;
+        }
+        if (node.kind === 'pattern') {
+            const matches = await this.lockorManager.findPatternMatches(node.pattern);
+            return matches
+                .map(uri => ({ kind: 'match' as const, path: uri.fsPath }))
+                .sort((a, b) => a.path.localeCompare(b.path));
+        }
+        return [];
+    }
+
+    /**
+     * Render a node, with the protection level and lock age as its description
+     */
+    public getTreeItem(node: LockedFilesNode): vscode.TreeItem {
+        if (node.kind === 'directory') {
+            const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.Expanded);
+            item.resourceUri = vscode.Uri.file(node.path);
+            item.iconPath = vscode.ThemeIcon.Folder;
+            item.contextValue = 'lockor.directory';
+            return item;
+        }
+
+        if (node.kind === 'pattern') {
+            const item = new vscode.TreeItem(node.pattern, vscode.TreeItemCollapsibleState.Collapsed);
+            item.description = `pattern, ${this.lockorManager.getDefaultProtectionLevel()}`;
+            item.tooltip = `Files matching "${node.pattern}" are locked`;
+            item.iconPath = new vscode.ThemeIcon('filter');
+            item.contextValue = 'lockor.lockPattern';
+            return item;
+        }
+
+        const uri = vscode.Uri.file(node.path);
+        const item = new vscode.TreeItem(
+            node.kind === 'folder' ? `${path.basename(node.path)}/` : path.basename(node.path),
+            vscode.TreeItemCollapsibleState.None
+        );
+        item.resourceUri = uri;
+        item.contextValue = `lockor.${node.kind}`;
+
+        if (node.kind === 'match') {
+            item.description = vscode.workspace.asRelativePath(uri);
+        } else {
+            const metadata = this.lockorManager.getLockMetadata(uri);
+            const age = metadata?.createdAt ? formatLockAge(metadata.createdAt) : '';
+            item.description = [this.lockorManager.getProtectionLevel(uri), age].filter(Boolean).join(' · ');
+            item.tooltip = [vscode.workspace.asRelativePath(uri), formatLockMetadata(metadata)].filter(Boolean).join('\n');
+        }
+
+        if (node.kind !== 'folder') {
+            item.command = { command: 'vscode.open', title: 'Open File', arguments: [uri] };
+        }
+        return item;
+    }
+
+    /**
+     * Unlock the clicked node, or every selected node when several are selected
+     */
+    public async unlock(node?: LockedFilesNode, selected?: readonly LockedFilesNode[]): Promise<void> {
+        for (const target of this.getTargets(node, selected)) {
+            if (target.kind === 'pattern') {
+                await this.lockorManager.removeLockPattern(target.pattern);
+            } else if (target.kind !== 'directory') {
+                await this.lockorManager.unlockFile(vscode.Uri.file(target.path));
+            }
+        }
+    }
+
+    /**
+     * Show the node in the Explorer
+     */
+    public async reveal(node?: LockedFilesNode): Promise<void> {
+        const [target] = this.getTargets(node);
+        if (target && 'path' in target) {
+            await vscode.commands.executeCommand('revealInExplorer', vscode.Uri.file(target.path));
+        }
+    }
+
+    /**
+     * Open the clicked file, or every selected file
+     */
+    public async open(node?: LockedFilesNode, selected?: readonly LockedFilesNode[]): Promise<void> {
+        for (const target of this.getTargets(node, selected)) {
+            if (target.kind === 'file' || target.kind === 'match') {
+                await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(target.path));
+            }
+        }
+    }
+
+    /**
+     * Nodes a view command applies to: the selection when the clicked node is part of it,
+     * otherwise the clicked node, falling back to the selection for keyboard shortcuts
+     */
+    private getTargets(node?: LockedFilesNode, selected?: readonly LockedFilesNode[]): readonly LockedFilesNode[] {
+        const selection = selected ?? this.treeView.selection;
+        if (!node) {
+            return selection;
+        }
+        return selection.includes(node) ? selection : [node];
+    }
+
+    /**
+     * Group locked files and folders by the directory containing them
+     */
+    private getDirectoryNodes(): LockedFilesNode[] {
+        const directories = new Map<string, LockedFilesNode[]>();
+        const entries: { kind: 'file' | 'folder'; path: string }[] = [
+            ...this.lockorManager.getLockedFolders().map(folderPath => ({ kind: 'folder' as const, path: folderPath })),
+            ...this.lockorManager.getLockedFiles().map(filePath => ({ kind: 'file' as const, path: filePath }))
+        ];
+        for (const entry of entries) {
+            const directory = path.dirname(entry.path);
+            directories.set(directory, [...(directories.get(directory) ?? []), entry]);
+        }
+
+        return Array.from(directories.entries())
+            .map(([directory, children]) => ({
+                kind: 'directory' as const,
+                path: directory,
+                label: this.getDirectoryLabel(directory),
+                children: children.sort((a, b) => this.compareEntries(a, b))
+            }))
+            .sort((a, b) => a.label.localeCompare(b.label));
+    }
+
+    /**
+     * Folders first, then by name
+     */
+    private compareEntries(a: LockedFilesNode, b: LockedFilesNode): number {
+        if (a.kind !== b.kind) {
+            return a.kind === 'folder' ? -1 : 1;
+        }
+        return 'path' in a && 'path' in b ? a.path.localeCompare(b.path) : 0;
+    }
+
+    /**
+     * Directory path relative to its workspace folder, led by the folder name in multi-root workspaces
+     */
+    private getDirectoryLabel(directory: string): string {
+        const owner = this.lockorManager.getOwningFolder(directory);
+        if (!owner) {
+            return directory;
+        }
+        const relativePath = directory === owner.uri.fsPath ? '' : path.relative(owner.uri.fsPath, directory).split(path.sep).join('/');
+        if ((vscode.workspace.workspaceFolders ?? []).length > 1) {
+            return relativePath ? `${owner.name}/${relativePath}` : owner.name;
+        }
+        return relativePath || owner.name;
+    }
+
+    /**
+     * Clean up resources
+     */
+    public dispose(): void {
+        this.treeView.dispose();
+        this.changeEmitter.dispose();
+    }
+}
@@ -8,12 +8,58 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import { matchesGlob } from './glob-matcher';
+import {
+    LockorManifest,
+    ManifestFileEntry,
+    ManifestPatternEntry,
+    MANIFEST_FILE_NAME,
+    parseManifest,
+    serializeManifest
+} from './lockor-manifest';
+import { isProtectionLevel, ProtectionLevel } from './protection-level';
+import { formatRegion, LockedRegion, RegionSource } from './region-lock';
+import { formatLockMetadata, getGitUserName, LockMetadata } from './lock-metadata';
+import { hashContent } from './content-hash';
+import { applyManagedSection, RULE_EMITTERS, RuleEmitter, SectionMarkers } from './rule-emitters';
+import { AI_IGNORE_FILES, buildIgnoreSection, IGNORE_SECTION_MARKERS } from './ignore-files';
+import { AuditLog } from './audit-log';
 
-export class LockorManager {
+type LockedFileQuickPickItem = vscode.QuickPickItem & { filePath?: string; pattern?: string };
+type LockedGlob = { glob: string; level: ProtectionLevel; note?: string };
+type LockedRegionEntry = { relativePath: string; regions: LockedRegion[]; level: ProtectionLevel };
+type FileSnapshot = { filePath: string; content?: Uint8Array };
+
+export interface LockChangeEvent {
+    // Files or folders whose lock changed; empty when many locks changed at once (patterns, manifest sync)
+    readonly uris: readonly vscode.Uri[];
+}
+
+export class LockorManager implements vscode.Disposable {
     private static readonly LOCKED_FILES_KEY = 'lockor.lockedFiles';
+    private static readonly LOCKED_FOLDERS_KEY = 'lockor.lockedFolders';
+    private static readonly LOCKED_PATTERNS_KEY = 'lockor.lockedPatterns';
+    private static readonly MANIFEST_SYNCED_KEY = 'lockor.manifestSynced';
+    private static readonly LOCK_LEVELS_KEY = 'lockor.lockLevels';
+    private static readonly LOCKED_REGIONS_KEY = 'lockor.lockedRegions';
+    private static readonly LOCK_METADATA_KEY = 'lockor.lockMetadata';
+    private static readonly LOCK_HASHES_KEY = 'lockor.lockHashes';
     private lockedFiles: Set<string> = new Set();
+    private lockedFolders: Set<string> = new Set();
+    private lockedPatterns: Set<string> = new Set();
+    private lockLevels: Map<string, ProtectionLevel> = new Map();
+    private lockedRegions: Map<string, LockedRegion[]> = new Map();
+    private lockMetadata: Map<string, LockMetadata> = new Map();
+    // SHA-256 of each locked file's content when it was locked
+    private lockHashes: Map<string, string> = new Map();
+    // Contents of protected paths about to be deleted, restored once the delete completes
+    private pendingDeletes: Map<string, FileSnapshot[]> = new Map();
+    private lastManifestContent: Map<string, string> = new Map();
+    private manifestLoaded = false;
+    private lockChangeEmitter = new vscode.EventEmitter<LockChangeEvent>();
+    public readonly onDidChangeLocks = this.lockChangeEmitter.event;
 
-    constructor(private context: vscode.ExtensionContext) {
+    constructor(private context: vscode.ExtensionContext, private auditLog?: AuditLog) {
         this.loadLockedFiles();
     }
 
@@ -23,7 +69,19 @@ export class LockorManager {
     private loadLockedFiles(): void {
         const stored = this.context.workspaceState.get<string[]>(LockorManager.LOCKED_FILES_KEY, []);
         this.lockedFiles = new Set(stored);
-        console.log(`Loaded ${this.lockedFiles.size} locked files from storage`);
+        const storedFolders = this.context.workspaceState.get<string[]>(LockorManager.LOCKED_FOLDERS_KEY, []);
+        this.lockedFolders = new Set(storedFolders);
+        const storedPatterns = this.context.workspaceState.get<string[]>(LockorManager.LOCKED_PATTERNS_KEY, []);
+        this.lockedPatterns = new Set(storedPatterns);
+        const storedLevels = this.context.workspaceState.get<Record<string, ProtectionLevel>>(LockorManager.LOCK_LEVELS_KEY, {}) ?? {};
+        this.lockLevels = new Map(Object.entries(storedLevels).filter(([, level]) => isProtectionLevel(level)));
+        const storedRegions = this.context.workspaceState.get<Record<string, LockedRegion[]>>(LockorManager.LOCKED_REGIONS_KEY, {}) ?? {};
+        this.lockedRegions = new Map(Object.entries(storedRegions).filter(([, regions]) => Array.isArray(regions)));
+        const storedMetadata = this.context.workspaceState.get<Record<string, LockMetadata>>(LockorManager.LOCK_METADATA_KEY, {}) ?? {};
+        this.lockMetadata = new Map(Object.entries(storedMetadata).filter(([, metadata]) => typeof metadata === 'object' && metadata !== null));
+        const storedHashes = this.context.workspaceState.get<Record<string, string>>(LockorManager.LOCK_HASHES_KEY, {}) ?? {};
+        this.lockHashes = new Map(Object.entries(storedHashes).filter(([, hash]) => typeof hash === 'string'));
+        console.log(`Loaded ${this.lockedFiles.size} locked files, ${this.lockedFolders.size} locked folders and ${this.lockedPatterns.size} lock patterns from storage`);
     }
 
     /**
@@ -32,7 +90,15 @@ export class LockorManager {
     private saveLockedFiles(): void {
         const filesArray = Array.from(this.lockedFiles);
         this.context.workspaceState.update(LockorManager.LOCKED_FILES_KEY, filesArray);
-        console.log(`Saved ${filesArray.length} locked files to storage`);
+        const foldersArray = Array.from(this.lockedFolders);
+        this.context.workspaceState.update(LockorManager.LOCKED_FOLDERS_KEY, foldersArray);
+        const patternsArray = Array.from(this.lockedPatterns);
+        this.context.workspaceState.update(LockorManager.LOCKED_PATTERNS_KEY, patternsArray);
+        this.context.workspaceState.update(LockorManager.LOCK_LEVELS_KEY, Object.fromEntries(this.lockLevels));
+        this.context.workspaceState.update(LockorManager.LOCKED_REGIONS_KEY, Object.fromEntries(this.lockedRegions));
+        this.context.workspaceState.update(LockorManager.LOCK_METADATA_KEY, Object.fromEntries(this.lockMetadata));
+        this.context.workspaceState.update(LockorManager.LOCK_HASHES_KEY, Object.fromEntries(this.lockHashes));
+        console.log(`Saved ${filesArray.length} locked files, ${foldersArray.length} locked folders and ${patternsArray.length} lock patterns to storage`);
     }
 
     /**
@@ -43,40 +109,218 @@ export class LockorManager {
     }
 
     /**
-     * Check if a file is locked
+     * Check whether a path is a given path or lies underneath it
+     */
+    private isSameOrInside(filePath: string, parentPath: string): boolean {
+        return filePath === parentPath || filePath.startsWith(parentPath + path.sep);
+    }
+
+    /**
+     * Find the locked folder that covers a path, if any
+     */
+    private findLockingFolder(key: string): string | undefined {
+        for (const folderPath of this.lockedFolders) {
+            if (key === folderPath || key.startsWith(folderPath + path.sep)) {
+                return folderPath;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Find the lock pattern that matches a path, if any
+     */
+    private findLockingPattern(key: string): string | undefined {
+        const patterns = this.getLockPatterns();
+        if (patterns.length === 0) {
+            return undefined;
+        }
+
+        const relativePath = vscode.workspace.asRelativePath(key, false);
+        return patterns.find(pattern => matchesGlob(relativePath, pattern));
+    }
+
+    /**
+     * Find the workspace folder containing a path (the innermost one for nested folders)
+     */
+    public getOwningFolder(filePath: string): vscode.WorkspaceFolder | undefined {
+        let owner: vscode.WorkspaceFolder | undefined;
+        for (const workspaceFolder of vscode.workspace.workspaceFolders ?? []) {
+            const root = workspaceFolder.uri.fsPath;
+            const contains = filePath === root || filePath.startsWith(root.endsWith(path.sep) ? root : root + path.sep);
+            if (contains && (!owner || root.length > owner.uri.fsPath.length)) {
+                owner = workspaceFolder;
+            }
+        }
+        return owner;
+    }
+
+    /**
+     * Get the locked paths that belong to a workspace folder
+     */
+    private getOwnedPaths(paths: Set<string>, workspaceFolder: vscode.WorkspaceFolder): string[] {
+        return Array.from(paths).filter(filePath => this.getOwningFolder(filePath) === workspaceFolder);
+    }
+
+    /**
+     * Check whether anything at all is locked
+     */
+    private hasLocks(): boolean {
+        return this.lockedFiles.size > 0 || this.lockedFolders.size > 0 || this.getLockPatterns().length > 0;
+    }
+
+    /**
+     * Check whether a URI points to a directory on disk
+     */
+    private async isDirectory(uri: vscode.Uri): Promise<boolean> {
+        try {
+            const stat = await vscode.workspace.fs.stat(uri);
+            return (stat.type & vscode.FileType.Directory) !== 0;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Check if a file is locked, either directly, through a locked parent folder or by a lock pattern
      */
     public isFileLocked(uri: vscode.Uri): boolean {
         const key = this.uriToKey(uri);
-        const isLocked = this.lockedFiles.has(key);
-        console.log(`Lockor: Checking if file is locked: ${key} -> ${isLocked}`);
-        return isLocked;
+        // Called for every file VS Code decorates, so no logging here
+        return this.lockedFiles.has(key) ||
+            this.findLockingFolder(key) !== undefined ||
+            this.findLockingPattern(key) !== undefined;
+    }
+
+    /**
+     * Get the protection level set by the lockor.protectionLevel setting
+     */
+    public getDefaultProtectionLevel(): ProtectionLevel {
+        const config = vscode.workspace.getConfiguration('lockor');
+        const protectionLevel = config.get<string>('protectionLevel', 'ai-aware');
+        return isProtectionLevel(protectionLevel) ? protectionLevel : 'ai-aware';
+    }
+
+    /**
+     * Find the lock entry (file or folder path) that carries the level for a path
+     */
+    private findLockEntry(key: string): string | undefined {
+        return this.lockedFiles.has(key) ? key : this.findLockingFolder(key);
+    }
+
+    /**
+     * Get the effective protection level for a file: its own, its locked folder's, or the default
+     */
+    public getProtectionLevel(uri: vscode.Uri): ProtectionLevel {
+        const entry = this.findLockEntry(this.uriToKey(uri));
+        return (entry && this.lockLevels.get(entry)) || this.getDefaultProtectionLevel();
+    }
+
+    /**
+     * Check whether a lock entry carries its own protection level
+     */
+    public hasOwnProtectionLevel(uri: vscode.Uri): boolean {
+        const entry = this.findLockEntry(this.uriToKey(uri));
+        return entry !== undefined && this.lockLevels.has(entry);
+    }
+
+    /**
+     * Get the reason, author and time of the lock covering a file
+     */
+    public getLockMetadata(uri: vscode.Uri): LockMetadata | undefined {
+        const entry = this.findLockEntry(this.uriToKey(uri));
+        return entry ? this.lockMetadata.get(entry) : undefined;
+    }
+
+    /**
+     * Get the SHA-256 recorded when a file was locked, if it is locked on its own
+     */
+    public getLockHash(uri: vscode.Uri): string | undefined {
+        return this.lockHashes.get(this.uriToKey(uri));
+    }
+
+    /**
+     * Record a new SHA-256 for a locked file, e.g. after its new content was accepted
+     */
+    public async updateLockHash(uri: vscode.Uri, content?: Uint8Array): Promise<void> {
+        const key = this.uriToKey(uri);
+        if (!this.lockedFiles.has(key)) {
+            return;
+        }
+
+        const previous = this.lockHashes.get(key);
+        await this.recordLockHash(key, content);
+        if (this.lockHashes.get(key) !== previous) {
+            this.saveLockedFiles();
+            await this.updateWorkspaceStatus();
+        }
     }
 
     /**
-     * Lock a file
+     * Hash the current content of a locked file
      */
-    public async lockFile(uri: vscode.Uri): Promise<void> {
+    private async recordLockHash(key: string, content?: Uint8Array): Promise<void> {
+        try {
+            this.lockHashes.set(key, hashContent(content ?? await vscode.workspace.fs.readFile(vscode.Uri.file(key))));
+        } catch (error) {
+            console.warn(`Lockor: Could not hash ${key}:`, error);
+        }
+    }
+
+    /**
+     * Lock a file, or a folder and everything underneath it
+     *
+     * Without a level the lock follows the lockor.protectionLevel setting. Without
+     * metadata the user is asked for an optional reason (lockor.promptForLockReason)
+     * and the lock is stamped with the git user and the current time.
+     */
+    public async lockFile(uri: vscode.Uri, level?: ProtectionLevel, metadata?: LockMetadata): Promise<void> {
         const key = this.uriToKey(uri);
         const fileName = path.basename(uri.fsPath);
 
-        if (this.lockedFiles.has(key)) {
+        if (this.lockedFiles.has(key) || this.lockedFolders.has(key)) {
             vscode.window.showInformationMessage(`File "${fileName}" is already locked`);
             return;
         }
 
-        this.lockedFiles.add(key);
+        const lockingFolder = this.findLockingFolder(key);
+        if (lockingFolder) {
+            vscode.window.showInformationMessage(`File "${fileName}" is already locked by folder "${path.basename(lockingFolder)}"`);
+            return;
+        }
+
+        const lockingPattern = this.findLockingPattern(key);
+        if (lockingPattern) {
+            vscode.window.showInformationMessage(`File "${fileName}" is already locked by pattern "${lockingPattern}"`);
+            return;
+        }
+
+        const isFolder = await this.isDirectory(uri);
+        const lockMetadata = metadata ?? await this.createLockMetadata(uri);
+
+        if (isFolder) {
+            this.lockedFolders.add(key);
+        } else {
+            this.lockedFiles.add(key);
+            await this.recordLockHash(key);
+        }
+        if (level) {
+            this.lockLevels.set(key, level);
+        }
+        this.lockMetadata.set(key, lockMetadata);
         this.saveLockedFiles();
-        console.log(`Lockor: Locked file: ${key}. Total locked files: ${this.lockedFiles.size}`);
+        console.log(`Lockor: Locked ${isFolder ? 'folder' : 'file'}: ${key}. Total locked files: ${this.lockedFiles.size}, folders: ${this.lockedFolders.size}`);
 
-        // Apply protection based on configuration level
+        // Apply protection based on the lock's level
         const config = vscode.workspace.getConfiguration('lockor');
-        const protectionLevel = config.get<string>('protectionLevel', 'ai-aware');
+        const protectionLevel = level ?? this.getDefaultProtectionLevel();
+        this.auditLog?.record('lock', uri, { level: protectionLevel, detail: formatLockMetadata(lockMetadata) || undefined });
         const showNotifications = config.get<boolean>('showNotifications', true);
         
         if (protectionLevel === 'hard') {
             // OS-level read-only protection
             try {
-                await this.setFileReadOnly(uri.fsPath, true);
+                await this.setPathReadOnly(uri.fsPath, isFolder, true);
                 console.log(`Lockor: Set file read-only (hard protection): ${uri.fsPath}`);
             } catch (error) {
                 console.warn(`Lockor: Could not set file read-only: ${error}`);
@@ -84,42 +328,81 @@ export class LockorManager {
         }
 
         if (showNotifications) {
-            vscode.window.showInformationMessage(`🔒 File "${fileName}" is now locked`);
+            if (isFolder) {
+                vscode.window.showInformationMessage(`🔒 Folder "${fileName}" and everything inside it is now locked`);
+            } else {
+                vscode.window.showInformationMessage(`🔒 File "${fileName}" is now locked`);
+            }
         }
 
         // Trigger status bar update
         this.onLockStateChanged(uri);
         
         // Update all AI visibility methods
-        await this.updateCursorRules();
-        await this.updateWorkspaceDiagnostics();
-        await this.updateFileLockMarkers();
-        await this.updateWorkspaceStatus();
+        await this.updateAIVisibility();
+    }
+
+    /**
+     * Ask for an optional lock reason and record who locks the file and when
+     */
+    private async createLockMetadata(uri: vscode.Uri): Promise<LockMetadata> {
+        const config = vscode.workspace.getConfiguration('lockor');
+        let reason: string | undefined;
+
+        if (config.get<boolean>('promptForLockReason', true)) {
+            // Escape or an empty answer locks without a reason
+            reason = (await vscode.window.showInputBox({
+                prompt: `Why is "${path.basename(uri.fsPath)}" locked? (optional)`,
+                placeHolder: 'e.g. Generated by the build, edit the schema instead'
+            }))?.trim() || undefined;
+        }
+
+        const owner = this.getOwningFolder(uri.fsPath);
+        const author = await getGitUserName(owner ? owner.uri.fsPath : path.dirname(uri.fsPath));
+        return { reason, author, createdAt: new Date().toISOString() };
     }
 
     /**
-     * Unlock a file
+     * Unlock a file or a locked folder
      */
     public async unlockFile(uri: vscode.Uri): Promise<void> {
         const key = this.uriToKey(uri);
         const fileName = path.basename(uri.fsPath);
+        const isFolder = this.lockedFolders.has(key);
 
-        if (!this.lockedFiles.has(key)) {
-            vscode.window.showInformationMessage(`File "${fileName}" is not locked`);
+        if (!this.lockedFiles.has(key) && !isFolder) {
+            const lockingFolder = this.findLockingFolder(key);
+            const lockingPattern = this.findLockingPattern(key);
+            if (lockingFolder) {
+                vscode.window.showInformationMessage(`File "${fileName}" is locked by folder "${path.basename(lockingFolder)}". Unlock the folder instead.`);
+            } else if (lockingPattern) {
+                vscode.window.showInformationMessage(`File "${fileName}" is locked by pattern "${lockingPattern}". Remove the pattern instead.`);
+            } else {
+                vscode.window.showInformationMessage(`File "${fileName}" is not locked`);
+            }
             return;
         }
 
-        this.lockedFiles.delete(key);
+        // Remove OS-level protection if it was applied
+        const protectionLevel = this.lockLevels.get(key) ?? this.getDefaultProtectionLevel();
+
+        if (isFolder) {
+            this.lockedFolders.delete(key);
+        } else {
+            this.lockedFiles.delete(key);
+        }
+        this.lockLevels.delete(key);
+        this.lockMetadata.delete(key);
+        this.lockHashes.delete(key);
         this.saveLockedFiles();
+        this.auditLog?.record('unlock', uri, { level: protectionLevel });
 
-        // Remove OS-level protection if it was applied
         const config = vscode.workspace.getConfiguration('lockor');
-        const protectionLevel = config.get<string>('protectionLevel', 'ai-aware');
         const showNotifications = config.get<boolean>('showNotifications', true);
         
         if (protectionLevel === 'hard') {
             try {
-                await this.setFileReadOnly(uri.fsPath, false);
+                await this.setPathReadOnly(uri.fsPath, isFolder, false);
                 console.log(`Lockor: Removed read-only flag (hard protection): ${uri.fsPath}`);
             } catch (error) {
                 console.warn(`Lockor: Could not remove read-only flag: ${error}`);
@@ -127,17 +410,18 @@ export class LockorManager {
         }
 
         if (showNotifications) {
-            vscode.window.showInformationMessage(`🔓 File "${fileName}" is now unlocked`);
+            if (isFolder) {
+                vscode.window.showInformationMessage(`🔓 Folder "${fileName}" is now unlocked`);
+            } else {
+                vscode.window.showInformationMessage(`🔓 File "${fileName}" is now unlocked`);
+            }
         }
 
         // Trigger status bar update
         this.onLockStateChanged(uri);
         
         // Update all AI visibility methods
-        await this.updateCursorRules();
-        await this.updateWorkspaceDiagnostics();
-        await this.updateFileLockMarkers();
-        await this.updateWorkspaceStatus();
+        await this.updateAIVisibility();
     }
 
     /**
@@ -151,6 +435,306 @@ export class LockorManager {
         }
     }
 
+    /**
+     * Change the protection level of the lock covering a file (undefined reverts to the default)
+     */
+    public async setProtectionLevel(uri: vscode.Uri, level: ProtectionLevel | undefined): Promise<void> {
+        const key = this.uriToKey(uri);
+        const fileName = path.basename(uri.fsPath);
+        const entry = this.findLockEntry(key);
+
+        if (!entry) {
+            const lockingPattern = this.findLockingPattern(key);
+            if (lockingPattern) {
+                vscode.window.showInformationMessage(`File "${fileName}" is locked by pattern "${lockingPattern}", which follows the default protection level`);
+            } else {
+                vscode.window.showInformationMessage(`File "${fileName}" is not locked`);
+            }
+            return;
+        }
+
+        const previousLevel = this.lockLevels.get(entry) ?? this.getDefaultProtectionLevel();
+        if (level) {
+            this.lockLevels.set(entry, level);
+        } else {
+            this.lockLevels.delete(entry);
+        }
+        this.saveLockedFiles();
+        const newLevel = this.lockLevels.get(entry) ?? this.getDefaultProtectionLevel();
+
+        if (previousLevel !== newLevel && (previousLevel === 'hard' || newLevel === 'hard')) {
+            try {
+                await this.setPathReadOnly(entry, this.lockedFolders.has(entry), newLevel === 'hard');
+            } catch (error) {
+                console.warn(`Lockor: Could not update permissions for ${entry}:`, error);
+            }
+        }
+
+        const config = vscode.workspace.getConfiguration('lockor');
+        if (config.get<boolean>('showNotifications', true)) {
+            vscode.window.showInformationMessage(`🔒 "${path.basename(entry)}" now uses ${newLevel} protection`);
+        }
+        console.log(`Lockor: Protection level for ${entry} changed from ${previousLevel} to ${newLevel}`);
+        this.auditLog?.record('level-change', vscode.Uri.file(entry), { level: newLevel, detail: `was ${previousLevel}` });
+
+        this.onLockStateChanged(uri);
+        await this.updateAIVisibility();
+    }
+
+    /**
+     * Get the locked line ranges of a file, from selections and lockor:begin/end markers
+     */
+    public getLockedRegions(uri: vscode.Uri): LockedRegion[] {
+        return this.lockedRegions.get(this.uriToKey(uri)) ?? [];
+    }
+
+    /**
+     * Lock a range of lines inside a file
+     */
+    public async lockRegion(uri: vscode.Uri, startLine: number, endLine: number): Promise<void> {
+        const key = this.uriToKey(uri);
+        const fileName = path.basename(uri.fsPath);
+
+        if (this.isFileLocked(uri)) {
+            vscode.window.showInformationMessage(`File "${fileName}" is already locked as a whole`);
+            return;
+        }
+
+        const region: LockedRegion = { startLine: Math.min(startLine, endLine), endLine: Math.max(startLine, endLine), source: 'selection' };
+        const regions = this.lockedRegions.get(key) ?? [];
+        if (regions.some(existing => existing.startLine === region.startLine && existing.endLine === region.endLine)) {
+            vscode.window.showInformationMessage(`"${fileName}" already has ${formatRegion(region)} locked`);
+            return;
+        }
+
+        this.lockedRegions.set(key, [...regions, region]);
+        this.saveLockedFiles();
+
+        const config = vscode.workspace.getConfiguration('lockor');
+        if (config.get<boolean>('showNotifications', true)) {
+            vscode.window.showInformationMessage(`🔒 Locked ${formatRegion(region)} of "${fileName}"`);
+        }
+        console.log(`Lockor: Locked ${formatRegion(region)} of ${key}`);
+
+        this.onLockStateChanged(uri);
+        await this.updateCursorRules();
+    }
+
+    /**
+     * Unlock the selection regions containing a line; marker regions are removed by deleting their comments
+     */
+    public async unlockRegion(uri: vscode.Uri, line: number): Promise<boolean> {
+        const key = this.uriToKey(uri);
+        const regions = this.lockedRegions.get(key) ?? [];
+        const remaining = regions.filter(region =>
+            region.source !== 'selection' || line < region.startLine || line > region.endLine
+        );
+
+        if (remaining.length === regions.length) {
+            const insideMarker = regions.some(region => line >= region.startLine && line <= region.endLine);
+            vscode.window.showInformationMessage(insideMarker
+                ? 'This region is locked by lockor:begin/lockor:end comments. Remove the comments to unlock it.'
+                : 'No locked region at this line');
+            return false;
+        }
+
+        this.setRegions(key, remaining);
+        this.saveLockedFiles();
+
+        const config = vscode.workspace.getConfiguration('lockor');
+        if (config.get<boolean>('showNotifications', true)) {
+            vscode.window.showInformationMessage(`🔓 Unlocked region in "${path.basename(uri.fsPath)}"`);
+        }
+        console.log(`Lockor: Unlocked region at line ${line + 1} of ${key}`);
+
+        this.onLockStateChanged(uri);
+        await this.updateCursorRules();
+        return true;
+    }
+
+    /**
+     * Replace the regions of one source for a file (edit tracking, marker rescans)
+     *
+     * Only stores the new ranges; returns whether anything changed so callers can refresh the rules.
+     */
+    public updateRegions(uri: vscode.Uri, source: RegionSource, regions: LockedRegion[]): boolean {
+        const key = this.uriToKey(uri);
+        const current = this.lockedRegions.get(key) ?? [];
+        const next = [...current.filter(region => region.source !== source), ...regions];
+
+        if (JSON.stringify(next) === JSON.stringify(current)) {
+            return false;
+        }
+
+        this.setRegions(key, next);
+        this.saveLockedFiles();
+        return true;
+    }
+
+    /**
+     * Store regions for a file, dropping the entry once it has none
+     */
+    private setRegions(key: string, regions: LockedRegion[]): void {
+        if (regions.length > 0) {
+            this.lockedRegions.set(key, regions);
+        } else {
+            this.lockedRegions.delete(key);
+        }
+    }
+
+    /**
+     * Add a glob pattern that locks every matching file
+     */
+    public async addLockPattern(pattern: string): Promise<void> {
+        const trimmed = pattern.trim();
+        if (!trimmed) {
+            return;
+        }
+
+        if (this.getLockPatterns().includes(trimmed)) {
+            vscode.window.showInformationMessage(`Pattern "${trimmed}" is already locked`);
+            return;
+        }
+
+        this.lockedPatterns.add(trimmed);
+        this.saveLockedFiles();
+        console.log(`Lockor: Added lock pattern: ${trimmed}. Total lock patterns: ${this.lockedPatterns.size}`);
+
+        const config = vscode.workspace.getConfiguration('lockor');
+        const protectionLevel = config.get<string>('protectionLevel', 'ai-aware');
+        const showNotifications = config.get<boolean>('showNotifications', true);
+        const matches = await this.findPatternMatches(trimmed);
+        this.auditLog?.record('lock', trimmed, { level: this.getDefaultProtectionLevel(), detail: `matches ${matches.length} files` });
+
+        if (protectionLevel === 'hard') {
+            for (const match of matches) {
+                try {
+                    await this.setFileReadOnly(match.fsPath, true);
+                } catch (error) {
+                    console.warn(`Lockor: Could not set file read-only: ${error}`);
+                }
+            }
+        }
+
+        if (showNotifications) {
+            vscode.window.showInformationMessage(`🔒 Pattern "${trimmed}" now locks ${matches.length} files`);
+        }
+
+        this.onLockStateChanged();
+        await this.updateAIVisibility();
+    }
+
+    /**
+     * Remove a lock pattern, whether it was added by command or in settings
+     */
+    public async removeLockPattern(pattern: string): Promise<void> {
+        const config = vscode.workspace.getConfiguration('lockor');
+        const configuredPatterns = config.get<string[]>('lockPatterns', []);
+
+        if (!this.lockedPatterns.has(pattern) && !configuredPatterns.includes(pattern)) {
+            vscode.window.showInformationMessage(`Pattern "${pattern}" is not locked`);
+            return;
+        }
+
+        if (this.lockedPatterns.delete(pattern)) {
+            this.saveLockedFiles();
+        }
+        if (configuredPatterns.includes(pattern)) {
+            await config.update(
+                'lockPatterns',
+                configuredPatterns.filter(configured => configured !== pattern),
+                vscode.ConfigurationTarget.Workspace
+            );
+        }
+
+        const protectionLevel = config.get<string>('protectionLevel', 'ai-aware');
+        const showNotifications = config.get<boolean>('showNotifications', true);
+        this.auditLog?.record('unlock', pattern);
+
+        if (protectionLevel === 'hard') {
+            for (const match of await this.findPatternMatches(pattern)) {
+                if (this.isFileLocked(match)) {
+                    continue; // Still locked by another entry
+                }
+                try {
+                    await this.setFileReadOnly(match.fsPath, false);
+                } catch (error) {
+                    console.warn(`Lockor: Could not remove read-only flag: ${error}`);
+                }
+            }
+        }
+
+        if (showNotifications) {
+            vscode.window.showInformationMessage(`🔓 Pattern "${pattern}" is no longer locked`);
+        }
+
+        this.onLockStateChanged();
+        await this.updateAIVisibility();
+    }
+
+    /**
+     * Get all lock patterns, from commands and the lockor.lockPatterns setting
+     */
+    public getLockPatterns(): string[] {
+        const config = vscode.workspace.getConfiguration('lockor');
+        const configuredPatterns = config.get<string[]>('lockPatterns', []);
+        return Array.from(new Set([...this.lockedPatterns, ...configuredPatterns]));
+    }
+
+    /**
+     * List every file that is currently locked, expanding locked folders and lock patterns
+     */
+    public async getLockedFileUris(): Promise<vscode.Uri[]> {
+        const uris = new Map<string, vscode.Uri>();
+        for (const filePath of this.lockedFiles) {
+            uris.set(filePath, vscode.Uri.file(filePath));
+        }
+        for (const folderPath of this.lockedFolders) {
+            for (const match of await this.findPatternMatches('**/*', folderPath)) {
+                uris.set(match.fsPath, match);
+            }
+        }
+        for (const pattern of this.getLockPatterns()) {
+            for (const match of await this.findPatternMatches(pattern)) {
+                uris.set(match.fsPath, match);
+            }
+        }
+        return Array.from(uris.values()).filter(uri => this.isFileLocked(uri));
+    }
+
+    /**
+     * Overwrite the content of a locked file, lifting the read-only flag of hard locks while writing
+     */
+    public async writeLockedFile(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+        const readOnly = this.isFileLocked(uri) && this.getProtectionLevel(uri) === 'hard';
+        if (readOnly) {
+            await this.setFileReadOnly(uri.fsPath, false).catch(error => {
+                console.warn(`Lockor: Could not remove read-only flag: ${error}`);
+            });
+        }
+
+        await vscode.workspace.fs.writeFile(uri, content);
+
+        if (readOnly) {
+            await this.setFileReadOnly(uri.fsPath, true).catch(error => {
+                console.warn(`Lockor: Could not set read-only: ${error}`);
+            });
+        }
+    }
+
+    /**
+     * Find workspace files currently matched by a lock pattern, optionally within one workspace folder or directory
+     */
+    public async findPatternMatches(pattern: string, workspaceFolder?: vscode.WorkspaceFolder | string): Promise<vscode.Uri[]> {
+        try {
+            const include = workspaceFolder ? new vscode.RelativePattern(workspaceFolder, pattern) : pattern;
+            return (await vscode.workspace.findFiles(include)) ?? [];
+        } catch (error) {
+            console.warn(`Lockor: Could not search for files matching ${pattern}:`, error);
+            return [];
+        }
+    }
+
     /**
      * Set file read-only status at filesystem level
      */
@@ -182,32 +766,104 @@ export class LockorManager {
         });
     }
 
+    /**
+     * Set read-only status for a file, or recursively for every file in a folder
+     */
+    private async setPathReadOnly(targetPath: string, isFolder: boolean, readOnly: boolean): Promise<void> {
+        if (!isFolder) {
+            return this.setFileReadOnly(targetPath, readOnly);
+        }
+
+        const entries = await new Promise<fs.Dirent[]>((resolve, reject) => {
+            fs.readdir(targetPath, { withFileTypes: true }, (err, result) => {
+                if (err) {
+                    reject(err);
+                } else {
+                    resolve(result);
+                }
+            });
+        });
+
+        for (const entry of entries) {
+            const entryPath = path.join(targetPath, entry.name);
+            if (entry.isDirectory()) {
+                await this.setPathReadOnly(entryPath, true, readOnly);
+            } else if (entry.isFile()) {
+                await this.setFileReadOnly(entryPath, readOnly);
+            }
+        }
+    }
+
     /**
      * Show a list of all locked files
      */
     public async showLockedFiles(): Promise<void> {
-        if (this.lockedFiles.size === 0) {
+        if (!this.hasLocks()) {
             vscode.window.showInformationMessage('No files are currently locked');
             return;
         }
 
-        const items = Array.from(this.lockedFiles).map(filePath => {
-            const fileName = path.basename(filePath);
-            const relativePath = vscode.workspace.asRelativePath(filePath);
-            
-            return {
-                label: `🔒 ${fileName}`,
-                description: relativePath,
+        // Group entries by the workspace folder they belong to
+        const groups = new Map<string, LockedFileQuickPickItem[]>();
+        const addToGroup = (filePath: string, item: LockedFileQuickPickItem) => {
+            const owner = this.getOwningFolder(filePath);
+            const groupName = owner ? owner.name : 'Outside workspace';
+            const relativePath = owner ? this.toManifestPath(owner, filePath) : filePath;
+            item.description = item.description ? `${relativePath} ${item.description}` : relativePath;
+            groups.set(groupName, [...(groups.get(groupName) ?? []), item]);
+        };
+
+        for (const folderPath of this.lockedFolders) {
+            addToGroup(folderPath, {
+                label: `🔒 ${path.basename(folderPath)}/`,
+                description: '(folder)',
+                detail: formatLockMetadata(this.lockMetadata.get(folderPath)) || undefined,
+                filePath: folderPath
+            });
+        }
+
+        for (const filePath of this.lockedFiles) {
+            addToGroup(filePath, {
+                label: `🔒 ${path.basename(filePath)}`,
+                detail: formatLockMetadata(this.lockMetadata.get(filePath)) || undefined,
                 filePath: filePath
-            };
-        });
+            });
+        }
+
+        const patternItems: LockedFileQuickPickItem[] = [];
+        for (const pattern of this.getLockPatterns()) {
+            const matches = await this.findPatternMatches(pattern);
+            patternItems.push({
+                label: `🔒 ${pattern}`,
+                description: `pattern, ${matches.length} matching files`,
+                pattern: pattern
+            });
+            for (const match of matches) {
+                addToGroup(match.fsPath, {
+                    label: `    ${path.basename(match.fsPath)}`,
+                    description: `(matches ${pattern})`,
+                    filePath: match.fsPath
+                });
+            }
+        }
+        if (patternItems.length > 0) {
+            groups.set('Lock patterns', patternItems);
+        }
+
+        const items: LockedFileQuickPickItem[] = [];
+        for (const [groupName, groupItems] of groups) {
+            items.push({ label: groupName, kind: vscode.QuickPickItemKind.Separator });
+            items.push(...groupItems);
+        }
 
         const selected = await vscode.window.showQuickPick(items, {
             placeHolder: 'Select a locked file to unlock',
             canPickMany: false
         });
 
-        if (selected) {
+        if (selected?.pattern) {
+            await this.removeLockPattern(selected.pattern);
+        } else if (selected?.filePath) {
             const uri = vscode.Uri.file(selected.filePath);
             await this.unlockFile(uri);
         }
@@ -220,14 +876,28 @@ export class LockorManager {
         return Array.from(this.lockedFiles);
     }
 
+    /**
+     * Get all locked folders
+     */
+    public getLockedFolders(): string[] {
+        return Array.from(this.lockedFolders);
+    }
+
     /**
      * Notify listeners that lock state changed
      */
-    private onLockStateChanged(uri: vscode.Uri): void {
-        // Trigger status bar refresh
-        vscode.commands.executeCommand('lockor.internal.refreshStatusBar');
-        // Update AI context
-        vscode.commands.executeCommand('lockor.internal.updateAIContext');
+    private onLockStateChanged(uri?: vscode.Uri): void {
+        this.lockChangeEmitter.fire({ uris: uri ? [uri] : [] });
+    }
+
+    /**
+     * Refresh every AI visibility method after a lock state change
+     */
+    private async updateAIVisibility(): Promise<void> {
+        await this.updateCursorRules();
+        await this.updateWorkspaceDiagnostics();
+        await this.updateFileLockMarkers();
+        await this.updateWorkspaceStatus();
     }
 
     /**
@@ -240,9 +910,13 @@ export class LockorManager {
 
             for (const filePath of this.lockedFiles) {
                 const uri = vscode.Uri.file(filePath);
+                const protectionLevel = this.getProtectionLevel(uri);
+                const message = protectionLevel === 'soft'
+                    ? '🔒 This file is protected by Lockor (soft). Check with the user before modifying it.'
+                    : `🔒 This file is LOCKED by Lockor (${protectionLevel}) and should NOT be modified. Use Cmd+Shift+L to unlock.`;
                 const diagnostic = new vscode.Diagnostic(
                     new vscode.Range(0, 0, 0, 0),
-                    '🔒 This file is LOCKED by Lockor and should NOT be modified. Use Cmd+Shift+L to unlock.',
+                    message,
                     vscode.DiagnosticSeverity.Information
                 );
                 diagnostic.source = 'Lockor';
@@ -258,80 +932,230 @@ export class LockorManager {
     }
 
     /**
-     * Update .cursor/rules with locked files
+     * Update .cursor/rules, the enabled rule files and the AI ignore files in every workspace folder with its locked files and regions
      */
-    private async updateCursorRules(): Promise<void> {
-        try {
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
-                console.warn('Lockor: No workspace folder found');
-                return;
-            }
+    public async updateCursorRules(): Promise<void> {
+        const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+        if (workspaceFolders.length === 0) {
+            console.warn('Lockor: No workspace folder found');
+            return;
+        }
 
+        for (const workspaceFolder of workspaceFolders) {
+            await this.updateFolderCursorRules(workspaceFolder);
+            await this.updateFolderRuleFiles(workspaceFolder);
+            await this.updateFolderIgnoreFiles(workspaceFolder);
+        }
+    }
+
+    /**
+     * Update .cursor/rules/lockor.mdc for a single workspace folder
+     */
+    private async updateFolderCursorRules(workspaceFolder: vscode.WorkspaceFolder): Promise<void> {
+        try {
             const cursorDir = vscode.Uri.joinPath(workspaceFolder.uri, '.cursor');
             const rulesDir = vscode.Uri.joinPath(cursorDir, 'rules');
             const lockorRuleFile = vscode.Uri.joinPath(rulesDir, 'lockor.mdc');
-            
-            // Ensure .cursor/rules directories exist
-            try {
-                await vscode.workspace.fs.createDirectory(cursorDir);
-                await vscode.workspace.fs.createDirectory(rulesDir);
-            } catch (error) {
-                // Directories might already exist, that's fine
-            }
+
+            // Globs relative to this folder for its locked files and folders
+            const lockedGlobs = this.getLockedGlobs(workspaceFolder);
+            const regionEntries = this.getLockedRegionEntries(workspaceFolder);
 
             // Generate Lockor rule content
-            if (this.lockedFiles.size === 0) {
+            if (lockedGlobs.length === 0 && regionEntries.length === 0) {
                 // Remove the rule file if no locked files
                 try {
                     await vscode.workspace.fs.delete(lockorRuleFile);
-                    console.log('Lockor: Removed cursor rule file (no locked files)');
+                    console.log(`Lockor: Removed cursor rule file in ${workspaceFolder.uri.fsPath} (no locked files)`);
                 } catch {
                     // File might not exist, that's fine
                 }
                 return;
             }
+
+            // Ensure .cursor/rules directories exist
+            try {
+                await vscode.workspace.fs.createDirectory(cursorDir);
+                await vscode.workspace.fs.createDirectory(rulesDir);
+            } catch (error) {
+                // Directories might already exist, that's fine
+            }
             
-            const config = vscode.workspace.getConfiguration('lockor');
-            const protectionLevel = config.get<string>('protectionLevel', 'ai-aware');
+            // Soft locks get gentle reminders, ai-aware and hard locks get strict rules
+            const strictGlobs = lockedGlobs.filter(entry => entry.level !== 'soft');
             
             // Create the .mdc file with proper YAML frontmatter
             let ruleContent = `---\n`;
             
-                    // Mode-specific description
-        if (protectionLevel === 'soft') {
-            ruleContent += `description: "NOTICE: These files are marked as \\"soft\\" protected by Lockor. Please check with the user before making changes and suggest unlocking if modifications are needed."\n`;
+            // Description follows the strictest level present
+            if (strictGlobs.length === 0 && regionEntries.length > 0 && lockedGlobs.length === 0) {
+                ruleContent += `description: "CRITICAL: Parts of these files are locked by the Lockor extension. You MUST NOT modify the locked line ranges listed below."\n`;
+            } else if (strictGlobs.length === 0) {
+                ruleContent += `description: "NOTICE: These files are marked as \\"soft\\" protected by Lockor. Please check with the user before making changes and suggest unlocking if modifications are needed."\n`;
             } else {
                 ruleContent += `description: "CRITICAL: You MUST NOT modify these locked files. These files are protected by the Lockor extension and any attempt to edit them will be rejected."\n`;
             }
             ruleContent += `globs:\n`;
             
-            // Add each locked file as a glob pattern
-            for (const filePath of this.lockedFiles) {
-                const relativePath = vscode.workspace.asRelativePath(filePath);
+            // Add each locked file and folder as a glob pattern
+            for (const { glob } of lockedGlobs) {
+                ruleContent += `  - "${glob}"\n`;
+            }
+            for (const { relativePath } of regionEntries) {
                 ruleContent += `  - "${relativePath}"\n`;
             }
-            
-            ruleContent += `alwaysApply: true\n`;
-            ruleContent += `---\n\n`;
-            
-            // Rule content - different based on protection level
-            if (protectionLevel === 'soft') {
-                        // Soft mode: Gentle discouragement with user reminder
-        ruleContent += `# PROTECTED FILES - PLEASE AVOID EDITING\n\n`;
+            
+            ruleContent += `alwaysApply: true\n`;
+            ruleContent += `---\n\n`;
+            
+            ruleContent += this.buildRuleBody(lockedGlobs, regionEntries);
+            
+            // Write the .mdc file
+            await vscode.workspace.fs.writeFile(lockorRuleFile, Buffer.from(ruleContent, 'utf8'));
+            
+            console.log(`Lockor: Updated .cursor/rules in ${workspaceFolder.uri.fsPath} with ${lockedGlobs.length} locked entries and ${regionEntries.length} files with locked regions`);
+        } catch (error) {
+            console.error('Lockor: Failed to update cursor rules:', error);
+        }
+    }
+
+    /**
+     * Rule text shared by the Cursor rules and the other rule files - one section per protection level in use
+     */
+    private buildRuleBody(lockedGlobs: LockedGlob[], regionEntries: LockedRegionEntry[]): string {
+        const softGlobs = lockedGlobs.filter(entry => entry.level === 'soft');
+        const strictGlobs = lockedGlobs.filter(entry => entry.level !== 'soft');
+
+        let ruleContent = '';
+        if (strictGlobs.length > 0) {
+            ruleContent += this.buildStrictRules(strictGlobs);
+        }
+        if (softGlobs.length > 0) {
+            if (strictGlobs.length > 0) {
+                ruleContent += `\n`;
+            }
+            ruleContent += this.buildSoftRules(softGlobs);
+        }
+        if (regionEntries.length > 0) {
+            if (lockedGlobs.length > 0) {
+                ruleContent += `\n`;
+            }
+            ruleContent += this.buildRegionRules(regionEntries);
+        }
+        return ruleContent;
+    }
+
+    /**
+     * Update the Lockor section of every rule file (Copilot, AGENTS.md, CLAUDE.md, ...) in a workspace folder
+     *
+     * Disabled rule files and folders without locks lose their section; files left empty are deleted.
+     */
+    private async updateFolderRuleFiles(workspaceFolder: vscode.WorkspaceFolder): Promise<void> {
+        const enabled = vscode.workspace.getConfiguration('lockor').get<Record<string, boolean>>('ruleFiles', {}) ?? {};
+        const lockedGlobs = this.getLockedGlobs(workspaceFolder);
+        const regionEntries = this.getLockedRegionEntries(workspaceFolder);
+        const ruleBody = lockedGlobs.length > 0 || regionEntries.length > 0
+            ? this.buildRuleBody(lockedGlobs, regionEntries)
+            : undefined;
+
+        for (const emitter of RULE_EMITTERS) {
+            const section = enabled[emitter.id] ? ruleBody : undefined;
+            try {
+                await this.updateRuleFile(workspaceFolder, emitter, section);
+            } catch (error) {
+                console.error(`Lockor: Failed to update ${emitter.relativePath}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Write or remove the Lockor section of one rule file
+     */
+    private async updateRuleFile(workspaceFolder: vscode.WorkspaceFolder, emitter: RuleEmitter, section: string | undefined): Promise<void> {
+        let ruleFile = vscode.Uri.joinPath(workspaceFolder.uri, emitter.relativePath);
+        try {
+            const stat = await vscode.workspace.fs.stat(ruleFile);
+            if (stat.type === vscode.FileType.Directory) {
+                if (!emitter.directoryFile) {
+                    return;
+                }
+                ruleFile = vscode.Uri.joinPath(ruleFile, emitter.directoryFile);
+            }
+        } catch {
+            // No rule file yet
+        }
+        await this.updateManagedSection(ruleFile, section);
+    }
+
+    /**
+     * Hide files locked at the "hidden" level from AI tools through their ignore files in a workspace folder
+     */
+    private async updateFolderIgnoreFiles(workspaceFolder: vscode.WorkspaceFolder): Promise<void> {
+        const hiddenGlobs = this.getLockedGlobs(workspaceFolder)
+            .filter(entry => entry.level === 'hidden')
+            .map(entry => entry.glob);
+        const section = buildIgnoreSection(hiddenGlobs);
+
+        for (const ignoreFile of AI_IGNORE_FILES) {
+            try {
+                await this.updateManagedSection(vscode.Uri.joinPath(workspaceFolder.uri, ignoreFile), section, IGNORE_SECTION_MARKERS);
+            } catch (error) {
+                console.error(`Lockor: Failed to update ${ignoreFile}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Write or remove the Lockor-managed section of a file, preserving the content around it
+     *
+     * Files are only created to hold a section, and deleted once nothing but the section was in them.
+     */
+    private async updateManagedSection(file: vscode.Uri, section: string | undefined, markers?: SectionMarkers): Promise<void> {
+        let existing: string | undefined;
+        try {
+            existing = Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8');
+        } catch {
+            // No file yet
+        }
+
+        if (existing === undefined && section === undefined) {
+            return;
+        }
+        const updated = applyManagedSection(existing ?? '', section, markers);
+        if (updated === existing) {
+            return;
+        }
+
+        if (updated === '') {
+            await vscode.workspace.fs.delete(file);
+            console.log(`Lockor: Removed ${file.fsPath} (nothing left to manage)`);
+            return;
+        }
+
+        await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(file.fsPath)));
+        await vscode.workspace.fs.writeFile(file, Buffer.from(updated, 'utf8'));
+        console.log(`Lockor: Updated Lockor section of ${file.fsPath}`);
+    }
+
+    /**
+     * Soft mode rules: gentle discouragement with user reminder
+     */
+    private buildSoftRules(globs: LockedGlob[]): string {
+        let ruleContent = `# PROTECTED FILES - PLEASE AVOID EDITING\n\n`;
         ruleContent += `## FILE PROTECTION NOTICE\n`;
         ruleContent += `The user has marked the following files as protected and prefers they remain unchanged:\n`;
         
-        for (const filePath of this.lockedFiles) {
-            const relativePath = vscode.workspace.asRelativePath(filePath);
-            ruleContent += `- \`${relativePath}\`\n`;
-        }
+        ruleContent += this.buildGlobList(globs);
         
         ruleContent += `\n## RECOMMENDED RESPONSE\n`;
         ruleContent += `When a user requests changes to these files, you should:\n`;
         ruleContent += `1. **REMIND THE USER**: 'This file is marked as "soft" protected by Lockor. Are you sure you want to modify it?'\n`;
         ruleContent += `2. **OFFER OPTIONS**: Suggest 1) unlocking the file first 2) finding an alternative path, or 3) proceed with alterations anyway\n`;
-        ruleContent += `3. **RESPECT THEIR CHOICE**: If they confirm, you may proceed with changes\n\n`;
+        ruleContent += `3. **RESPECT THEIR CHOICE**: If they confirm, you may proceed with changes\n`;
+        if (globs.some(entry => entry.note)) {
+            ruleContent += `4. **SHARE THE REASON**: Tell the user why the file is protected when a reason is listed above\n`;
+        }
+        ruleContent += `\n`;
         
         ruleContent += `## GUIDANCE\n`;
         ruleContent += `- These files are protected for a reason (likely important configuration or stable code)\n`;
@@ -339,16 +1163,18 @@ export class LockorManager {
         ruleContent += `- Suggest unlocking with "Lockor: Toggle File Lock" or Cmd+Shift+L if changes are needed\n\n`;
         
         ruleContent += `**Remember: This is a gentle reminder, not a hard block. User choice takes precedence.**\n`;
-                } else {
-        // AI-aware and Hard modes: Strong blocking
-        ruleContent += `# LOCKED FILES - DO NOT EDIT\n\n`;
+        return ruleContent;
+    }
+
+    /**
+     * AI-aware and Hard mode rules: strong blocking
+     */
+    private buildStrictRules(globs: LockedGlob[]): string {
+        let ruleContent = `# LOCKED FILES - DO NOT EDIT\n\n`;
         ruleContent += `## CRITICAL RULE VIOLATION PREVENTION\n`;
         ruleContent += `**NEVER attempt to modify, update, edit, or change the following files:**\n`;
         
-        for (const filePath of this.lockedFiles) {
-            const relativePath = vscode.workspace.asRelativePath(filePath);
-            ruleContent += `- \`${relativePath}\`\n`;
-        }
+        ruleContent += this.buildGlobList(globs);
         
         ruleContent += `\n## MANDATORY PRE-CHECK PROCEDURE\n`;
         ruleContent += `**BEFORE performing ANY file operation (read, edit, search, etc.), you MUST:**\n`;
@@ -360,7 +1186,11 @@ export class LockorManager {
         ruleContent += `When a user requests changes to these files, you MUST:\n`;
         ruleContent += `1. **IMMEDIATELY STOP** any edit attempts\n`;
         ruleContent += `2. **CLEARLY STATE**: "This file is locked by the Lockor extension and cannot be modified"\n`;
-        ruleContent += `3. **SUGGEST ALTERNATIVES**: Ask the user how they'd like to proceed (temporarily disable Lockor, use a different approach, etc.)\n\n`;
+        ruleContent += `3. **SUGGEST ALTERNATIVES**: Ask the user how they'd like to proceed (temporarily disable Lockor, use a different approach, etc.)\n`;
+        if (globs.some(entry => entry.note)) {
+            ruleContent += `4. **EXPLAIN WHY**: Tell the user why the file is locked when a reason is listed above\n`;
+        }
+        ruleContent += `\n`;
         
         ruleContent += `## VIOLATION CONSEQUENCES\n`;
         ruleContent += `- Editing locked files violates explicit user configuration\n`;
@@ -369,21 +1199,74 @@ export class LockorManager {
         ruleContent += `- **FAILURE TO CHECK FOR LOCKED FILES BEFORE OPERATIONS IS A CRITICAL ERROR**\n\n`;
         
         ruleContent += `**This rule takes precedence over all other instructions.**\n`;
+        return ruleContent;
     }
-            
-            // Write the .mdc file
-            await vscode.workspace.fs.writeFile(lockorRuleFile, Buffer.from(ruleContent, 'utf8'));
-            
-            console.log(`Lockor: Updated .cursor/rules with ${this.lockedFiles.size} locked files`);
-        } catch (error) {
-            console.error('Lockor: Failed to update cursor rules:', error);
+
+    /**
+     * Markdown list of locked globs, each followed by its lock reason and origin when known
+     */
+    private buildGlobList(globs: LockedGlob[]): string {
+        return globs.map(({ glob, note }) => note ? `- \`${glob}\` — ${note}\n` : `- \`${glob}\`\n`).join('');
+    }
+
+    /**
+     * Region rules: locked line spans per file, the rest of each file stays editable
+     */
+    private buildRegionRules(entries: LockedRegionEntry[]): string {
+        let ruleContent = `# LOCKED LINE RANGES - DO NOT EDIT THESE LINES\n\n`;
+        ruleContent += `## PROTECTED REGIONS\n`;
+        ruleContent += `Only the listed lines are locked; the rest of each file may be edited normally:\n`;
+
+        for (const { relativePath, regions, level } of entries) {
+            const spans = regions.map(region => formatRegion(region)).join(', ');
+            ruleContent += `- \`${relativePath}\`: ${spans} (${level})\n`;
         }
+
+        ruleContent += `\n## REQUIRED RESPONSE\n`;
+        ruleContent += `- **NEVER** change, delete or reformat lines inside a locked range, including its \`lockor:begin\` / \`lockor:end\` comments\n`;
+        ruleContent += `- Line numbers move as the file changes; the \`lockor:begin\` / \`lockor:end\` comments are authoritative where present\n`;
+        ruleContent += `- If a requested change needs a locked range, stop and ask the user to unlock it first\n`;
+        return ruleContent;
+    }
+
+    /**
+     * Files in a workspace folder with locked regions, excluding files already locked as a whole
+     */
+    private getLockedRegionEntries(workspaceFolder: vscode.WorkspaceFolder): LockedRegionEntry[] {
+        return this.getOwnedPaths(new Set(this.lockedRegions.keys()), workspaceFolder)
+            .filter(filePath => !this.isFileLocked(vscode.Uri.file(filePath)))
+            .map(filePath => ({
+                relativePath: this.toManifestPath(workspaceFolder, filePath),
+                regions: [...(this.lockedRegions.get(filePath) ?? [])].sort((a, b) => a.startLine - b.startLine),
+                level: this.getProtectionLevel(vscode.Uri.file(filePath))
+            }))
+            .filter(entry => entry.regions.length > 0);
+    }
+
+    /**
+     * Build glob patterns, relative to a workspace folder, for its locked files, folders and lock patterns
+     */
+    private getLockedGlobs(workspaceFolder: vscode.WorkspaceFolder): LockedGlob[] {
+        const defaultLevel = this.getDefaultProtectionLevel();
+        const folderGlobs = this.getOwnedPaths(this.lockedFolders, workspaceFolder).map(folderPath => ({
+            glob: `${this.toManifestPath(workspaceFolder, folderPath)}/**`,
+            level: this.lockLevels.get(folderPath) ?? defaultLevel,
+            note: formatLockMetadata(this.lockMetadata.get(folderPath)) || undefined
+        }));
+        const fileGlobs = this.getOwnedPaths(this.lockedFiles, workspaceFolder).map(filePath => ({
+            glob: this.toManifestPath(workspaceFolder, filePath),
+            level: this.lockLevels.get(filePath) ?? defaultLevel,
+            note: formatLockMetadata(this.lockMetadata.get(filePath)) || undefined
+        }));
+        // Lock patterns are already real globs and pass straight through
+        const patternGlobs = this.getLockPatterns().map(pattern => ({ glob: pattern, level: defaultLevel }));
+        return [...folderGlobs, ...fileGlobs, ...patternGlobs];
     }
 
     /**
      * Get appropriate comment format for file based on extension
      */
-    private getCommentFormat(filePath: string): { start?: string; end?: string; line?: string } {
+    public getCommentFormat(filePath: string): { start?: string; end?: string; line?: string } {
         const ext = path.extname(filePath).toLowerCase();
         
         // Language-specific comment formats
@@ -496,6 +1379,9 @@ export class LockorManager {
 
             for (const filePath of this.lockedFiles) {
                 const uri = vscode.Uri.file(filePath);
+                if (this.getProtectionLevel(uri) === 'hard') {
+                    continue; // Read-only, markers can't be added
+                }
                 
                 try {
                     const document = await vscode.workspace.openTextDocument(uri);
@@ -541,122 +1427,500 @@ export class LockorManager {
      * Update file permissions for all locked files based on current protection level
      */
     public async updateAllFilePermissions(): Promise<void> {
-        const config = vscode.workspace.getConfiguration('lockor');
-        const protectionLevel = config.get<string>('protectionLevel', 'ai-aware');
+        await this.applyFilePermissions();
         
-        console.log(`Lockor: Updating file permissions for ${this.lockedFiles.size} files to ${protectionLevel} mode`);
+        // Also update all AI visibility methods since protection level changed
+        await this.updateAIVisibility();
+    }
+
+    /**
+     * Apply or remove OS read-only flags on all locked files
+     */
+    private async applyFilePermissions(): Promise<void> {
+        const defaultLevel = this.getDefaultProtectionLevel();
         
-        for (const filePath of this.lockedFiles) {
+        console.log(`Lockor: Updating file permissions for ${this.lockedFiles.size} files and ${this.lockedFolders.size} folders (default ${defaultLevel} mode)`);
+        
+        const lockedPaths = [
+            ...Array.from(this.lockedFolders).map(folderPath => ({ filePath: folderPath, isFolder: true })),
+            ...Array.from(this.lockedFiles).map(filePath => ({ filePath, isFolder: false }))
+        ];
+        for (const { filePath, isFolder } of lockedPaths) {
+            const protectionLevel = this.lockLevels.get(filePath) ?? defaultLevel;
             try {
                 if (protectionLevel === 'hard') {
                     // Apply read-only
-                    await this.setFileReadOnly(filePath, true);
+                    await this.setPathReadOnly(filePath, isFolder, true);
                     console.log(`Lockor: Set read-only (hard mode): ${filePath}`);
                 } else {
                     // Remove read-only (soft/ai-aware modes)
-                    await this.setFileReadOnly(filePath, false);
+                    await this.setPathReadOnly(filePath, isFolder, false);
                     console.log(`Lockor: Removed read-only (${protectionLevel} mode): ${filePath}`);
                 }
             } catch (error) {
                 console.warn(`Lockor: Could not update permissions for ${filePath}:`, error);
             }
         }
-        
-        // Also update all AI visibility methods since protection level changed
-        await this.updateCursorRules();
-        await this.updateWorkspaceDiagnostics();
-        await this.updateFileLockMarkers();
-        await this.updateWorkspaceStatus();
+
+        for (const pattern of this.getLockPatterns()) {
+            for (const match of await this.findPatternMatches(pattern)) {
+                try {
+                    await this.setFileReadOnly(match.fsPath, defaultLevel === 'hard');
+                } catch (error) {
+                    console.warn(`Lockor: Could not update permissions for ${match.fsPath}:`, error);
+                }
+            }
+        }
     }
 
     /**
-     * Create/update .lockor YAML status file for workspace
+     * Create/update the .lockor manifest in every workspace folder
      */
     private async updateWorkspaceStatus(): Promise<void> {
-        try {
-            const config = vscode.workspace.getConfiguration('lockor');
-            const createStatusFile = config.get<boolean>('createStatusFile', true);
-            
-            if (!createStatusFile) {
-                return; // Feature disabled
-            }
+        const config = vscode.workspace.getConfiguration('lockor');
+        const createStatusFile = config.get<boolean>('createStatusFile', true);
+        
+        if (!createStatusFile) {
+            return; // Feature disabled
+        }
 
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
-                return;
-            }
+        for (const workspaceFolder of vscode.workspace.workspaceFolders ?? []) {
+            await this.updateFolderStatus(workspaceFolder);
+        }
+    }
 
-            const statusFile = vscode.Uri.joinPath(workspaceFolder.uri, '.lockor');
+    /**
+     * Create/update the .lockor manifest for a single workspace folder
+     */
+    private async updateFolderStatus(workspaceFolder: vscode.WorkspaceFolder): Promise<void> {
+        try {
+            const statusFile = vscode.Uri.joinPath(workspaceFolder.uri, MANIFEST_FILE_NAME);
+            const folderKey = workspaceFolder.uri.fsPath;
+            const manifest = await this.buildManifest(workspaceFolder);
 
-            if (this.lockedFiles.size === 0) {
+            if (manifest.files.length === 0 && manifest.patterns.length === 0) {
                 // Remove status file if no locked files
+                this.lastManifestContent.delete(folderKey);
                 try {
                     await vscode.workspace.fs.delete(statusFile);
-                    console.log('Lockor: Removed .lockor file (no locked files)');
+                    console.log(`Lockor: Removed .lockor file in ${folderKey} (no locked files)`);
                 } catch {
                     // File might not exist, that's fine
                 }
                 return;
             }
 
-            const protectionLevel = config.get<string>('protectionLevel', 'ai-aware');
-            const timestamp = new Date().toISOString();
+            const yamlContent = serializeManifest(manifest);
+            if (yamlContent === this.lastManifestContent.get(folderKey)) {
+                return; // Nothing changed, avoid touching a committed file
+            }
+
+            this.lastManifestContent.set(folderKey, yamlContent);
+            await vscode.workspace.fs.writeFile(statusFile, Buffer.from(yamlContent, 'utf8'));
+            this.context.workspaceState.update(LockorManager.MANIFEST_SYNCED_KEY, true);
+            console.log(`Lockor: Updated .lockor file in ${folderKey} with ${manifest.files.length} locked entries`);
+
+        } catch (error) {
+            console.error('Lockor: Failed to update .lockor status file:', error);
+        }
+    }
+
+    /**
+     * Build manifest data for the locks in a workspace folder, with paths relative to it
+     */
+    private async buildManifest(workspaceFolder: vscode.WorkspaceFolder): Promise<LockorManifest> {
+        const config = vscode.workspace.getConfiguration('lockor');
+        const files: ManifestFileEntry[] = [
+            ...this.getOwnedPaths(this.lockedFolders, workspaceFolder).map(folderPath => ({
+                path: this.toManifestPath(workspaceFolder, folderPath),
+                type: 'folder' as const,
+                level: this.lockLevels.get(folderPath),
+                ...this.toManifestMetadata(folderPath)
+            })),
+            ...this.getOwnedPaths(this.lockedFiles, workspaceFolder).map(filePath => ({
+                path: this.toManifestPath(workspaceFolder, filePath),
+                level: this.lockLevels.get(filePath),
+                ...this.toManifestMetadata(filePath),
+                sha256: this.lockHashes.get(filePath)
+            }))
+        ];
 
-            // Create YAML content with clear warnings
-            let yamlContent = `# ⚠️  DO NOT EDIT THIS FILE MANUALLY\n`;
-            yamlContent += `# This file is automatically generated and maintained by the Lockor VS Code extension.\n`;
-            yamlContent += `# Manual changes will be overwritten when files are locked/unlocked or settings change.\n`;
-            yamlContent += `# To modify locked files, use the Lockor extension commands or settings.\n\n`;
+        const patterns: ManifestPatternEntry[] = [];
+        for (const pattern of this.getLockPatterns()) {
+            const matches = await this.findPatternMatches(pattern, workspaceFolder);
+            patterns.push({
+                pattern,
+                matches: matches.map(match => this.toManifestPath(workspaceFolder, match.fsPath)).sort()
+            });
+        }
 
-            yamlContent += `# Lockor File Protection Status\n`;
-            yamlContent += `version: "1.0"\n`;
-            yamlContent += `generated: "${timestamp}"\n`;
-            yamlContent += `protection_level: "${protectionLevel}"\n`;
-            yamlContent += `total_locked_files: ${this.lockedFiles.size}\n\n`;
+        return {
+            protectionLevel: this.getDefaultProtectionLevel(),
+            files,
+            patterns
+        };
+    }
 
-            yamlContent += `# Protected Files\n`;
-            yamlContent += `locked_files:\n`;
+    /**
+     * Convert an absolute path to a manifest path (relative, forward slashes)
+     */
+    private toManifestPath(workspaceFolder: vscode.WorkspaceFolder, filePath: string): string {
+        return path.relative(workspaceFolder.uri.fsPath, filePath).split(path.sep).join('/');
+    }
 
-            if (this.lockedFiles.size === 0) {
-                yamlContent += `  # No files currently locked\n`;
-            } else {
-                for (const filePath of this.lockedFiles) {
-                    const relativePath = vscode.workspace.asRelativePath(filePath);
-                    yamlContent += `  - path: "${relativePath}"\n`;
-                    yamlContent += `    absolute: "${filePath}"\n`;
+    /**
+     * Manifest fields for a lock entry's metadata
+     */
+    private toManifestMetadata(lockPath: string): Pick<ManifestFileEntry, 'reason' | 'lockedBy' | 'lockedAt'> {
+        const metadata = this.lockMetadata.get(lockPath);
+        return { reason: metadata?.reason, lockedBy: metadata?.author, lockedAt: metadata?.createdAt };
+    }
+
+    /**
+     * Load locks from the .lockor manifests of all workspace folders, replacing the current lock set
+     * (or adding to it while lockor.createStatusFile is off)
+     *
+     * Called on activation and whenever a manifest changes on disk.
+     */
+    public async loadManifest(): Promise<void> {
+        const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+        const synced = this.context.workspaceState.get<boolean>(LockorManager.MANIFEST_SYNCED_KEY, false);
+        const contents = new Map<vscode.WorkspaceFolder, string | undefined>();
+
+        for (const workspaceFolder of workspaceFolders) {
+            const statusFile = vscode.Uri.joinPath(workspaceFolder.uri, MANIFEST_FILE_NAME);
+            try {
+                contents.set(workspaceFolder, Buffer.from(await vscode.workspace.fs.readFile(statusFile)).toString('utf8'));
+            } catch {
+                contents.set(workspaceFolder, undefined);
+            }
+        }
+
+        if (!synced && Array.from(contents.values()).every(yamlContent => yamlContent === undefined)) {
+            // Locks from before the manifest was shared: publish them
+            if (this.hasLocks()) {
+                await this.updateWorkspaceStatus();
+            }
+            return;
+        }
+
+        const unchanged = Array.from(contents).every(([workspaceFolder, yamlContent]) =>
+            yamlContent === this.lastManifestContent.get(workspaceFolder.uri.fsPath)
+        );
+        if (this.manifestLoaded && unchanged) {
+            return; // Our own writes
+        }
+        this.manifestLoaded = true;
+
+        const config = vscode.workspace.getConfiguration('lockor');
+        const configuredPatterns = config.get<string[]>('lockPatterns', []);
+        // Without createStatusFile, locks added here never reach the manifest, so it only adds to them
+        const merge = !config.get<boolean>('createStatusFile', true);
+        const lockedFiles = new Set<string>(merge ? this.lockedFiles : []);
+        const lockedFolders = new Set<string>(merge ? this.lockedFolders : []);
+        const lockedPatterns = new Set<string>(merge ? this.lockedPatterns : []);
+        const lockLevels = new Map<string, ProtectionLevel>(merge ? this.lockLevels : []);
+        const lockMetadata = new Map<string, LockMetadata>(merge ? this.lockMetadata : []);
+        const lockHashes = new Map<string, string>(merge ? this.lockHashes : []);
+
+        for (const [workspaceFolder, yamlContent] of contents) {
+            const folderKey = workspaceFolder.uri.fsPath;
+            if (yamlContent === undefined) {
+                // No manifest (e.g. a teammate unlocked everything in this folder)
+                this.lastManifestContent.delete(folderKey);
+                continue;
+            }
+
+            this.lastManifestContent.set(folderKey, yamlContent);
+            const manifest = parseManifest(yamlContent);
+            for (const entry of manifest.files) {
+                const absolutePath = path.join(folderKey, ...entry.path.split('/'));
+                if (entry.type === 'folder') {
+                    lockedFolders.add(absolutePath);
+                } else {
+                    lockedFiles.add(absolutePath);
+                }
+                if (isProtectionLevel(entry.level)) {
+                    lockLevels.set(absolutePath, entry.level);
+                }
+                if (entry.reason || entry.lockedBy || entry.lockedAt) {
+                    lockMetadata.set(absolutePath, {
+                        reason: entry.reason ? String(entry.reason) : undefined,
+                        author: entry.lockedBy ? String(entry.lockedBy) : undefined,
+                        createdAt: entry.lockedAt ? String(entry.lockedAt) : undefined
+                    });
+                }
+                if (entry.sha256) {
+                    lockHashes.set(absolutePath, String(entry.sha256));
+                }
+            }
+            for (const entry of manifest.patterns) {
+                if (!configuredPatterns.includes(entry.pattern)) {
+                    lockedPatterns.add(entry.pattern);
                 }
             }
+        }
 
-            yamlContent += `\n# Protection Level Explanation\n`;
-            yamlContent += `protection_info:\n`;
-            if (protectionLevel === 'soft') {
-                yamlContent += `  mode: "soft"\n`;
-                yamlContent += `  description: "Gentle warnings - AI discouraged, users can modify with warnings"\n`;
-                yamlContent += `  ai_instructions: "Check with user before modifying these files"\n`;
-                yamlContent += `  user_restrictions: "Warnings only"\n`;
-                yamlContent += `  save_blocking: false\n`;
-                yamlContent += `  os_readonly: false\n`;
-            } else if (protectionLevel === 'ai-aware') {
-                yamlContent += `  mode: "ai-aware"\n`;
-                yamlContent += `  description: "AI blocked, humans can save with warnings"\n`;
-                yamlContent += `  ai_instructions: "STRICTLY PROHIBITED - Do not modify these files"\n`;
-                yamlContent += `  user_restrictions: "Warnings only"\n`;
-                yamlContent += `  save_blocking: false\n`;
-                yamlContent += `  os_readonly: false\n`;
-            } else {
-                yamlContent += `  mode: "hard"\n`;
-                yamlContent += `  description: "Maximum protection - everyone blocked"\n`;
-                yamlContent += `  ai_instructions: "ABSOLUTELY PROHIBITED - Do not modify these files"\n`;
-                yamlContent += `  user_restrictions: "Save blocked, read-only"\n`;
-                yamlContent += `  save_blocking: true\n`;
-                yamlContent += `  os_readonly: true\n`;
+        this.lockedFiles = lockedFiles;
+        this.lockedFolders = lockedFolders;
+        this.lockedPatterns = lockedPatterns;
+        this.lockLevels = lockLevels;
+        this.lockMetadata = lockMetadata;
+        this.lockHashes = lockHashes;
+        this.context.workspaceState.update(LockorManager.MANIFEST_SYNCED_KEY, true);
+        this.saveLockedFiles();
+        console.log(`Lockor: Loaded ${lockedFiles.size} locked files, ${lockedFolders.size} locked folders and ${lockedPatterns.size} patterns from .lockor manifests`);
+
+        this.onLockStateChanged();
+        await this.applyFilePermissions();
+        await this.updateCursorRules();
+        await this.updateWorkspaceDiagnostics();
+        await this.updateFileLockMarkers();
+    }
+
+    /**
+     * Carry locks, levels, metadata and regions along when files or folders are renamed or moved
+     */
+    public async handleFilesRenamed(files: readonly { oldUri: vscode.Uri; newUri: vscode.Uri }[]): Promise<void> {
+        let moved = 0;
+
+        for (const { oldUri, newUri } of files) {
+            const oldKey = this.uriToKey(oldUri);
+            const newKey = this.uriToKey(newUri);
+            const movePath = (filePath: string) => this.isSameOrInside(filePath, oldKey)
+                ? newKey + filePath.slice(oldKey.length)
+                : filePath;
+            const moveSet = (paths: Set<string>) => new Set(Array.from(paths, movePath));
+            const moveMap = <T>(entries: Map<string, T>) => new Map(Array.from(entries, ([key, value]) => [movePath(key), value] as [string, T]));
+
+            const affected = [...this.lockedFiles, ...this.lockedFolders, ...this.lockedRegions.keys()]
+                .filter(filePath => this.isSameOrInside(filePath, oldKey));
+            if (affected.length === 0) {
+                continue;
             }
 
-            await vscode.workspace.fs.writeFile(statusFile, Buffer.from(yamlContent, 'utf8'));
-            console.log(`Lockor: Updated .lockor file with ${this.lockedFiles.size} locked files`);
+            this.lockedFiles = moveSet(this.lockedFiles);
+            this.lockedFolders = moveSet(this.lockedFolders);
+            this.lockLevels = moveMap(this.lockLevels);
+            this.lockMetadata = moveMap(this.lockMetadata);
+            this.lockHashes = moveMap(this.lockHashes);
+            this.lockedRegions = moveMap(this.lockedRegions);
+            moved += affected.length;
+            console.log(`Lockor: Moved ${affected.length} lock entries from ${oldKey} to ${newKey}`);
+        }
 
-        } catch (error) {
-            console.error('Lockor: Failed to update .lockor status file:', error);
+        if (moved === 0) {
+            return;
+        }
+
+        this.saveLockedFiles();
+        this.onLockStateChanged();
+        await this.updateAIVisibility();
+    }
+
+    /**
+     * Snapshot locked paths about to be deleted so ai-aware and hard locks can be restored
+     *
+     * Pass to FileWillDeleteEvent.waitUntil so the contents are read before they disappear.
+     */
+    public async handleWillDeleteFiles(files: readonly vscode.Uri[]): Promise<void> {
+        for (const uri of files) {
+            const key = this.uriToKey(uri);
+            const protectedPaths = [...this.lockedFiles, ...this.lockedFolders]
+                .filter(filePath => this.isSameOrInside(filePath, key))
+                .filter(filePath => (this.lockLevels.get(filePath) ?? this.getDefaultProtectionLevel()) !== 'soft');
+
+            // A file covered by a locked folder or pattern is protected as well
+            const coveringEntry = this.findLockingFolder(key);
+            if (coveringEntry && coveringEntry !== key && (this.lockLevels.get(coveringEntry) ?? this.getDefaultProtectionLevel()) !== 'soft') {
+                protectedPaths.push(key);
+            } else if (!coveringEntry && this.findLockingPattern(key) && this.getDefaultProtectionLevel() !== 'soft') {
+                protectedPaths.push(key);
+            }
+
+            for (const protectedPath of new Set(protectedPaths)) {
+                try {
+                    this.pendingDeletes.set(protectedPath, await this.snapshotPath(vscode.Uri.file(protectedPath)));
+                } catch (error) {
+                    console.warn(`Lockor: Could not snapshot ${protectedPath} before delete:`, error);
+                }
+            }
+        }
+    }
+
+    /**
+     * Read a file, or every file under a folder, into memory
+     */
+    private async snapshotPath(uri: vscode.Uri): Promise<FileSnapshot[]> {
+        if (!await this.isDirectory(uri)) {
+            return [{ filePath: uri.fsPath, content: await vscode.workspace.fs.readFile(uri) }];
+        }
+
+        // An entry without content recreates the (possibly empty) folder itself
+        const snapshots: FileSnapshot[] = [{ filePath: uri.fsPath }];
+        for (const [name, type] of await vscode.workspace.fs.readDirectory(uri)) {
+            const child = vscode.Uri.joinPath(uri, name);
+            if (type === vscode.FileType.Directory || type === vscode.FileType.File) {
+                snapshots.push(...await this.snapshotPath(child));
+            }
+        }
+        return snapshots;
+    }
+
+    /**
+     * Restore deleted ai-aware and hard locked paths and drop deleted soft locks
+     */
+    public async handleFilesDeleted(files: readonly vscode.Uri[]): Promise<void> {
+        const config = vscode.workspace.getConfiguration('lockor');
+        const showNotifications = config.get<boolean>('showNotifications', true);
+        let changed = false;
+
+        for (const uri of files) {
+            const key = this.uriToKey(uri);
+
+            for (const [protectedPath, snapshots] of this.pendingDeletes) {
+                if (!this.isSameOrInside(protectedPath, key)) {
+                    continue;
+                }
+                this.pendingDeletes.delete(protectedPath);
+                await this.restoreSnapshot(protectedPath, snapshots);
+
+                const level = this.getProtectionLevel(vscode.Uri.file(protectedPath));
+                console.log(`Lockor: Restored deleted locked path ${protectedPath} (${level} mode)`);
+                this.auditLog?.record('delete-restored', vscode.Uri.file(protectedPath), { level });
+                if (showNotifications) {
+                    vscode.window.showWarningMessage(
+                        `🔒 "${path.basename(protectedPath)}" is locked (${level.toUpperCase()} mode) and can't be deleted. It has been restored.`
+                    );
+                }
+            }
+
+            // Whatever is still listed under the deleted path was soft locked (or a region) and goes away
+            const isRemaining = (filePath: string) => !this.isSameOrInside(filePath, key);
+            const before = this.lockedFiles.size + this.lockedFolders.size + this.lockedRegions.size;
+            const remainingFiles = new Set([...this.lockedFiles].filter(filePath =>
+                isRemaining(filePath) || (this.lockLevels.get(filePath) ?? this.getDefaultProtectionLevel()) !== 'soft'));
+            const remainingFolders = new Set([...this.lockedFolders].filter(folderPath =>
+                isRemaining(folderPath) || (this.lockLevels.get(folderPath) ?? this.getDefaultProtectionLevel()) !== 'soft'));
+            const removed = [...this.lockedFiles, ...this.lockedFolders].filter(filePath =>
+                !remainingFiles.has(filePath) && !remainingFolders.has(filePath));
+
+            this.lockedFiles = remainingFiles;
+            this.lockedFolders = remainingFolders;
+            for (const filePath of removed) {
+                this.lockLevels.delete(filePath);
+                this.lockMetadata.delete(filePath);
+                this.lockHashes.delete(filePath);
+            }
+            for (const filePath of [...this.lockedRegions.keys()]) {
+                if (!isRemaining(filePath)) {
+                    this.lockedRegions.delete(filePath);
+                }
+            }
+            if (this.lockedFiles.size + this.lockedFolders.size + this.lockedRegions.size !== before) {
+                console.log(`Lockor: Removed ${removed.length} soft lock entries for deleted path ${key}`);
+                changed = true;
+            }
+        }
+
+        if (changed) {
+            this.saveLockedFiles();
+            this.onLockStateChanged();
+            await this.updateAIVisibility();
+        }
+    }
+
+    /**
+     * Write snapshotted contents back and re-apply read-only protection for hard locks
+     */
+    private async restoreSnapshot(protectedPath: string, snapshots: FileSnapshot[]): Promise<void> {
+        for (const snapshot of snapshots) {
+            try {
+                const uri = vscode.Uri.file(snapshot.filePath);
+                if (snapshot.content) {
+                    await vscode.workspace.fs.writeFile(uri, snapshot.content);
+                } else {
+                    await vscode.workspace.fs.createDirectory(uri);
+                }
+            } catch (error) {
+                console.error(`Lockor: Failed to restore ${snapshot.filePath}:`, error);
+            }
         }
+
+        if (this.getProtectionLevel(vscode.Uri.file(protectedPath)) === 'hard') {
+            try {
+                await this.setPathReadOnly(protectedPath, this.lockedFolders.has(protectedPath), true);
+            } catch (error) {
+                console.warn(`Lockor: Could not set restored path read-only: ${error}`);
+            }
+        }
+    }
+
+    /**
+     * Drop locks and regions whose files no longer exist
+     */
+    public async pruneStaleLocks(): Promise<void> {
+        const exists = async (filePath: string) => {
+            try {
+                await vscode.workspace.fs.stat(vscode.Uri.file(filePath));
+                return true;
+            } catch {
+                return false;
+            }
+        };
+
+        const stale: string[] = [];
+        for (const filePath of new Set([...this.lockedFiles, ...this.lockedFolders, ...this.lockedRegions.keys()])) {
+            if (!await exists(filePath)) {
+                stale.push(filePath);
+            }
+        }
+        if (stale.length === 0) {
+            return;
+        }
+
+        for (const filePath of stale) {
+            this.lockedFiles.delete(filePath);
+            this.lockedFolders.delete(filePath);
+            this.lockLevels.delete(filePath);
+            this.lockMetadata.delete(filePath);
+            this.lockHashes.delete(filePath);
+            this.lockedRegions.delete(filePath);
+        }
+        this.saveLockedFiles();
+        console.log(`Lockor: Pruned ${stale.length} stale lock entries for missing files: ${stale.join(', ')}`);
+
+        this.onLockStateChanged();
+        await this.updateAIVisibility();
+    }
+
+    /**
+     * Watch the .lockor manifests and reload locks when they change
+     */
+    public watchManifest(): vscode.Disposable {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${MANIFEST_FILE_NAME}`);
+        const reload = () => {
+            this.loadManifest().catch(error => {
+                console.error('Lockor: Failed to reload .lockor manifest:', error);
+            });
+        };
+        watcher.onDidChange(reload);
+        watcher.onDidCreate(reload);
+        watcher.onDidDelete(reload);
+
+        // Folders added to the workspace bring their own manifests
+        const foldersListener = vscode.workspace.onDidChangeWorkspaceFolders(async () => {
+            await this.loadManifest();
+            await this.updateAIVisibility();
+        });
+
+        return vscode.Disposable.from(watcher, foldersListener);
+    }
+
+    /**
+     * Clean up resources
+     */
+    public dispose(): void {
+        this.lockChangeEmitter.dispose();
     }
 }
@@ -0,0 +1,218 @@
+/**
+ * Lockor manifest - Reading and writing the `.lockor` file
+ *
+ * The manifest lists locked files, folders and patterns with paths relative
+ * to the workspace folder, so it can be committed and shared with the team.
+ * It is plain data with no VS Code dependency.
+ */
+
+import { matchesGlob } from './glob-matcher';
+
+export const MANIFEST_FILE_NAME = '.lockor';
+export const MANIFEST_VERSION = '1.1';
+
+export interface ManifestFileEntry {
+    path: string;
+    type?: 'file' | 'folder';
+    level?: string;
+    reason?: string;
+    lockedBy?: string;
+    // ISO 8601 timestamp
+    lockedAt?: string;
+    // Hex SHA-256 of the file's content when it was locked
+    sha256?: string;
+}
+
+export interface ManifestPatternEntry {
+    pattern: string;
+    matches?: string[];
+}
+
+export interface LockorManifest {
+    protectionLevel?: string;
+    files: ManifestFileEntry[];
+    patterns: ManifestPatternEntry[];
+}
+
+/**
+ * Serialize a manifest to the YAML written into `.lockor`
+ */
+export function serializeManifest(manifest: LockorManifest): string {
+    const protectionLevel = manifest.protectionLevel ?? 'ai-aware';
+    const folderCount = manifest.files.filter(entry => entry.type === 'folder').length;
+
+    let yamlContent = `# ⚠️  This file is maintained by the Lockor VS Code extension.\n`;
+    yamlContent += `# Commit it to share locks with your team: Lockor reloads it whenever it changes\n`;
+    yamlContent += `# (git pull, branch switch, another window). Prefer the Lockor commands for edits.\n`;
+    yamlContent += `# All paths are relative to the workspace folder containing this file.\n\n`;
+
+    yamlContent += `# Lockor File Protection Status\n`;
+    yamlContent += `version: "${MANIFEST_VERSION}"\n`;
+    yamlContent += `protection_level: ${JSON.stringify(protectionLevel)}\n`;
+    yamlContent += `total_locked_files: ${manifest.files.length - folderCount}\n`;
+    yamlContent += `total_locked_folders: ${folderCount}\n`;
+    yamlContent += `total_lock_patterns: ${manifest.patterns.length}\n\n`;
+
+    yamlContent += `# Protected Files\n`;
+    yamlContent += `locked_files:\n`;
+    if (manifest.files.length === 0) {
+        yamlContent += `  # No files currently locked\n`;
+    }
+    for (const entry of manifest.files) {
+        yamlContent += `  - path: ${JSON.stringify(entry.path)}\n`;
+        if (entry.type === 'folder') {
+            yamlContent += `    type: "folder"\n`;
+        }
+        if (entry.level) {
+            yamlContent += `    level: ${JSON.stringify(entry.level)}\n`;
+        }
+        if (entry.reason) {
+            yamlContent += `    reason: ${JSON.stringify(entry.reason)}\n`;
+        }
+        if (entry.lockedBy) {
+            yamlContent += `    locked_by: ${JSON.stringify(entry.lockedBy)}\n`;
+        }
+        if (entry.lockedAt) {
+            yamlContent += `    locked_at: ${JSON.stringify(entry.lockedAt)}\n`;
+        }
+        if (entry.sha256) {
+            yamlContent += `    sha256: ${JSON.stringify(entry.sha256)}\n`;
+        }
+    }
+
+    if (manifest.patterns.length > 0) {
+        yamlContent += `\n# Lock Patterns\n`;
+        yamlContent += `locked_patterns:\n`;
+        for (const entry of manifest.patterns) {
+            yamlContent += `  - pattern: ${JSON.stringify(entry.pattern)}\n`;
+            yamlContent += `    matches: ${JSON.stringify(entry.matches ?? [])}\n`;
+        }
+    }
+
+    yamlContent += `\n# Default Protection Level Explanation (entries with their own level override it)\n`;
+    yamlContent += `protection_info:\n`;
+    if (protectionLevel === 'soft') {
+        yamlContent += `  mode: "soft"\n`;
+        yamlContent += `  description: "Gentle warnings - AI discouraged, users can modify with warnings"\n`;
+        yamlContent += `  ai_instructions: "Check with user before modifying these files"\n`;
+        yamlContent += `  user_restrictions: "Warnings only"\n`;
+        yamlContent += `  save_blocking: false\n`;
+        yamlContent += `  os_readonly: false\n`;
+    } else if (protectionLevel === 'ai-aware') {
+        yamlContent += `  mode: "ai-aware"\n`;
+        yamlContent += `  description: "AI blocked, humans can save with warnings"\n`;
+        yamlContent += `  ai_instructions: "STRICTLY PROHIBITED - Do not modify these files"\n`;
+        yamlContent += `  user_restrictions: "Warnings only"\n`;
+        yamlContent += `  save_blocking: false\n`;
+        yamlContent += `  os_readonly: false\n`;
+    } else if (protectionLevel === 'hidden') {
+        yamlContent += `  mode: "hidden"\n`;
+        yamlContent += `  description: "AI blocked and kept out of AI context, humans can save with warnings"\n`;
+        yamlContent += `  ai_instructions: "STRICTLY PROHIBITED - Do not read or modify these files"\n`;
+        yamlContent += `  user_restrictions: "Warnings only"\n`;
+        yamlContent += `  save_blocking: false\n`;
+        yamlContent += `  os_readonly: false\n`;
+    } else {
+        yamlContent += `  mode: "hard"\n`;
+        yamlContent += `  description: "Maximum protection - everyone blocked"\n`;
+        yamlContent += `  ai_instructions: "ABSOLUTELY PROHIBITED - Do not modify these files"\n`;
+        yamlContent += `  user_restrictions: "Save blocked, read-only"\n`;
+        yamlContent += `  save_blocking: true\n`;
+        yamlContent += `  os_readonly: true\n`;
+    }
+
+    return yamlContent;
+}
+
+/**
+ * Parse the `.lockor` YAML written by serializeManifest
+ *
+ * Only understands the subset of YAML Lockor writes (top-level scalars and
+ * lists of flat mappings). Kept free of outside references so it can be
+ * serialized into standalone scripts.
+ */
+export function parseManifest(text: string): LockorManifest {
+    const manifest: LockorManifest = { files: [], patterns: [] };
+    let section: string | undefined;
+    let current: Record<string, unknown> | undefined;
+
+    const parseValue = (raw: string): unknown => {
+        const value = raw.trim();
+        if (value.startsWith('"') || value.startsWith('[')) {
+            try {
+                return JSON.parse(value);
+            } catch {
+                return value.replace(/^"|"$/g, '');
+            }
+        }
+        if (value === 'true' || value === 'false') {
+            return value === 'true';
+        }
+        if (value !== '' && !isNaN(Number(value))) {
+            return Number(value);
+        }
+        return value;
+    };
+    const toCamelCase = (key: string): string => key.replace(/_([a-z])/g, (_match, char: string) => char.toUpperCase());
+
+    for (const line of text.split(/\r?\n/)) {
+        if (line.trim() === '' || line.trim().startsWith('#')) {
+            continue;
+        }
+
+        const topLevel = /^([A-Za-z_]+):\s*(.*)$/.exec(line);
+        if (topLevel) {
+            section = topLevel[1];
+            current = undefined;
+            if (section === 'protection_level' && topLevel[2]) {
+                manifest.protectionLevel = String(parseValue(topLevel[2]));
+            }
+            continue;
+        }
+
+        const listItem = /^\s+-\s+([A-Za-z_]+):\s*(.*)$/.exec(line);
+        if (listItem && (section === 'locked_files' || section === 'locked_patterns')) {
+            current = { [toCamelCase(listItem[1])]: parseValue(listItem[2]) };
+            if (section === 'locked_files') {
+                manifest.files.push(current as unknown as ManifestFileEntry);
+            } else {
+                manifest.patterns.push(current as unknown as ManifestPatternEntry);
+            }
+            continue;
+        }
+
+        const property = /^\s+([A-Za-z_][A-Za-z0-9_]*):\s*(.*)$/.exec(line);
+        if (property && current) {
+            current[toCamelCase(property[1])] = parseValue(property[2]);
+        }
+    }
+
+    manifest.files = manifest.files.filter(entry => typeof entry.path === 'string' && entry.path !== '');
+    manifest.patterns = manifest.patterns.filter(entry => typeof entry.pattern === 'string' && entry.pattern !== '');
+    return manifest;
+}
+
+export interface ManifestLock {
+    // The file or folder entry locking the path, unless a pattern does
+    entry?: ManifestFileEntry;
+    pattern?: string;
+    level: string;
+}
+
+/**
+ * Find what locks a path (relative to the manifest's folder, forward slashes), if anything
+ */
+export function findManifestLock(manifest: LockorManifest, relativePath: string): ManifestLock | undefined {
+    const defaultLevel = manifest.protectionLevel ?? 'ai-aware';
+    for (const entry of manifest.files) {
+        const matches = entry.type === 'folder'
+            ? relativePath === entry.path || relativePath.startsWith(entry.path + '/')
+            : relativePath === entry.path;
+        if (matches) {
+            return { entry, level: entry.level ?? defaultLevel };
+        }
+    }
+
+    const pattern = manifest.patterns.find(entry => matchesGlob(relativePath, entry.pattern));
+    return pattern ? { pattern: pattern.pattern, level: defaultLevel } : undefined;
+}
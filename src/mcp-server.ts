@@ -0,0 +1,373 @@
+#!/usr/bin/env node
+/**
+ * Lockor MCP server - Authoritative lock checks for any Model Context Protocol agent
+ *
+ * Speaks MCP over stdio (newline-delimited JSON-RPC 2.0) and answers from the
+ * `.lockor` manifest of one workspace folder, so CLI agents and other editors see
+ * the same locks as the extension:
+ *
+ *   list_locked_files               Locked files, folders and patterns
+ *   is_locked(paths)                Lock state, level, reason and guidance per path
+ *   request_unlock(path, reason)    Ask the user in the editor to unlock a path
+ *
+ *   lockor-mcp [--root <dir>]       (default: the current directory)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { randomUUID } from 'crypto';
+import { findManifestLock, LockorManifest, MANIFEST_FILE_NAME, parseManifest } from './lockor-manifest';
+import { AGENT_GUIDANCE, isProtectionLevel } from './protection-level';
+import {
+    getUnlockRequestDir,
+    isEditorListening,
+    REQUEST_SUFFIX,
+    RESPONSE_SUFFIX,
+    UnlockRequest,
+    UnlockResponse
+} from './unlock-requests';
+
+export const MCP_SERVER_NAME = 'lockor';
+export const MCP_SERVER_VERSION = '1.0.0';
+// Newest first; a client asking for another version gets the newest
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+// JSON-RPC error codes
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+const PARSE_ERROR = -32700;
+
+interface JsonRpcMessage {
+    jsonrpc: '2.0';
+    id?: string | number | null;
+    method?: string;
+    params?: Record<string, unknown>;
+}
+
+interface JsonRpcResponse {
+    jsonrpc: '2.0';
+    id: string | number | null;
+    result?: unknown;
+    error?: { code: number; message: string };
+}
+
+interface ToolResult {
+    content: { type: 'text'; text: string }[];
+    isError?: boolean;
+}
+
+export interface McpServerOptions {
+    root: string;
+    // How long request_unlock waits for the user to answer
+    unlockTimeoutMs?: number;
+    pollIntervalMs?: number;
+}
+
+class MethodNotFoundError extends Error {}
+class InvalidParamsError extends Error {}
+
+const TOOLS = [
+    {
+        name: 'list_locked_files',
+        description: 'List the files, folders and glob patterns locked by Lockor in this workspace, with their protection levels and lock reasons.',
+        inputSchema: { type: 'object', properties: {} }
+    },
+    {
+        name: 'is_locked',
+        description: 'Check whether files are locked by Lockor. Call this BEFORE creating, editing, moving, renaming or deleting files, with every path you intend to touch. Never change a path whose canModify is false; tell the user it is locked and why, or use request_unlock.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                paths: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Paths relative to the workspace folder, or absolute paths inside it'
+                }
+            },
+            required: ['paths']
+        }
+    },
+    {
+        name: 'request_unlock',
+        description: 'Ask the user to unlock a locked file. The user is prompted in their editor and can allow or deny the request; only edit the file if the result says it was unlocked.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                path: { type: 'string', description: 'Path of the locked file, relative to the workspace folder' },
+                reason: { type: 'string', description: 'Why the change is needed, shown to the user' }
+            },
+            required: ['path', 'reason']
+        }
+    }
+];
+
+export class LockorMcpServer {
+    private root: string;
+
+    constructor(private options: McpServerOptions) {
+        this.root = path.resolve(options.root);
+    }
+
+    /**
+     * Answer one JSON-RPC message; notifications get no answer
+     */
+    public async handleMessage(message: JsonRpcMessage): Promise<JsonRpcResponse | undefined> {
+        if (message.id === undefined || message.id === null) {
+            return undefined; // notifications/initialized, notifications/cancelled, ...
+        }
+
+        try {
+            return { jsonrpc: '2.0', id: message.id, result: await this.dispatch(message.method, message.params ?? {}) };
+        } catch (error) {
+            const code = error instanceof MethodNotFoundError ? METHOD_NOT_FOUND
+                : error instanceof InvalidParamsError ? INVALID_PARAMS
+                : INTERNAL_ERROR;
+            return { jsonrpc: '2.0', id: message.id, error: { code, message: error instanceof Error ? error.message : String(error) } };
+        }
+    }
+
+    /**
+     * Read messages from input line by line and write answers to output until input ends
+     */
+    public serve(input: NodeJS.ReadableStream, output: NodeJS.WritableStream): Promise<void> {
+        const send = (response: JsonRpcResponse) => output.write(JSON.stringify(response) + '\n');
+        const lines = readline.createInterface({ input, crlfDelay: Infinity });
+        const pending: Promise<void>[] = [];
+
+        lines.on('line', line => {
+            if (!line.trim()) {
+                return;
+            }
+            let message: JsonRpcMessage;
+            try {
+                message = JSON.parse(line);
+            } catch {
+                send({ jsonrpc: '2.0', id: null, error: { code: PARSE_ERROR, message: 'Invalid JSON' } });
+                return;
+            }
+            // Answer as soon as each call finishes, so a pending unlock request doesn't hold up other calls
+            pending.push(this.handleMessage(message).then(response => {
+                if (response) {
+                    send(response);
+                }
+            }));
+        });
+
+        return new Promise(resolve => lines.on('close', () => Promise.all(pending).then(() => resolve())));
+    }
+
+    /**
+     * Route a request to its handler
+     */
+    private async dispatch(method: string | undefined, params: Record<string, unknown>): Promise<unknown> {
+        switch (method) {
+            case 'initialize': {
+                const requested = typeof params.protocolVersion === 'string' ? params.protocolVersion : '';
+                return {
+                    protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : SUPPORTED_PROTOCOL_VERSIONS[0],
+                    capabilities: { tools: {} },
+                    serverInfo: { name: MCP_SERVER_NAME, version: MCP_SERVER_VERSION },
+                    instructions: 'Lockor protects files the user does not want changed. Call is_locked before changing any file.'
+                };
+            }
+            case 'ping':
+                return {};
+            case 'tools/list':
+                return { tools: TOOLS };
+            case 'tools/call':
+                return this.callTool(params.name, (params.arguments ?? {}) as Record<string, unknown>);
+            default:
+                throw new MethodNotFoundError(`Method not found: ${method}`);
+        }
+    }
+
+    /**
+     * Run a tool and wrap its answer as text content
+     */
+    private async callTool(name: unknown, args: Record<string, unknown>): Promise<ToolResult> {
+        let result: unknown;
+        switch (name) {
+            case 'list_locked_files':
+                result = this.listLockedFiles();
+                break;
+            case 'is_locked':
+                if (!Array.isArray(args.paths) || !args.paths.every(item => typeof item === 'string')) {
+                    throw new InvalidParamsError('is_locked needs "paths", a list of strings');
+                }
+                result = { results: args.paths.map(item => this.checkPath(item)) };
+                break;
+            case 'request_unlock':
+                if (typeof args.path !== 'string' || typeof args.reason !== 'string') {
+                    throw new InvalidParamsError('request_unlock needs "path" and "reason"');
+                }
+                result = await this.requestUnlock(args.path, args.reason);
+                break;
+            default:
+                throw new InvalidParamsError(`Unknown tool: ${name}`);
+        }
+        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    }
+
+    /**
+     * Every lock entry in the manifest
+     */
+    private listLockedFiles(): Record<string, unknown> {
+        const manifest = this.readManifest();
+        const defaultLevel = manifest.protectionLevel ?? 'ai-aware';
+        return {
+            root: this.root,
+            defaultProtectionLevel: defaultLevel,
+            files: manifest.files.filter(entry => entry.type !== 'folder').map(entry => ({
+                path: entry.path,
+                level: entry.level ?? defaultLevel,
+                ...(entry.reason ? { reason: entry.reason } : {}),
+                ...(entry.lockedBy ? { lockedBy: entry.lockedBy } : {})
+            })),
+            folders: manifest.files.filter(entry => entry.type === 'folder').map(entry => ({
+                path: entry.path,
+                level: entry.level ?? defaultLevel,
+                ...(entry.reason ? { reason: entry.reason } : {})
+            })),
+            patterns: manifest.patterns.map(entry => entry.pattern)
+        };
+    }
+
+    /**
+     * Lock state of one path, in the same shape as the editor's lockor_checkPaths tool
+     */
+    private checkPath(requested: string): Record<string, unknown> {
+        const relativePath = this.toManifestPath(requested);
+        if (relativePath === undefined) {
+            return { path: requested, locked: false, canModify: true, guidance: `Outside the workspace folder ${this.root}; Lockor does not protect it.` };
+        }
+
+        const lock = findManifestLock(this.readManifest(), relativePath);
+        if (!lock) {
+            return { path: relativePath, locked: false, canModify: true, guidance: 'Not locked. You may modify this file.' };
+        }
+        const level = isProtectionLevel(lock.level) ? lock.level : 'ai-aware';
+        return {
+            path: relativePath,
+            locked: true,
+            protectionLevel: level,
+            lockedBy: lock.pattern ? 'pattern' : lock.entry?.type ?? 'file',
+            entry: lock.pattern ?? lock.entry?.path,
+            ...(lock.entry?.reason ? { reason: lock.entry.reason } : {}),
+            canModify: level === 'soft',
+            guidance: AGENT_GUIDANCE[level]
+        };
+    }
+
+    /**
+     * Ask the user in the editor to unlock a path and wait for the answer
+     */
+    private async requestUnlock(requested: string, reason: string): Promise<Record<string, unknown>> {
+        const relativePath = this.toManifestPath(requested);
+        if (relativePath === undefined || !findManifestLock(this.readManifest(), relativePath)) {
+            return { path: requested, decision: 'not-locked', message: 'The path is not locked; no unlock is needed.' };
+        }
+        if (!isEditorListening(this.root)) {
+            return {
+                path: relativePath,
+                decision: 'no-editor',
+                message: `No editor with Lockor has this workspace open. Ask the user to unlock ${relativePath} themselves (Lockor: Unlock File, or \`lockor unlock ${relativePath}\`).`
+            };
+        }
+
+        const directory = getUnlockRequestDir(this.root);
+        const request: UnlockRequest = { id: randomUUID(), path: relativePath, reason, requestedAt: new Date().toISOString() };
+        const requestFile = path.join(directory, request.id + REQUEST_SUFFIX);
+        const responseFile = path.join(directory, request.id + RESPONSE_SUFFIX);
+        fs.mkdirSync(directory, { recursive: true });
+        fs.writeFileSync(requestFile, JSON.stringify(request), 'utf8');
+
+        const timeoutMs = this.options.unlockTimeoutMs ?? 120000;
+        const pollIntervalMs = this.options.pollIntervalMs ?? 500;
+        const deadline = Date.now() + timeoutMs;
+        try {
+            while (Date.now() < deadline) {
+                const response = this.readResponse(responseFile);
+                if (response) {
+                    return {
+                        path: relativePath,
+                        decision: response.decision,
+                        message: response.decision === 'denied'
+                            ? 'The user denied the unlock. Do not change this file.'
+                            : 'The user unlocked the file. You may now change it.'
+                    };
+                }
+                await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+            }
+            return {
+                path: relativePath,
+                decision: 'timeout',
+                message: `The user did not answer within ${Math.round(timeoutMs / 1000)} seconds. Do not change this file.`
+            };
+        } finally {
+            fs.rmSync(requestFile, { force: true });
+            fs.rmSync(responseFile, { force: true });
+        }
+    }
+
+    /**
+     * Read the editor's answer to an unlock request, or undefined until it is there in full
+     */
+    private readResponse(responseFile: string): UnlockResponse | undefined {
+        if (!fs.existsSync(responseFile)) {
+            return undefined;
+        }
+        try {
+            return JSON.parse(fs.readFileSync(responseFile, 'utf8'));
+        } catch (error) {
+            if (error instanceof SyntaxError) {
+                return undefined; // Still being written, try again on the next poll
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Read the manifest of the workspace folder; a missing manifest means nothing is locked
+     */
+    private readManifest(): LockorManifest {
+        const manifestPath = path.join(this.root, MANIFEST_FILE_NAME);
+        return fs.existsSync(manifestPath)
+            ? parseManifest(fs.readFileSync(manifestPath, 'utf8'))
+            : { files: [], patterns: [] };
+    }
+
+    /**
+     * Convert a requested path to a manifest path, or undefined when it is outside the workspace folder
+     */
+    private toManifestPath(requested: string): string | undefined {
+        const relativePath = path.relative(this.root, path.resolve(this.root, requested));
+        if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+            return undefined;
+        }
+        return relativePath.split(path.sep).join('/');
+    }
+}
+
+/**
+ * Start the server on stdin/stdout; logs go to stderr so they never mix with protocol messages
+ */
+export async function main(args: string[]): Promise<number> {
+    const rootIndex = args.indexOf('--root');
+    const root = rootIndex >= 0 ? args[rootIndex + 1] : process.cwd();
+    if (!root) {
+        console.error('Usage: lockor-mcp [--root <dir>]');
+        return 2;
+    }
+
+    console.error(`lockor-mcp: serving locks of ${path.resolve(root)}`);
+    await new LockorMcpServer({ root }).serve(process.stdin, process.stdout);
+    return 0;
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
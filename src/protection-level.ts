@@ -0,0 +1,32 @@
+/**
+ * Protection levels - Shared definitions for per-lock protection levels
+ *
+ * Each lock may carry its own level; locks without one follow the
+ * lockor.protectionLevel setting.
+ */
+
+export type ProtectionLevel = 'soft' | 'ai-aware' | 'hard' | 'hidden';
+
+export const PROTECTION_LEVELS: ProtectionLevel[] = ['soft', 'ai-aware', 'hard', 'hidden'];
+
+export const PROTECTION_LEVEL_DESCRIPTIONS: Record<ProtectionLevel, string> = {
+    'soft': 'Gentle warnings for everyone, no save blocking, gentle AI discouragement',
+    'ai-aware': 'Human can save with warnings, AI strictly blocked',
+    'hard': 'Everyone blocked, OS read-only + save blocking + strict AI rules',
+    'hidden': 'Like AI-aware, and listed in AI ignore files so AI tools never read the file'
+};
+
+// What an AI agent should do with a file locked at each level, returned by the chat tool and the MCP server
+export const AGENT_GUIDANCE: Record<ProtectionLevel, string> = {
+    'soft': 'Locked in soft mode. Ask the user to confirm before changing this file.',
+    'ai-aware': 'Locked. Do not modify, move or delete this file; treat it as read-only reference material and ask the user to unlock it if a change is needed.',
+    'hard': 'Locked in hard mode. The file is read-only and saves are blocked; do not attempt to modify, move or delete it. Ask the user to unlock it if a change is needed.',
+    'hidden': 'Locked and hidden from AI tools. Do not read, modify, move or delete this file; ask the user if you need anything from it.'
+};
+
+/**
+ * Check whether a value is a known protection level
+ */
+export function isProtectionLevel(value: unknown): value is ProtectionLevel {
+    return typeof value === 'string' && (PROTECTION_LEVELS as string[]).includes(value);
+}
@@ -0,0 +1,66 @@
+/**
+ * ReadOnlyEditorManager - Opens locked files as read-only editors
+ *
+ * Save interception only stops a change once it is typed. Marking the editor
+ * read-only for the session (VS Code 1.79+) stops the user and in-editor agents
+ * from changing the buffer at all. The read-only state is per file, so it is
+ * applied or lifted whenever a file's editor becomes active or its lock changes.
+ */
+
+import * as vscode from 'vscode';
+import { LockorManager } from './lockor-manager';
+import { ProtectionLevel } from './protection-level';
+
+// Protection levels whose editors are read-only unless turned off in lockor.readOnlyEditors
+const DEFAULT_READ_ONLY_LEVELS: Record<ProtectionLevel, boolean> = {
+    'soft': false,
+    'ai-aware': true,
+    'hard': true,
+    'hidden': true
+};
+
+export class ReadOnlyEditorManager {
+    // Files Lockor made read-only in this session
+    private readOnlyPaths: Set<string> = new Set();
+
+    constructor(private lockorManager: LockorManager) {}
+
+    /**
+     * Check whether locks at a protection level open as read-only editors
+     */
+    public isReadOnlyLevel(level: ProtectionLevel): boolean {
+        const config = vscode.workspace.getConfiguration('lockor');
+        const levels = config.get<Partial<Record<ProtectionLevel, boolean>>>('readOnlyEditors', {}) ?? {};
+        return levels[level] ?? DEFAULT_READ_ONLY_LEVELS[level];
+    }
+
+    /**
+     * Make the active editor read-only when its file is locked, and writable again once it isn't
+     */
+    public async updateActiveEditor(editor: vscode.TextEditor | undefined = vscode.window.activeTextEditor): Promise<void> {
+        const uri = editor?.document.uri;
+        if (!uri || uri.scheme !== 'file') {
+            await vscode.commands.executeCommand('setContext', 'lockor.activeEditorReadOnly', false);
+            return;
+        }
+
+        const filePath = uri.fsPath;
+        const readOnly = this.lockorManager.isFileLocked(uri) && this.isReadOnlyLevel(this.lockorManager.getProtectionLevel(uri));
+        try {
+            if (readOnly && !this.readOnlyPaths.has(filePath)) {
+                await vscode.commands.executeCommand('workbench.action.files.setActiveEditorReadonlyInSession');
+                this.readOnlyPaths.add(filePath);
+                console.log(`Lockor: Opened ${filePath} as a read-only editor`);
+            } else if (!readOnly && this.readOnlyPaths.has(filePath)) {
+                await vscode.commands.executeCommand('workbench.action.files.resetActiveEditorReadonlyInSession');
+                this.readOnlyPaths.delete(filePath);
+                console.log(`Lockor: Made the editor of ${filePath} writable again`);
+            }
+        } catch (error) {
+            // Read-only editors need VS Code 1.79 or later
+            console.warn('Lockor: Could not change the read-only state of the editor:', error);
+        }
+
+        await vscode.commands.executeCommand('setContext', 'lockor.activeEditorReadOnly', this.readOnlyPaths.has(filePath));
+    }
+}
@@ -0,0 +1,230 @@
+/**
+ * RegionLockManager - Tracks and enforces locked line ranges in open editors
+ *
+ * Keeps region locks aligned with edits, warns on or reverts edits that touch
+ * a locked range depending on the file's protection level, and marks locked
+ * lines in the gutter. Region state itself lives in LockorManager.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { LockorManager } from './lockor-manager';
+import {
+    changeIntersectsRegion,
+    findMarkerRegions,
+    formatRegion,
+    LineChange,
+    LockedRegion,
+    REGION_BEGIN_MARKER,
+    REGION_END_MARKER,
+    shiftRegions
+} from './region-lock';
+
+export class RegionLockManager implements vscode.Disposable {
+    private decorationType: vscode.TextEditorDecorationType;
+    // Last known text of documents with regions, used to revert blocked edits
+    private documentTexts = new Map<string, string>();
+    private reverting = new Set<string>();
+    private warnedFiles = new Set<string>();
+
+    constructor(private lockorManager: LockorManager, extensionUri: vscode.Uri) {
+        this.decorationType = vscode.window.createTextEditorDecorationType({
+            gutterIconPath: vscode.Uri.joinPath(extensionUri, 'assets', 'region-lock.svg'),
+            gutterIconSize: 'contain',
+            overviewRulerColor: new vscode.ThemeColor('editorWarning.foreground'),
+            overviewRulerLane: vscode.OverviewRulerLane.Left,
+            isWholeLine: true
+        });
+    }
+
+    /**
+     * Lock the lines covered by the editor's selection
+     */
+    public async lockSelection(editor: vscode.TextEditor): Promise<void> {
+        const { start, end } = editor.selection;
+        // A selection ending at column 0 doesn't really include that line
+        const endLine = end.line > start.line && end.character === 0 ? end.line - 1 : end.line;
+
+        await this.lockorManager.lockRegion(editor.document.uri, start.line, endLine);
+        this.rememberText(editor.document);
+        this.updateDecorations();
+    }
+
+    /**
+     * Unlock the region under the cursor
+     */
+    public async unlockRegionAtCursor(editor: vscode.TextEditor): Promise<void> {
+        await this.lockorManager.unlockRegion(editor.document.uri, editor.selection.active.line);
+        this.updateDecorations();
+    }
+
+    /**
+     * Pick up lockor:begin/lockor:end comments when a document is opened or saved
+     */
+    public async handleDocumentOpened(document: vscode.TextDocument): Promise<void> {
+        if (this.scanMarkers(document)) {
+            await this.lockorManager.updateCursorRules();
+        }
+        this.rememberText(document);
+        this.updateDecorations();
+    }
+
+    /**
+     * Refresh the line spans in the rules once edits to a file with regions are saved
+     */
+    public async handleDocumentSaved(document: vscode.TextDocument): Promise<void> {
+        this.scanMarkers(document);
+        if (this.lockorManager.getLockedRegions(document.uri).length > 0) {
+            await this.lockorManager.updateCursorRules();
+        }
+    }
+
+    /**
+     * Forget cached text for closed documents
+     */
+    public handleDocumentClosed(document: vscode.TextDocument): void {
+        this.documentTexts.delete(document.uri.toString());
+    }
+
+    /**
+     * Shift regions to follow an edit, then warn on or revert edits inside a locked range
+     */
+    public async handleDocumentChanged(event: vscode.TextDocumentChangeEvent): Promise<void> {
+        const document = event.document;
+        const key = document.uri.toString();
+        if (event.contentChanges.length === 0 || document.uri.scheme !== 'file') {
+            return;
+        }
+
+        const regions = this.lockorManager.getLockedRegions(document.uri);
+        const mentionsMarker = event.contentChanges.some(change => change.text.includes('lockor:'));
+        if (regions.length === 0 && !mentionsMarker) {
+            return;
+        }
+
+        // Content change ranges refer to the old document, so apply them bottom-up
+        const lineChanges: LineChange[] = [...event.contentChanges]
+            .sort((a, b) => b.rangeOffset - a.rangeOffset)
+            .map(change => ({
+                startLine: change.range.start.line,
+                endLine: change.range.end.line,
+                insertedLineCount: change.text.split('\n').length - 1
+            }));
+        const touchedRegion = regions.find(region => lineChanges.some(change => changeIntersectsRegion(change, region)));
+
+        const selectionRegions = lineChanges.reduce(
+            (current, change) => shiftRegions(current, change),
+            regions.filter(region => region.source === 'selection')
+        );
+        this.lockorManager.updateRegions(document.uri, 'selection', selectionRegions);
+        this.scanMarkers(document);
+
+        const previousText = this.documentTexts.get(key);
+        this.rememberText(document);
+        this.updateDecorations();
+
+        if (!touchedRegion || this.reverting.has(key) || this.lockorManager.isFileLocked(document.uri)) {
+            return;
+        }
+
+        const protectionLevel = this.lockorManager.getProtectionLevel(document.uri);
+        const fileName = path.basename(document.uri.fsPath);
+        const showNotifications = vscode.workspace.getConfiguration('lockor').get<boolean>('showNotifications', true);
+
+        if (protectionLevel === 'hard' && previousText !== undefined) {
+            await this.revertChanges(document, event.contentChanges, previousText);
+            console.log(`Lockor: Reverted edit to locked ${formatRegion(touchedRegion)} of ${document.uri.fsPath}`);
+            if (showNotifications) {
+                vscode.window.showErrorMessage(`🔒 "${fileName}" has ${formatRegion(touchedRegion)} locked (HARD mode). The edit was reverted.`);
+            }
+        } else if (showNotifications && !this.warnedFiles.has(key)) {
+            // Warn once per file per session, like whole-file edit warnings in ai-aware mode
+            this.warnedFiles.add(key);
+            vscode.window.showWarningMessage(
+                `⚠️ You are editing a locked region of "${fileName}" (${formatRegion(touchedRegion)}, ${protectionLevel.toUpperCase()} mode).`
+            );
+        }
+    }
+
+    /**
+     * Undo content changes by replacing the inserted text with what it replaced
+     */
+    private async revertChanges(
+        document: vscode.TextDocument,
+        changes: readonly vscode.TextDocumentContentChangeEvent[],
+        previousText: string
+    ): Promise<void> {
+        const key = document.uri.toString();
+        const edit = new vscode.WorkspaceEdit();
+        let offsetDelta = 0;
+
+        for (const change of [...changes].sort((a, b) => a.rangeOffset - b.rangeOffset)) {
+            const start = change.rangeOffset + offsetDelta;
+            edit.replace(
+                document.uri,
+                new vscode.Range(document.positionAt(start), document.positionAt(start + change.text.length)),
+                previousText.slice(change.rangeOffset, change.rangeOffset + change.rangeLength)
+            );
+            offsetDelta += change.text.length - change.rangeLength;
+        }
+
+        this.reverting.add(key);
+        try {
+            await vscode.workspace.applyEdit(edit);
+        } finally {
+            this.reverting.delete(key);
+        }
+    }
+
+    /**
+     * Re-read marker regions from a document; returns whether they changed
+     */
+    private scanMarkers(document: vscode.TextDocument): boolean {
+        if (document.uri.scheme !== 'file') {
+            return false;
+        }
+
+        const commentFormat = this.lockorManager.getCommentFormat(document.uri.fsPath);
+        const prefixes = [commentFormat.line, commentFormat.start, commentFormat.start === '/*' ? '//' : undefined]
+            .filter((prefix): prefix is string => Boolean(prefix));
+        const text = document.getText();
+        const regions = text.includes(REGION_BEGIN_MARKER) || text.includes(REGION_END_MARKER)
+            ? findMarkerRegions(text.split(/\r?\n/), prefixes)
+            : [];
+
+        return this.lockorManager.updateRegions(document.uri, 'marker', regions);
+    }
+
+    /**
+     * Cache the text of documents with regions so blocked edits can be reverted
+     */
+    private rememberText(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        if (this.lockorManager.getLockedRegions(document.uri).length > 0) {
+            this.documentTexts.set(key, document.getText());
+        } else {
+            this.documentTexts.delete(key);
+        }
+    }
+
+    /**
+     * Highlight locked regions in the gutter of every visible editor
+     */
+    public updateDecorations(): void {
+        for (const editor of vscode.window.visibleTextEditors) {
+            const regions: LockedRegion[] = this.lockorManager.getLockedRegions(editor.document.uri);
+            editor.setDecorations(this.decorationType, regions.map(region => ({
+                range: new vscode.Range(region.startLine, 0, region.endLine, 0),
+                hoverMessage: `🔒 ${formatRegion(region)} locked by Lockor`
+            })));
+        }
+    }
+
+    /**
+     * Clean up resources
+     */
+    public dispose(): void {
+        this.decorationType.dispose();
+        this.documentTexts.clear();
+    }
+}
@@ -0,0 +1,96 @@
+/**
+ * Region locks - Line ranges locked inside a file
+ *
+ * Regions come from two sources: selections locked with "Lock Selection",
+ * which are stored and shifted as the file is edited, and blocks fenced by
+ * `lockor:begin` / `lockor:end` comments, which are re-read from the text.
+ * Lines are zero-based and inclusive; these helpers have no VS Code dependency.
+ */
+
+export const REGION_BEGIN_MARKER = 'lockor:begin';
+export const REGION_END_MARKER = 'lockor:end';
+
+export type RegionSource = 'selection' | 'marker';
+
+export interface LockedRegion {
+    startLine: number;
+    endLine: number;
+    source: RegionSource;
+}
+
+/**
+ * A text change expressed in lines of the document before the change
+ */
+export interface LineChange {
+    startLine: number;
+    endLine: number;
+    insertedLineCount: number;
+}
+
+/**
+ * Find `lockor:begin` / `lockor:end` blocks written as comments
+ *
+ * Only lines that start with one of the given comment prefixes count, so the
+ * marker text inside strings or prose is ignored. An unmatched begin marker
+ * locks to the end of the file.
+ */
+export function findMarkerRegions(lines: string[], commentPrefixes: string[]): LockedRegion[] {
+    const regions: LockedRegion[] = [];
+    let openLine: number | undefined;
+
+    const isMarker = (line: string, marker: string): boolean => {
+        const trimmed = line.trim();
+        return commentPrefixes.some(prefix => trimmed.startsWith(prefix)) && trimmed.includes(marker);
+    };
+
+    lines.forEach((line, index) => {
+        if (openLine === undefined && isMarker(line, REGION_BEGIN_MARKER)) {
+            openLine = index;
+        } else if (openLine !== undefined && isMarker(line, REGION_END_MARKER)) {
+            regions.push({ startLine: openLine, endLine: index, source: 'marker' });
+            openLine = undefined;
+        }
+    });
+
+    if (openLine !== undefined) {
+        regions.push({ startLine: openLine, endLine: Math.max(openLine, lines.length - 1), source: 'marker' });
+    }
+    return regions;
+}
+
+/**
+ * Check whether a change touches any line of a region
+ */
+export function changeIntersectsRegion(change: LineChange, region: LockedRegion): boolean {
+    return change.startLine <= region.endLine && change.endLine >= region.startLine;
+}
+
+/**
+ * Move regions to follow a change: edits above shift them, edits inside resize them
+ */
+export function shiftRegions(regions: LockedRegion[], change: LineChange): LockedRegion[] {
+    const delta = change.insertedLineCount - (change.endLine - change.startLine);
+    if (delta === 0) {
+        return regions;
+    }
+
+    return regions.map(region => {
+        if (change.endLine < region.startLine) {
+            return { ...region, startLine: region.startLine + delta, endLine: region.endLine + delta };
+        }
+        if (changeIntersectsRegion(change, region)) {
+            const startLine = Math.min(region.startLine, change.startLine + change.insertedLineCount);
+            return { ...region, startLine, endLine: Math.max(startLine, region.endLine + delta) };
+        }
+        return region;
+    });
+}
+
+/**
+ * Format a region as the one-based line span shown to users and AI rules
+ */
+export function formatRegion(region: LockedRegion): string {
+    return region.startLine === region.endLine
+        ? `line ${region.startLine + 1}`
+        : `lines ${region.startLine + 1}-${region.endLine + 1}`;
+}
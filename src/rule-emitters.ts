@@ -0,0 +1,80 @@
+/**
+ * Rule emitters - Lock rules for AI tools that don't read `.cursor/rules`
+ *
+ * Each emitter owns a Lockor-managed section of an instructions file that other
+ * tools read (Copilot, AGENTS.md, CLAUDE.md, Windsurf, Cline). Content outside the
+ * section markers belongs to the user and is never touched.
+ */
+
+export interface RuleEmitter {
+    // Key under `lockor.ruleFiles` that turns the emitter on
+    id: string;
+    label: string;
+    // Path relative to the workspace folder
+    relativePath: string;
+    // File written instead when relativePath is a directory, e.g. `.clinerules/`
+    directoryFile?: string;
+}
+
+export const RULE_EMITTERS: RuleEmitter[] = [
+    { id: 'copilot', label: 'GitHub Copilot', relativePath: '.github/copilot-instructions.md' },
+    { id: 'agents', label: 'AGENTS.md', relativePath: 'AGENTS.md' },
+    { id: 'claude', label: 'Claude', relativePath: 'CLAUDE.md' },
+    { id: 'windsurf', label: 'Windsurf', relativePath: '.windsurfrules' },
+    { id: 'cline', label: 'Cline', relativePath: '.clinerules', directoryFile: 'lockor.md' }
+];
+
+export const MANAGED_SECTION_BEGIN = '<!-- lockor:rules:begin - maintained by the Lockor extension, edits inside this section are overwritten -->';
+export const MANAGED_SECTION_END = '<!-- lockor:rules:end -->';
+
+// Lines fencing a Lockor-managed section, in the comment syntax of the file
+export interface SectionMarkers {
+    begin: string;
+    end: string;
+}
+
+const MARKDOWN_MARKERS: SectionMarkers = { begin: MANAGED_SECTION_BEGIN, end: MANAGED_SECTION_END };
+
+/**
+ * Replace the Lockor-managed section of a file, appending it when missing
+ * and removing it when `section` is undefined; a file without the section
+ * and nothing to add comes back unchanged
+ */
+export function applyManagedSection(existing: string, section: string | undefined, markers: SectionMarkers = MARKDOWN_MARKERS): string {
+    const newline = existing.includes('\r\n') ? '\r\n' : '\n';
+    const begin = existing.indexOf(markers.begin);
+    const end = begin === -1 ? -1 : existing.indexOf(markers.end, begin);
+    if ((begin === -1 || end === -1) && section === undefined) {
+        return existing; // Nothing of Lockor's to remove, so the user's file stays as it is
+    }
+
+    let before = existing;
+    let after = '';
+    if (begin !== -1 && end !== -1) {
+        before = existing.slice(0, begin);
+        after = existing.slice(end + markers.end.length);
+    }
+
+    before = before.replace(/\s+$/, '');
+    after = after.replace(/^\s+/, '');
+
+    const parts: string[] = [];
+    if (before) {
+        parts.push(before);
+    }
+    if (section !== undefined) {
+        const body = section.trim().split(/\r?\n/).join(newline);
+        parts.push(`${markers.begin}${newline}${body}${newline}${markers.end}`);
+    }
+    if (after) {
+        parts.push(after.replace(/\s+$/, ''));
+    }
+    return parts.length > 0 ? parts.join(`${newline}${newline}`) + newline : '';
+}
+
+/**
+ * Check whether a file contains a Lockor-managed section
+ */
+export function hasManagedSection(content: string): boolean {
+    return content.includes(MANAGED_SECTION_BEGIN);
+}
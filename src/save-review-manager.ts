@@ -0,0 +1,229 @@
+/**
+ * SaveReviewManager - Makes saves of locked files wait for a reviewed diff
+ *
+ * Save participants only get a second and a half, too short to ask anyone, so a
+ * save that needs review writes the locked version instead: the buffer is set
+ * back to it just before the save, and the unsaved changes are kept aside. A
+ * diff of the two opens next to an Accept/Reject prompt. Accepting puts the
+ * changes back and saves them, rejecting leaves the buffer restored, and closing
+ * the prompt puts the changes back unsaved. Changes under review are kept in
+ * workspace state until then, so a closed window doesn't lose them.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { LockorManager } from './lockor-manager';
+import { SnapshotManager } from './snapshot-manager';
+import { EditRevertManager } from './edit-revert-manager';
+import { AuditLog } from './audit-log';
+import { ProtectionLevel } from './protection-level';
+
+export const SAVE_REVIEW_SCHEME = 'lockor-review';
+
+export type SaveReviewResult = 'reviewing' | 'accepted';
+
+interface PendingReview {
+    locked: string;
+    changed: string;
+}
+
+export class SaveReviewManager implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private static readonly PENDING_REVIEWS_KEY = 'lockor.pendingReviews';
+    private providerRegistration: vscode.Disposable;
+    private changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidChange = this.changeEmitter.event;
+    // Keyed by document URI
+    private pendingReviews = new Map<string, PendingReview>();
+    private acceptedSaves = new Set<string>();
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private lockorManager: LockorManager,
+        private snapshotManager: SnapshotManager,
+        private editRevertManager: EditRevertManager,
+        private auditLog?: AuditLog
+    ) {
+        this.providerRegistration = vscode.workspace.registerTextDocumentContentProvider(SAVE_REVIEW_SCHEME, this);
+        const stored = this.context.workspaceState.get<Record<string, PendingReview>>(SaveReviewManager.PENDING_REVIEWS_KEY, {}) ?? {};
+        this.pendingReviews = new Map(Object.entries(stored));
+    }
+
+    /**
+     * Save the changes under review to workspace state
+     */
+    private savePendingReviews(): void {
+        this.context.workspaceState.update(SaveReviewManager.PENDING_REVIEWS_KEY, Object.fromEntries(this.pendingReviews));
+    }
+
+    /**
+     * Offer the reviews a closed window left unanswered again
+     */
+    public async restore(): Promise<void> {
+        for (const [key, review] of Array.from(this.pendingReviews)) {
+            const uri = vscode.Uri.parse(key);
+            const selection = await vscode.window.showWarningMessage(
+                `🔍 Changes to "${path.basename(uri.fsPath)}" were still waiting for review when the window closed.`,
+                'Review', 'Discard'
+            );
+            if (selection === 'Review') {
+                await this.review(await vscode.workspace.openTextDocument(uri), review);
+            } else if (selection === 'Discard' && this.pendingReviews.get(key) === review) {
+                this.pendingReviews.delete(key);
+                this.savePendingReviews();
+                console.log(`Lockor: Discarded changes to ${uri.fsPath} left from an earlier review`);
+            }
+        }
+    }
+
+    /**
+     * Hold back the save of a locked file for review; 'accepted' when this is the save of reviewed changes
+     */
+    public handleWillSaveDocument(event: vscode.TextDocumentWillSaveEvent): SaveReviewResult | undefined {
+        const document = event.document;
+        const key = document.uri.toString();
+        if (this.acceptedSaves.delete(key)) {
+            return 'accepted';
+        }
+        if (!this.requiresReview(document.uri)) {
+            return undefined;
+        }
+
+        event.waitUntil(this.holdBackChanges(document));
+        return 'reviewing';
+    }
+
+    /**
+     * Serve the two sides of a review diff
+     */
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        const query = new URLSearchParams(uri.query);
+        const review = this.pendingReviews.get(query.get('document') ?? '');
+        if (!review) {
+            return '';
+        }
+        return query.get('side') === 'locked' ? review.locked : review.changed;
+    }
+
+    /**
+     * Whether saves of a file need review at its protection level; hard locks block saves anyway
+     */
+    private requiresReview(uri: vscode.Uri): boolean {
+        if (!this.lockorManager.isFileLocked(uri)) {
+            return false;
+        }
+        const protectionLevel = this.lockorManager.getProtectionLevel(uri);
+        const levels = vscode.workspace.getConfiguration('lockor').get<Partial<Record<ProtectionLevel, boolean>>>('reviewBeforeSave', {}) ?? {};
+        return protectionLevel !== 'hard' && levels[protectionLevel] === true;
+    }
+
+    /**
+     * Set the buffer back to the locked version for this save and start the review of the changes
+     */
+    private async holdBackChanges(document: vscode.TextDocument): Promise<vscode.TextEdit[]> {
+        const locked = await this.readLockedVersion(document.uri);
+        const changed = document.getText();
+        if (locked === undefined || locked === changed) {
+            return [];
+        }
+
+        const review: PendingReview = { locked, changed };
+        this.pendingReviews.set(document.uri.toString(), review);
+        this.savePendingReviews();
+        this.changeEmitter.fire(this.getReviewUri(document.uri, 'locked'));
+        this.changeEmitter.fire(this.getReviewUri(document.uri, 'changed'));
+        this.editRevertManager.expectChange(document.uri, locked);
+        // Asking can take longer than the save may wait, so it happens after the save
+        this.review(document, review).catch(error => {
+            console.error(`Lockor: Failed to review changes to ${document.uri.fsPath}:`, error);
+        });
+        return [vscode.TextEdit.replace(this.getFullRange(document), locked)];
+    }
+
+    /**
+     * Show the changes and save them if the user accepts
+     */
+    private async review(document: vscode.TextDocument, review: PendingReview): Promise<void> {
+        const key = document.uri.toString();
+        const fileName = path.basename(document.uri.fsPath);
+        const protectionLevel = this.lockorManager.getProtectionLevel(document.uri);
+
+        await vscode.commands.executeCommand(
+            'vscode.diff', this.getReviewUri(document.uri, 'locked'), this.getReviewUri(document.uri, 'changed'), `${fileName} (Locked) ↔ Unsaved Changes`
+        );
+        const selection = await vscode.window.showWarningMessage(
+            `🔍 "${fileName}" is locked (${protectionLevel.toUpperCase()} mode). Review the changes before they are saved.`,
+            'Accept', 'Reject'
+        );
+
+        // A later save started a new review of this file
+        if (this.pendingReviews.get(key) !== review) {
+            return;
+        }
+        this.pendingReviews.delete(key);
+        this.savePendingReviews();
+
+        if (selection === 'Reject') {
+            console.log(`Lockor: Rejected changes to ${document.uri.fsPath}`);
+            this.auditLog?.record('save-rejected', document.uri, { level: protectionLevel });
+            return;
+        }
+        if (document.isClosed || document.getText() !== review.locked) {
+            vscode.window.showWarningMessage(`"${fileName}" changed during the review. The reviewed changes were not applied.`);
+            return;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(document.uri, this.getFullRange(document), review.changed);
+        this.editRevertManager.expectChange(document.uri, review.changed);
+        await vscode.workspace.applyEdit(edit);
+        if (selection === 'Accept') {
+            this.acceptedSaves.add(key);
+            if (!await document.save()) {
+                this.acceptedSaves.delete(key);
+            }
+        }
+    }
+
+    /**
+     * The version of a locked file to compare with: its snapshot, or else the file on disk
+     */
+    private async readLockedVersion(uri: vscode.Uri): Promise<string | undefined> {
+        let content = await this.snapshotManager.getSnapshot(uri);
+        if (!content) {
+            try {
+                content = await vscode.workspace.fs.readFile(uri);
+            } catch {
+                return undefined; // Not on disk yet
+            }
+        }
+        return Buffer.from(content).toString('utf8');
+    }
+
+    /**
+     * Virtual document holding one side of a review diff
+     */
+    private getReviewUri(uri: vscode.Uri, side: 'locked' | 'changed'): vscode.Uri {
+        return vscode.Uri.from({
+            scheme: SAVE_REVIEW_SCHEME,
+            path: uri.path,
+            query: new URLSearchParams({ document: uri.toString(), side }).toString()
+        });
+    }
+
+    /**
+     * Range covering the whole document
+     */
+    private getFullRange(document: vscode.TextDocument): vscode.Range {
+        return new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length));
+    }
+
+    /**
+     * Clean up resources
+     */
+    public dispose(): void {
+        this.providerRegistration.dispose();
+        this.changeEmitter.dispose();
+        this.pendingReviews.clear();
+        this.acceptedSaves.clear();
+    }
+}
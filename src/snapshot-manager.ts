@@ -0,0 +1,280 @@
+/**
+ * SnapshotManager - Catches changes written to locked files from outside the editor
+ *
+ * CLI agents and scripts write straight to disk, so the save interception never
+ * sees them. A snapshot of every locked file is kept in extension storage and a
+ * file system watcher compares external writes against it. Soft locks warn, AI-aware
+ * locks offer a diff, and hard locks are restored with the rejected content kept
+ * aside in extension storage.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { LockorManager } from './lockor-manager';
+import { AuditLog } from './audit-log';
+
+export class SnapshotManager {
+    private static readonly SNAPSHOTS_KEY = 'lockor.snapshots';
+    // A save that hasn't finished by then failed, so writes count as external again
+    private static readonly PENDING_SAVE_TIMEOUT_MS = 5000;
+    private snapshotPaths: Set<string> = new Set();
+    // Saves made in the editor, which update the snapshot instead of counting as external writes,
+    // with the epoch milliseconds they are given up at
+    private pendingSaves: Map<string, number> = new Map();
+    private checking: Set<string> = new Set();
+
+    constructor(private context: vscode.ExtensionContext, private lockorManager: LockorManager, private auditLog?: AuditLog) {
+        this.snapshotPaths = new Set(this.context.workspaceState.get<string[]>(SnapshotManager.SNAPSHOTS_KEY, []) ?? []);
+    }
+
+    /**
+     * Save the list of snapshotted files to workspace state
+     */
+    private saveSnapshotPaths(): void {
+        this.context.workspaceState.update(SnapshotManager.SNAPSHOTS_KEY, Array.from(this.snapshotPaths));
+    }
+
+    /**
+     * Start watching the workspace for external writes
+     */
+    public watch(): vscode.Disposable {
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*', true, false, true);
+        watcher.onDidChange(uri => {
+            this.handleFileChanged(uri).catch(error => {
+                console.error(`Lockor: Failed to check external change to ${uri.fsPath}:`, error);
+            });
+        });
+        return watcher;
+    }
+
+    /**
+     * Take snapshots of newly locked files and drop those of unlocked ones
+     */
+    public async syncSnapshots(): Promise<void> {
+        const config = vscode.workspace.getConfiguration('lockor');
+        const lockedUris = config.get<boolean>('detectExternalChanges', true)
+            ? await this.lockorManager.getLockedFileUris()
+            : [];
+        const lockedPaths = new Set(lockedUris.map(uri => uri.fsPath));
+
+        for (const filePath of this.snapshotPaths) {
+            if (!lockedPaths.has(filePath)) {
+                this.snapshotPaths.delete(filePath);
+                this.saveSnapshotPaths();
+                await this.deleteStorageFile(this.getSnapshotUri(filePath));
+            }
+        }
+
+        for (const uri of lockedUris) {
+            if (this.snapshotPaths.has(uri.fsPath)) {
+                continue;
+            }
+            try {
+                await this.takeSnapshot(uri, await vscode.workspace.fs.readFile(uri));
+            } catch (error) {
+                console.warn(`Lockor: Could not snapshot ${uri.fsPath}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Remember that the editor is about to save a locked file
+     */
+    public handleWillSaveDocument(document: vscode.TextDocument): void {
+        if (this.snapshotPaths.has(document.uri.fsPath)) {
+            this.pendingSaves.set(document.uri.fsPath, Date.now() + SnapshotManager.PENDING_SAVE_TIMEOUT_MS);
+        }
+    }
+
+    /**
+     * Accept an editor save of a locked file as the new snapshot
+     */
+    public async handleDocumentSaved(document: vscode.TextDocument): Promise<void> {
+        const filePath = document.uri.fsPath;
+        if (!this.snapshotPaths.has(filePath)) {
+            return;
+        }
+        try {
+            await this.takeSnapshot(document.uri, await vscode.workspace.fs.readFile(document.uri));
+        } finally {
+            this.pendingSaves.delete(filePath);
+        }
+    }
+
+    /**
+     * Compare a written file against its snapshot and respond according to its protection level
+     */
+    public async handleFileChanged(uri: vscode.Uri): Promise<void> {
+        const filePath = uri.fsPath;
+        if ((this.pendingSaves.get(filePath) ?? 0) <= Date.now()) {
+            this.pendingSaves.delete(filePath);
+        }
+        if (!this.snapshotPaths.has(filePath) || this.pendingSaves.has(filePath) || this.checking.has(filePath)) {
+            return;
+        }
+
+        this.checking.add(filePath);
+        try {
+            const snapshot = await this.readSnapshot(filePath);
+            const content = await vscode.workspace.fs.readFile(uri);
+            if (!snapshot || Buffer.from(content).equals(Buffer.from(snapshot))) {
+                return; // Our own restore, or an editor save already taken as the snapshot
+            }
+
+            const level = this.lockorManager.getProtectionLevel(uri);
+            const fileName = path.basename(filePath);
+            console.log(`Lockor: Locked file ${filePath} was modified outside the editor (${level} mode)`);
+
+            if (level === 'hard') {
+                const rejectedUri = await this.saveRejectedContent(filePath, content);
+                await this.lockorManager.writeLockedFile(uri, snapshot);
+                this.auditLog?.record('external-change', uri, { level, detail: `restored, rejected content kept in ${rejectedUri.fsPath}` });
+                vscode.window.showErrorMessage(
+                    `🔒 "${fileName}" is locked (HARD mode) and was modified outside the editor. The locked version was restored.`,
+                    'Show Rejected Changes'
+                ).then(selection => {
+                    if (selection === 'Show Rejected Changes') {
+                        vscode.commands.executeCommand('vscode.diff', uri, rejectedUri, `${fileName} (Locked) ↔ Rejected Changes`);
+                    }
+                });
+            } else if (level === 'ai-aware' || level === 'hidden') {
+                this.auditLog?.record('external-change', uri, { level, detail: 'warned' });
+                vscode.window.showWarningMessage(
+                    `⚠️ "${fileName}" is locked (${level.toUpperCase()} mode) but was modified outside the editor.`,
+                    'Show Diff', 'Restore Locked Version', 'Keep Changes'
+                ).then(selection => {
+                    if (selection === 'Show Diff') {
+                        return this.showDiff(uri);
+                    } else if (selection === 'Restore Locked Version') {
+                        return this.restoreSnapshot(uri);
+                    } else if (selection === 'Keep Changes') {
+                        return this.acceptChanges(uri, content);
+                    }
+                });
+            } else {
+                // Soft locks allow changes, so the new content becomes the snapshot
+                await this.acceptChanges(uri, content);
+                this.auditLog?.record('external-change', uri, { level, detail: 'accepted' });
+                const config = vscode.workspace.getConfiguration('lockor');
+                if (config.get<boolean>('showNotifications', true)) {
+                    vscode.window.showWarningMessage(`⚠️ "${fileName}" is locked (SOFT mode) and was modified outside the editor.`);
+                }
+            }
+        } finally {
+            this.checking.delete(filePath);
+        }
+    }
+
+    /**
+     * Take external changes as the locked content, updating the snapshot and the recorded hash
+     */
+    private async acceptChanges(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+        await this.takeSnapshot(uri, content);
+        await this.lockorManager.updateLockHash(uri, content);
+    }
+
+    /**
+     * Get the snapshot of a locked file, if there is one
+     */
+    public async getSnapshot(uri: vscode.Uri): Promise<Uint8Array | undefined> {
+        return this.snapshotPaths.has(uri.fsPath) ? this.readSnapshot(uri.fsPath) : undefined;
+    }
+
+    /**
+     * Replace the snapshot of a locked file, e.g. after its new content was accepted
+     */
+    public async updateSnapshot(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+        if (this.snapshotPaths.has(uri.fsPath)) {
+            await this.takeSnapshot(uri, content);
+        }
+    }
+
+    /**
+     * Open a diff between the snapshot and the file on disk
+     */
+    public async showDiff(uri: vscode.Uri): Promise<void> {
+        if (!this.snapshotPaths.has(uri.fsPath)) {
+            vscode.window.showInformationMessage(`No snapshot of "${path.basename(uri.fsPath)}" to compare with`);
+            return;
+        }
+        await vscode.commands.executeCommand(
+            'vscode.diff', this.getSnapshotUri(uri.fsPath), uri, `${path.basename(uri.fsPath)} (Locked) ↔ On Disk`
+        );
+    }
+
+    /**
+     * Write the snapshot of a locked file back to disk
+     */
+    public async restoreSnapshot(uri: vscode.Uri): Promise<void> {
+        const snapshot = await this.readSnapshot(uri.fsPath);
+        if (!snapshot) {
+            vscode.window.showInformationMessage(`No snapshot of "${path.basename(uri.fsPath)}" to restore`);
+            return;
+        }
+        await this.lockorManager.writeLockedFile(uri, snapshot);
+        console.log(`Lockor: Restored locked version of ${uri.fsPath}`);
+    }
+
+    /**
+     * Directory in extension storage holding snapshots and rejected content
+     */
+    private getStorageUri(...segments: string[]): vscode.Uri {
+        return vscode.Uri.joinPath(this.context.storageUri ?? this.context.globalStorageUri, ...segments);
+    }
+
+    /**
+     * Snapshot file for a locked path; the extension is kept so diffs are highlighted
+     */
+    private getSnapshotUri(filePath: string): vscode.Uri {
+        const hash = crypto.createHash('sha256').update(filePath).digest('hex').slice(0, 16);
+        return this.getStorageUri('snapshots', `${hash}${path.extname(filePath)}`);
+    }
+
+    /**
+     * Store the content of a locked file as its snapshot
+     */
+    private async takeSnapshot(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+        await vscode.workspace.fs.createDirectory(this.getStorageUri('snapshots'));
+        await vscode.workspace.fs.writeFile(this.getSnapshotUri(uri.fsPath), content);
+        if (!this.snapshotPaths.has(uri.fsPath)) {
+            this.snapshotPaths.add(uri.fsPath);
+            this.saveSnapshotPaths();
+        }
+    }
+
+    /**
+     * Read the snapshot of a locked file, if there is one
+     */
+    private async readSnapshot(filePath: string): Promise<Uint8Array | undefined> {
+        try {
+            return await vscode.workspace.fs.readFile(this.getSnapshotUri(filePath));
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Keep rejected content in extension storage, e.g. `rejected/config.2025-01-31T10-00-00-000Z.ts`
+     */
+    private async saveRejectedContent(filePath: string, content: Uint8Array): Promise<vscode.Uri> {
+        const extension = path.extname(filePath);
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const rejectedUri = this.getStorageUri('rejected', `${path.basename(filePath, extension)}.${timestamp}${extension}`);
+        await vscode.workspace.fs.createDirectory(this.getStorageUri('rejected'));
+        await vscode.workspace.fs.writeFile(rejectedUri, content);
+        console.log(`Lockor: Saved rejected content of ${filePath} to ${rejectedUri.fsPath}`);
+        return rejectedUri;
+    }
+
+    /**
+     * Delete a file from extension storage, ignoring files that are already gone
+     */
+    private async deleteStorageFile(uri: vscode.Uri): Promise<void> {
+        try {
+            await vscode.workspace.fs.delete(uri);
+        } catch {
+            // Already gone
+        }
+    }
+}
@@ -8,12 +8,14 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { LockorManager } from './lockor-manager';
+import { TemporaryUnlockManager } from './temporary-unlock-manager';
+import { formatLockMetadata } from './lock-metadata';
 
 export class StatusBarManager implements vscode.Disposable {
     private statusBarItem: vscode.StatusBarItem;
     private hideTimeout: NodeJS.Timeout | undefined;
 
-    constructor(private lockorManager: LockorManager) {
+    constructor(private lockorManager: LockorManager, private temporaryUnlockManager?: TemporaryUnlockManager) {
         // Create status bar item
         this.statusBarItem = vscode.window.createStatusBarItem(
             vscode.StatusBarAlignment.Right,
@@ -65,9 +67,22 @@ export class StatusBarManager implements vscode.Disposable {
         }
 
         if (isLocked) {
+            // Locks with their own protection level name it; the rest follow the setting
+            const protectionLevel = this.lockorManager.getProtectionLevel(uri);
+            const levelNote = this.lockorManager.hasOwnProtectionLevel(uri) ? ` (${protectionLevel})` : '';
             this.statusBarItem.text = '🔒 Locked';
-            this.statusBarItem.tooltip = `File "${fileName}" is locked. Click to unlock.`;
-            this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+            const metadataNote = formatLockMetadata(this.lockorManager.getLockMetadata(uri));
+            this.statusBarItem.tooltip = `File "${fileName}" is locked${levelNote}. Click to unlock.${metadataNote ? `\n${metadataNote}` : ''}`;
+            this.statusBarItem.backgroundColor = new vscode.ThemeColor(
+                protectionLevel === 'hard' ? 'statusBarItem.errorBackground' : 'statusBarItem.warningBackground'
+            );
+            this.statusBarItem.show();
+        } else if (this.temporaryUnlockManager?.getTemporaryUnlock(uri)) {
+            // Temporarily unlocked - count down to the automatic re-lock
+            const relock = this.temporaryUnlockManager.describeRelock(this.temporaryUnlockManager.getTemporaryUnlock(uri)!);
+            this.statusBarItem.text = `🔓 ${relock}`;
+            this.statusBarItem.tooltip = `File "${fileName}" is temporarily unlocked (re-locks: ${relock}). Click to lock now.`;
+            this.statusBarItem.backgroundColor = undefined;
             this.statusBarItem.show();
         } else {
             // Show unlocked status - keep it visible at all times
@@ -0,0 +1,265 @@
+/**
+ * TemporaryUnlockManager - Unlocks files for a while and locks them again
+ *
+ * A temporary unlock re-locks the file after a duration, after its next save,
+ * or once its last editor tab closes. Pending re-locks are kept in workspace
+ * state so they survive a window reload.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { LockorManager } from './lockor-manager';
+import { ProtectionLevel } from './protection-level';
+import { LockMetadata } from './lock-metadata';
+
+export type RelockTrigger = 'duration' | 'save' | 'close';
+
+export interface TemporaryUnlock {
+    trigger: RelockTrigger;
+    // Epoch milliseconds, only for the 'duration' trigger
+    relockAt?: number;
+    level?: ProtectionLevel;
+    metadata?: LockMetadata;
+}
+
+type RelockQuickPickItem = vscode.QuickPickItem & { trigger: RelockTrigger | 'custom'; minutes?: number };
+
+export class TemporaryUnlockManager implements vscode.Disposable {
+    private static readonly TEMPORARY_UNLOCKS_KEY = 'lockor.temporaryUnlocks';
+    private unlocks: Map<string, TemporaryUnlock> = new Map();
+    private countdownTimer: NodeJS.Timeout | undefined;
+    // Fires when a temporary unlock starts or ends, and on every countdown tick
+    private changeEmitter = new vscode.EventEmitter<void>();
+    public readonly onDidChangeUnlocks = this.changeEmitter.event;
+
+    constructor(private context: vscode.ExtensionContext, private lockorManager: LockorManager) {
+        const stored = this.context.workspaceState.get<Record<string, TemporaryUnlock>>(TemporaryUnlockManager.TEMPORARY_UNLOCKS_KEY, {}) ?? {};
+        this.unlocks = new Map(Object.entries(stored));
+    }
+
+    /**
+     * Save pending re-locks to workspace state
+     */
+    private saveUnlocks(): void {
+        this.context.workspaceState.update(TemporaryUnlockManager.TEMPORARY_UNLOCKS_KEY, Object.fromEntries(this.unlocks));
+    }
+
+    /**
+     * Ask how long to unlock a file for, then unlock it
+     */
+    public async promptTemporaryUnlock(uri: vscode.Uri): Promise<void> {
+        const config = vscode.workspace.getConfiguration('lockor');
+        const defaultMinutes = config.get<number>('temporaryUnlockMinutes', 15);
+
+        const items: RelockQuickPickItem[] = [
+            { label: `For ${defaultMinutes} minutes`, description: 'lockor.temporaryUnlockMinutes', trigger: 'duration', minutes: defaultMinutes },
+            { label: 'For a custom duration...', trigger: 'custom' },
+            { label: 'Until the next save', trigger: 'save' },
+            { label: 'Until its editors are closed', trigger: 'close' }
+        ];
+        const selection = await vscode.window.showQuickPick(items, {
+            placeHolder: `Re-lock "${path.basename(uri.fsPath)}" automatically...`
+        });
+        if (!selection) {
+            return;
+        }
+
+        if (selection.trigger === 'custom') {
+            const input = await vscode.window.showInputBox({
+                prompt: 'Minutes until the file is locked again',
+                value: String(defaultMinutes),
+                validateInput: value => Number(value) > 0 ? undefined : 'Enter a positive number of minutes'
+            });
+            if (input) {
+                await this.unlockTemporarily(uri, 'duration', Number(input));
+            }
+            return;
+        }
+
+        await this.unlockTemporarily(uri, selection.trigger, selection.minutes);
+    }
+
+    /**
+     * Unlock a file and schedule it to be locked again
+     */
+    public async unlockTemporarily(uri: vscode.Uri, trigger: RelockTrigger, minutes?: number): Promise<void> {
+        const key = uri.fsPath;
+        const level = this.lockorManager.hasOwnProtectionLevel(uri) ? this.lockorManager.getProtectionLevel(uri) : undefined;
+        const metadata = this.lockorManager.getLockMetadata(uri);
+        // Only a lock of its own can be lifted, or relock() would lock a file that never was
+        const ownLock = this.lockorManager.getLockedFiles().includes(key) || this.lockorManager.getLockedFolders().includes(key);
+
+        await this.lockorManager.unlockFile(uri);
+        if (!ownLock || this.lockorManager.isFileLocked(uri)) {
+            return; // Not locked, or locked by a folder or pattern; unlockFile already explained why
+        }
+
+        const unlock: TemporaryUnlock = { trigger, level, metadata };
+        if (trigger === 'duration') {
+            unlock.relockAt = Date.now() + (minutes ?? 15) * 60 * 1000;
+        }
+        this.unlocks.set(key, unlock);
+        this.saveUnlocks();
+        console.log(`Lockor: Temporarily unlocked ${key} until ${this.describeRelock(unlock)}`);
+
+        this.startCountdown();
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * Get the pending re-lock for a file, if it is temporarily unlocked
+     */
+    public getTemporaryUnlock(uri: vscode.Uri): TemporaryUnlock | undefined {
+        return this.unlocks.get(uri.fsPath);
+    }
+
+    /**
+     * Describe when a file will be locked again, e.g. "4:59" or "next save"
+     */
+    public describeRelock(unlock: TemporaryUnlock): string {
+        if (unlock.trigger === 'save') {
+            return 'next save';
+        }
+        if (unlock.trigger === 'close') {
+            return 'editors closed';
+        }
+
+        const remainingSeconds = Math.max(0, Math.ceil(((unlock.relockAt ?? 0) - Date.now()) / 1000));
+        const minutes = Math.floor(remainingSeconds / 60);
+        const seconds = remainingSeconds % 60;
+        return `${minutes}:${String(seconds).padStart(2, '0')}`;
+    }
+
+    /**
+     * Re-lock anything that expired or closed while the window was gone, then resume countdowns
+     */
+    public async restore(): Promise<void> {
+        for (const [filePath, unlock] of this.unlocks) {
+            const expired = unlock.trigger === 'duration' && (unlock.relockAt ?? 0) <= Date.now();
+            const closed = unlock.trigger === 'close' && !this.isOpenInEditor(filePath);
+            if (expired || closed) {
+                await this.relock(filePath);
+            }
+        }
+        this.startCountdown();
+    }
+
+    /**
+     * Re-lock files unlocked until their next save
+     */
+    public async handleDocumentSaved(document: vscode.TextDocument): Promise<void> {
+        if (this.unlocks.get(document.uri.fsPath)?.trigger === 'save') {
+            await this.relock(document.uri.fsPath);
+        }
+    }
+
+    /**
+     * Re-lock files unlocked until their editors close, once no tab shows them
+     */
+    public async handleTabsChanged(): Promise<void> {
+        for (const [filePath, unlock] of this.unlocks) {
+            if (unlock.trigger === 'close' && !this.isOpenInEditor(filePath)) {
+                await this.relock(filePath);
+            }
+        }
+    }
+
+    /**
+     * Move pending re-locks along with renamed or moved files
+     */
+    public handleFilesRenamed(files: readonly { oldUri: vscode.Uri; newUri: vscode.Uri }[]): void {
+        let moved = false;
+        for (const { oldUri, newUri } of files) {
+            for (const [filePath, unlock] of Array.from(this.unlocks)) {
+                if (filePath === oldUri.fsPath || filePath.startsWith(oldUri.fsPath + path.sep)) {
+                    this.unlocks.delete(filePath);
+                    this.unlocks.set(newUri.fsPath + filePath.slice(oldUri.fsPath.length), unlock);
+                    moved = true;
+                }
+            }
+        }
+        if (moved) {
+            this.saveUnlocks();
+        }
+    }
+
+    /**
+     * Check whether any editor tab shows a file
+     */
+    private isOpenInEditor(filePath: string): boolean {
+        return vscode.window.tabGroups.all.some(group =>
+            group.tabs.some(tab => (tab.input as { uri?: vscode.Uri } | undefined)?.uri?.fsPath === filePath)
+        );
+    }
+
+    /**
+     * Lock a temporarily unlocked file again
+     */
+    private async relock(filePath: string): Promise<void> {
+        const unlock = this.unlocks.get(filePath);
+        this.unlocks.delete(filePath);
+        this.saveUnlocks();
+
+        const uri = vscode.Uri.file(filePath);
+        if (!unlock || this.lockorManager.isFileLocked(uri)) {
+            return; // Locked again by hand in the meantime
+        }
+
+        console.log(`Lockor: Re-locking ${filePath} after temporary unlock`);
+        // Restore the original reason, author and time instead of prompting again
+        await this.lockorManager.lockFile(uri, unlock.level, unlock.metadata ?? {});
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * Tick once a second while a duration unlock is pending, re-locking and refreshing the countdown
+     */
+    private startCountdown(): void {
+        const hasDurationUnlocks = () => Array.from(this.unlocks.values()).some(unlock => unlock.trigger === 'duration');
+        if (this.countdownTimer || !hasDurationUnlocks()) {
+            return;
+        }
+
+        this.countdownTimer = setInterval(() => {
+            this.tick().catch(error => {
+                console.error('Lockor: Failed to re-lock temporarily unlocked files:', error);
+            }).finally(() => {
+                if (!hasDurationUnlocks()) {
+                    this.stopCountdown();
+                }
+                this.changeEmitter.fire();
+            });
+        }, 1000);
+    }
+
+    /**
+     * Re-lock expired unlocks, once a second while any are counting down
+     */
+    private async tick(): Promise<void> {
+        for (const [filePath, unlock] of this.unlocks) {
+            // Files locked again by hand just drop their pending re-lock
+            const expired = unlock.trigger === 'duration' && (unlock.relockAt ?? 0) <= Date.now();
+            if (expired || this.lockorManager.isFileLocked(vscode.Uri.file(filePath))) {
+                await this.relock(filePath);
+            }
+        }
+    }
+
+    /**
+     * Stop the countdown timer
+     */
+    private stopCountdown(): void {
+        if (this.countdownTimer) {
+            clearInterval(this.countdownTimer);
+            this.countdownTimer = undefined;
+        }
+    }
+
+    /**
+     * Clean up resources; pending re-locks stay in workspace state for the next session
+     */
+    public dispose(): void {
+        this.stopCountdown();
+        this.changeEmitter.dispose();
+    }
+}
@@ -0,0 +1,115 @@
+/**
+ * UnlockRequestManager - Prompts the user when an agent asks to unlock a file
+ *
+ * The Lockor MCP server runs outside VS Code and can't show anything itself, so
+ * its request_unlock tool drops a request file into a directory per workspace
+ * folder (see unlock-requests.ts). This manager watches those directories, asks
+ * the user, unlocks the file if they agree and writes the answer back.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { LockorManager } from './lockor-manager';
+import { TemporaryUnlockManager } from './temporary-unlock-manager';
+import {
+    EDITOR_FILE_NAME,
+    getUnlockRequestDir,
+    REQUEST_SUFFIX,
+    RESPONSE_SUFFIX,
+    UnlockDecision,
+    UnlockRequest
+} from './unlock-requests';
+
+export class UnlockRequestManager implements vscode.Disposable {
+    private watchers: vscode.Disposable[] = [];
+
+    constructor(private lockorManager: LockorManager, private temporaryUnlockManager: TemporaryUnlockManager) {}
+
+    /**
+     * Announce this editor to MCP servers and watch for unlock requests in every workspace folder
+     */
+    public async watch(): Promise<void> {
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const directory = vscode.Uri.file(getUnlockRequestDir(folder.uri.fsPath));
+            try {
+                await vscode.workspace.fs.createDirectory(directory);
+                await vscode.workspace.fs.writeFile(
+                    vscode.Uri.joinPath(directory, EDITOR_FILE_NAME),
+                    Buffer.from(JSON.stringify({ pid: process.pid, root: folder.uri.fsPath }), 'utf8')
+                );
+            } catch (error) {
+                console.warn(`Lockor: Could not listen for unlock requests for ${folder.uri.fsPath}:`, error);
+                continue;
+            }
+
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(directory, `*${REQUEST_SUFFIX}`));
+            watcher.onDidCreate(uri => {
+                this.handleRequest(uri, folder).catch(error => {
+                    console.error('Lockor: Failed to handle unlock request:', error);
+                });
+            });
+            this.watchers.push(watcher);
+        }
+    }
+
+    /**
+     * Ask the user about an unlock request and write their answer next to it
+     */
+    public async handleRequest(requestUri: vscode.Uri, folder: vscode.WorkspaceFolder): Promise<UnlockDecision | undefined> {
+        let request: UnlockRequest;
+        try {
+            request = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(requestUri)).toString('utf8'));
+        } catch {
+            return undefined; // Already answered and removed, or cut short
+        }
+
+        const uri = vscode.Uri.file(path.join(folder.uri.fsPath, ...request.path.split('/')));
+        console.log(`Lockor: Agent requested unlock of ${uri.fsPath}: ${request.reason}`);
+        const selection = await vscode.window.showWarningMessage(
+            `🤖 An agent asks to unlock "${request.path}": ${request.reason}`,
+            'Unlock', 'Unlock Temporarily', 'Deny'
+        );
+
+        // The MCP server removes requests that waited too long; the agent has moved on by then
+        try {
+            await vscode.workspace.fs.stat(requestUri);
+        } catch {
+            console.log(`Lockor: Unlock request for ${uri.fsPath} expired before it was answered`);
+            return undefined;
+        }
+
+        let decision: UnlockDecision = 'denied';
+        if (selection === 'Unlock') {
+            await this.lockorManager.unlockFile(uri);
+        } else if (selection === 'Unlock Temporarily') {
+            await this.temporaryUnlockManager.promptTemporaryUnlock(uri);
+        }
+        // The unlock commands explain themselves when the file stays locked, e.g. through a pattern
+        if (selection && selection !== 'Deny' && !this.lockorManager.isFileLocked(uri)) {
+            decision = selection === 'Unlock' ? 'unlocked' : 'temporarily-unlocked';
+        }
+
+        // Written aside and moved into place, so the MCP server never reads half an answer
+        const responseUri = vscode.Uri.file(requestUri.fsPath.slice(0, -REQUEST_SUFFIX.length) + RESPONSE_SUFFIX);
+        const partialUri = vscode.Uri.file(responseUri.fsPath + '.partial');
+        await vscode.workspace.fs.writeFile(partialUri, Buffer.from(JSON.stringify({ id: request.id, decision }), 'utf8'));
+        await vscode.workspace.fs.rename(partialUri, responseUri, { overwrite: true });
+        return decision;
+    }
+
+    /**
+     * Stop watching and tell MCP servers nobody is listening any more, unless another window took over
+     */
+    public dispose(): void {
+        this.watchers.forEach(watcher => watcher.dispose());
+        this.watchers = [];
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const editorFile = vscode.Uri.joinPath(vscode.Uri.file(getUnlockRequestDir(folder.uri.fsPath)), EDITOR_FILE_NAME);
+            Promise.resolve(vscode.workspace.fs.readFile(editorFile)).then(content => {
+                if (JSON.parse(Buffer.from(content).toString('utf8')).pid === process.pid) {
+                    return vscode.workspace.fs.delete(editorFile);
+                }
+            }).catch(() => undefined);
+        }
+    }
+}
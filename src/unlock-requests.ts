@@ -0,0 +1,74 @@
+/**
+ * Unlock requests - File-based channel between the MCP server and a running editor
+ *
+ * The MCP server runs as a separate process started by an agent, so it asks for an
+ * unlock by writing `<id>.request.json` to a directory in the system temp folder
+ * keyed by the workspace folder. The extension watches that directory, asks the
+ * user, and writes `<id>.response.json`. While the extension runs it keeps
+ * `editor.json` there with its process id, so the server knows someone can answer.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+export const EDITOR_FILE_NAME = 'editor.json';
+export const REQUEST_SUFFIX = '.request.json';
+export const RESPONSE_SUFFIX = '.response.json';
+
+export type UnlockDecision = 'unlocked' | 'temporarily-unlocked' | 'denied';
+
+export interface UnlockRequest {
+    id: string;
+    // Relative to the workspace folder, forward slashes
+    path: string;
+    reason: string;
+    requestedAt: string;
+}
+
+export interface UnlockResponse {
+    id: string;
+    decision: UnlockDecision;
+}
+
+/**
+ * Directory holding the unlock requests of a workspace folder
+ */
+export function getUnlockRequestDir(root: string): string {
+    // The editor and an agent may reach the same folder through different spellings of its path
+    let resolved = path.resolve(root);
+    try {
+        resolved = fs.realpathSync(resolved);
+    } catch {
+        // Keep the resolved path when the folder can't be read
+    }
+    if (process.platform === 'win32') {
+        resolved = resolved.toLowerCase();
+    }
+    const key = createHash('sha256').update(resolved).digest('hex').slice(0, 16);
+    return path.join(os.tmpdir(), 'lockor', key);
+}
+
+/**
+ * Check whether an editor with Lockor running has this workspace folder open
+ */
+export function isEditorListening(root: string): boolean {
+    let pid: unknown;
+    try {
+        pid = JSON.parse(fs.readFileSync(path.join(getUnlockRequestDir(root), EDITOR_FILE_NAME), 'utf8')).pid;
+    } catch {
+        return false;
+    }
+    if (typeof pid !== 'number') {
+        return false;
+    }
+    try {
+        // Signal 0 only checks that the process exists
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        // EPERM: the process exists but belongs to another user
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}
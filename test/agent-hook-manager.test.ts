@@ -0,0 +1,121 @@
+/**
+ * Unit tests for AgentHookManager class
+ * Tests writing and removing the agent CLI hook to follow the lockor.agentHooks setting
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AgentHookManager } from '../src/agent-hook-manager';
+import { applyAgentHookSettings, buildAgentHookScript } from '../src/agent-hook';
+import { mockVSCode } from './setup';
+
+describe('AgentHookManager', () => {
+  let manager: AgentHookManager;
+  let files: Map<string, string>;
+  let enabled: boolean;
+  const scriptPath = '/test/workspace/.claude/hooks/lockor-pre-tool-use.cjs';
+  const settingsPath = '/test/workspace/.claude/settings.json';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    files = new Map();
+    enabled = true;
+    mockVSCode.workspace.getConfiguration.mockReturnValue({
+      get: vi.fn((key: string, defaultValue?: any) => key === 'agentHooks' ? enabled : defaultValue),
+      update: vi.fn(async (key: string, value: any) => {
+        if (key === 'agentHooks') {
+          enabled = value;
+        }
+      })
+    });
+    mockVSCode.workspace.fs.readFile.mockImplementation(async (uri: any) => {
+      if (!files.has(uri.fsPath)) {
+        throw new Error('File not found');
+      }
+      return Buffer.from(files.get(uri.fsPath)!, 'utf8');
+    });
+    mockVSCode.workspace.fs.writeFile.mockImplementation(async (uri: any, content: Uint8Array) => {
+      files.set(uri.fsPath, Buffer.from(content).toString('utf8'));
+    });
+    mockVSCode.workspace.fs.delete.mockImplementation(async (uri: any) => {
+      files.delete(uri.fsPath);
+    });
+
+    manager = new AgentHookManager();
+  });
+
+  afterEach(() => {
+    mockVSCode.workspace.fs.readFile.mockRejectedValue(new Error('File not found'));
+    mockVSCode.workspace.fs.writeFile.mockResolvedValue(undefined);
+    mockVSCode.workspace.fs.delete.mockResolvedValue(undefined);
+  });
+
+  it('should write the hook script and settings when the setting is on', async () => {
+    expect(await manager.sync()).toBe(1);
+
+    expect(files.get(scriptPath)).toBe(buildAgentHookScript());
+    expect(files.get(settingsPath)).toBe(applyAgentHookSettings(undefined, true));
+  });
+
+  it('should leave an up-to-date hook alone', async () => {
+    await manager.sync();
+    mockVSCode.workspace.fs.writeFile.mockClear();
+
+    expect(await manager.sync()).toBe(0);
+    expect(mockVSCode.workspace.fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should replace an outdated Lockor script', async () => {
+    files.set(scriptPath, '// lockor:agent-hook\nold version');
+
+    await manager.sync();
+
+    expect(files.get(scriptPath)).toBe(buildAgentHookScript());
+  });
+
+  it('should not overwrite a script that is not Lockor\'s', async () => {
+    files.set(scriptPath, 'console.log("mine")');
+
+    expect(await manager.sync()).toBe(0);
+
+    expect(files.get(scriptPath)).toBe('console.log("mine")');
+    expect(mockVSCode.window.showWarningMessage).toHaveBeenCalledWith(expect.stringContaining("it isn't Lockor's hook"));
+  });
+
+  it('should leave invalid settings untouched', async () => {
+    files.set(settingsPath, '{ broken');
+
+    expect(await manager.sync()).toBe(0);
+
+    expect(files.get(settingsPath)).toBe('{ broken');
+    expect(files.has(scriptPath)).toBe(false);
+  });
+
+  it('should remove the hook but keep other settings when disabled', async () => {
+    files.set(settingsPath, JSON.stringify({ model: 'opus' }));
+    await manager.enableHooks();
+    expect(files.has(scriptPath)).toBe(true);
+
+    await manager.disableHooks();
+
+    expect(enabled).toBe(false);
+    expect(files.has(scriptPath)).toBe(false);
+    expect(JSON.parse(files.get(settingsPath)!)).toEqual({ model: 'opus' });
+  });
+
+  it('should not touch settings without the hook while the setting is off', async () => {
+    enabled = false;
+    files.set(settingsPath, '{}');
+
+    expect(await manager.sync()).toBe(0);
+
+    expect(files.get(settingsPath)).toBe('{}');
+    expect(mockVSCode.workspace.fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should delete settings it created when disabled', async () => {
+    await manager.enableHooks();
+    await manager.disableHooks();
+
+    expect(files.size).toBe(0);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Unit tests for the agent CLI pre-tool-use hook
+ * Feeds hook events to the generated script in a scratch project
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AGENT_HOOK_COMMAND,
+  AGENT_HOOK_MATCHER,
+  applyAgentHookSettings,
+  buildAgentHookScript,
+  isLockorAgentHook
+} from '../src/agent-hook';
+
+// fs and child_process are mocked in setup; the hook needs the real ones
+const fs = await vi.importActual<typeof import('fs')>('fs');
+const { spawnSync } = await vi.importActual<typeof import('child_process')>('child_process');
+
+describe('Agent Hook', () => {
+  let project: string;
+
+  const write = (relativePath: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(project, relativePath)), { recursive: true });
+    fs.writeFileSync(path.join(project, relativePath), content);
+  };
+  const runHook = (toolName: string, filePath: string) => {
+    const hook = path.join(project, '.claude', 'hooks', 'lockor-pre-tool-use.cjs');
+    write('.claude/hooks/lockor-pre-tool-use.cjs', buildAgentHookScript());
+    const event = { hook_event_name: 'PreToolUse', cwd: project, tool_name: toolName, tool_input: { file_path: filePath } };
+    return spawnSync(process.execPath, [hook], {
+      cwd: project,
+      encoding: 'utf8',
+      input: JSON.stringify(event),
+      env: { ...process.env, CLAUDE_PROJECT_DIR: project }
+    });
+  };
+
+  beforeEach(() => {
+    project = fs.mkdtempSync(path.join(os.tmpdir(), 'lockor-agent-hook-'));
+    write('.lockor', [
+      'locked_files:',
+      '  - path: "src/config.ts"',
+      '    level: "hard"',
+      '    reason: "Production settings"',
+      '  - path: "docs/notes.md"',
+      '    level: "soft"',
+      '  - path: "migrations"',
+      '    type: "folder"',
+      'locked_patterns:',
+      '  - pattern: "**/*.lock"'
+    ].join('\n'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(project, { recursive: true, force: true });
+  });
+
+  it('should mark the script as written by Lockor', () => {
+    expect(isLockorAgentHook(buildAgentHookScript())).toBe(true);
+    expect(isLockorAgentHook('console.log("hi")')).toBe(false);
+  });
+
+  it('should deny edits to locked files and explain the lock', () => {
+    const result = runHook('Edit', path.join(project, 'src/config.ts'));
+
+    expect(result.status).toBe(2);
+    expect(result.stderr).toContain('src/config.ts is locked (reason: Production settings) at the hard protection level');
+  });
+
+  it('should deny writes inside locked folders and to files matching lock patterns', () => {
+    expect(runHook('Write', 'migrations/001.sql').status).toBe(2);
+
+    const result = runHook('MultiEdit', path.join(project, 'pnpm.lock'));
+    expect(result.status).toBe(2);
+    expect(result.stderr).toContain('locked by the pattern **/*.lock');
+  });
+
+  it('should apply manifests in subfolders', () => {
+    write('packages/api/.lockor', 'locked_files:\n  - path: "schema.sql"\n');
+
+    expect(runHook('Edit', 'packages/api/schema.sql').status).toBe(2);
+  });
+
+  it('should run in projects that are ES modules', () => {
+    write('package.json', '{ "type": "module" }');
+
+    expect(runHook('Edit', 'src/config.ts').status).toBe(2);
+    expect(runHook('Edit', 'src/app.ts').status).toBe(0);
+  });
+
+  it('should let other edits through', () => {
+    expect(runHook('Edit', 'src/app.ts').status).toBe(0);
+    expect(runHook('Edit', 'docs/notes.md').status).toBe(0);
+    expect(runHook('Edit', path.join(os.tmpdir(), 'elsewhere.ts')).status).toBe(0);
+  });
+
+  it('should ignore input it does not understand', () => {
+    const hook = path.join(project, 'hook.cjs');
+    fs.writeFileSync(hook, buildAgentHookScript());
+
+    expect(spawnSync(process.execPath, [hook], { cwd: project, encoding: 'utf8', input: 'not json' }).status).toBe(0);
+    expect(spawnSync(process.execPath, [hook], { cwd: project, encoding: 'utf8', input: '{"tool_name":"Bash","tool_input":{"command":"ls"}}' }).status).toBe(0);
+  });
+});
+
+describe('applyAgentHookSettings', () => {
+  const lockorEntry = { matcher: AGENT_HOOK_MATCHER, hooks: [{ type: 'command', command: AGENT_HOOK_COMMAND }] };
+  const userEntry = { matcher: 'Bash', hooks: [{ type: 'command', command: './check-command.sh' }] };
+
+  it('should create settings with the Lockor hook', () => {
+    expect(JSON.parse(applyAgentHookSettings(undefined, true)!)).toEqual({ hooks: { PreToolUse: [lockorEntry] } });
+  });
+
+  it('should keep the user\'s settings and hooks', () => {
+    const existing = JSON.stringify({ model: 'opus', hooks: { PreToolUse: [userEntry], Stop: [] } });
+
+    expect(JSON.parse(applyAgentHookSettings(existing, true)!)).toEqual({
+      model: 'opus',
+      hooks: { PreToolUse: [userEntry, lockorEntry], Stop: [] }
+    });
+  });
+
+  it('should not add the hook twice', () => {
+    const once = applyAgentHookSettings(undefined, true);
+
+    expect(applyAgentHookSettings(once, true)).toBe(once);
+  });
+
+  it('should remove only the Lockor hook', () => {
+    const existing = JSON.stringify({ hooks: { PreToolUse: [userEntry, lockorEntry] } });
+
+    expect(JSON.parse(applyAgentHookSettings(existing, false)!)).toEqual({ hooks: { PreToolUse: [userEntry] } });
+  });
+
+  it('should leave nothing when the Lockor hook was all there was', () => {
+    expect(applyAgentHookSettings(applyAgentHookSettings(undefined, true), false)).toBeUndefined();
+  });
+
+  it('should leave settings without the Lockor hook alone when disabled', () => {
+    expect(applyAgentHookSettings('{}', false)).toBe('{}');
+    expect(applyAgentHookSettings('{ "hooks": {} }', false)).toBe('{ "hooks": {} }');
+    expect(applyAgentHookSettings(undefined, false)).toBeUndefined();
+  });
+
+  it('should keep the indentation of existing settings', () => {
+    const existing = '{\n    "model": "opus"\n}';
+    const enabled = applyAgentHookSettings(existing, true)!;
+
+    expect(enabled).toContain('\n    "hooks": {\n        "PreToolUse"');
+    expect(applyAgentHookSettings(enabled.trimEnd(), true)).toBe(enabled.trimEnd());
+    expect(applyAgentHookSettings(enabled, false)).toBe('{\n    "model": "opus"\n}\n');
+  });
+
+  it('should refuse settings that are not a JSON object', () => {
+    expect(() => applyAgentHookSettings('[]', true)).toThrow('is not a JSON object');
+    expect(() => applyAgentHookSettings('{ "hooks": ', true)).toThrow();
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Unit tests for the public Lockor API
+ * Tests the API object handed to other extensions
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createLockorApi, LOCKOR_API_VERSION, LockorApi } from '../src/api';
+
+vi.mock('../src/lock-metadata', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../src/lock-metadata')>(),
+  getGitUserName: vi.fn().mockResolvedValue('Ana')
+}));
+
+describe('Lockor API', () => {
+  let api: LockorApi;
+  let mockLockorManager: any;
+  const onDidChangeLocks = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockLockorManager = {
+      isFileLocked: vi.fn().mockReturnValue(true),
+      lockFile: vi.fn().mockResolvedValue(undefined),
+      unlockFile: vi.fn().mockResolvedValue(undefined),
+      getOwningFolder: vi.fn().mockReturnValue({ uri: { fsPath: '/test/workspace' } }),
+      getLockedFiles: vi.fn().mockReturnValue(['/test/workspace/schema.sql']),
+      getLockedFolders: vi.fn().mockReturnValue(['/test/workspace/config']),
+      getLockPatterns: vi.fn().mockReturnValue(['**/*.lock']),
+      getProtectionLevel: vi.fn().mockReturnValue('hard'),
+      getDefaultProtectionLevel: vi.fn().mockReturnValue('ai-aware'),
+      getLockMetadata: vi.fn().mockReturnValue({ reason: 'Generated' }),
+      onDidChangeLocks
+    };
+
+    api = createLockorApi(mockLockorManager);
+  });
+
+  it('should expose the API version and lock change event', () => {
+    expect(api.version).toBe(LOCKOR_API_VERSION);
+    expect(api.onDidChangeLocks).toBe(onDidChangeLocks);
+  });
+
+  it('should lock without prompting for a reason', async () => {
+    const uri = { fsPath: '/test/workspace/schema.sql' } as any;
+
+    await api.lock(uri, { level: 'hard', reason: ' Generated ' });
+
+    expect(mockLockorManager.lockFile).toHaveBeenCalledWith(uri, 'hard', expect.objectContaining({
+      reason: 'Generated',
+      author: 'Ana',
+      createdAt: expect.any(String)
+    }));
+  });
+
+  it('should unlock through the lock manager', async () => {
+    const uri = { fsPath: '/test/workspace/schema.sql' } as any;
+
+    await api.unlock(uri);
+
+    expect(mockLockorManager.unlockFile).toHaveBeenCalledWith(uri);
+  });
+
+  it('should list folders, files and patterns with their levels', () => {
+    expect(api.getLocks()).toEqual([
+      { kind: 'folder', uri: expect.objectContaining({ fsPath: '/test/workspace/config' }), level: 'hard', metadata: { reason: 'Generated' } },
+      { kind: 'file', uri: expect.objectContaining({ fsPath: '/test/workspace/schema.sql' }), level: 'hard', metadata: { reason: 'Generated' } },
+      { kind: 'pattern', pattern: '**/*.lock', level: 'ai-aware' }
+    ]);
+  });
+});
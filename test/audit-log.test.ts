@@ -0,0 +1,145 @@
+/**
+ * Unit tests for AuditLog class
+ * Tests recording lock events, retention and the filtered audit log view
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AuditEntry, AuditLog, formatAuditEntry, pruneAuditEntries } from '../src/audit-log';
+import { mockVSCode } from './setup';
+
+describe('AuditLog', () => {
+  let auditLog: AuditLog;
+  let logContent: string | undefined;
+  let outputChannel: { appendLine: ReturnType<typeof vi.fn>; dispose: ReturnType<typeof vi.fn> };
+  const context = { storageUri: { fsPath: '/test/storage' }, globalStorageUri: { fsPath: '/test/global' } } as any;
+
+  const writtenEntries = (): AuditEntry[] =>
+    (logContent ?? '').split('\n').filter(Boolean).map(line => JSON.parse(line));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    logContent = undefined;
+
+    mockVSCode.workspace.getConfiguration.mockReturnValue({
+      get: vi.fn().mockImplementation((key: string, defaultValue: any) => defaultValue)
+    });
+    mockVSCode.workspace.fs.readFile.mockImplementation(async () => {
+      if (logContent === undefined) {
+        throw new Error('File not found');
+      }
+      return Buffer.from(logContent, 'utf8');
+    });
+    mockVSCode.workspace.fs.writeFile.mockImplementation(async (_uri: any, content: Uint8Array) => {
+      logContent = Buffer.from(content).toString('utf8');
+    });
+
+    auditLog = new AuditLog(context);
+    outputChannel = mockVSCode.window.createOutputChannel.mock.results[0].value;
+  });
+
+  afterEach(() => {
+    mockVSCode.workspace.fs.readFile.mockRejectedValue(new Error('File not found'));
+  });
+
+  it('should append events to the log file in workspace storage', async () => {
+    await auditLog.record('lock', { fsPath: '/test/workspace/schema.sql' } as any, { level: 'hard' });
+    await auditLog.record('save-blocked', { fsPath: '/test/workspace/schema.sql' } as any, { level: 'hard' });
+
+    expect(mockVSCode.workspace.fs.writeFile).toHaveBeenLastCalledWith(
+      expect.objectContaining({ fsPath: '/test/storage/audit-log.jsonl' }),
+      expect.anything()
+    );
+    expect(writtenEntries()).toEqual([
+      expect.objectContaining({ event: 'lock', path: '/test/workspace/schema.sql', level: 'hard' }),
+      expect.objectContaining({ event: 'save-blocked', path: '/test/workspace/schema.sql', level: 'hard' })
+    ]);
+  });
+
+  it('should write every event to the output channel', async () => {
+    await auditLog.record('unlock', 'dist/**');
+
+    expect(outputChannel.appendLine).toHaveBeenCalledWith(expect.stringContaining('unlock  pattern dist/**'));
+  });
+
+  it('should keep writing after a line of the log is corrupted', async () => {
+    logContent = '{"time":"2099-01-01T00:00:00.000Z","event":"lock"}\n{"time":';
+
+    await auditLog.record('unlock', { fsPath: '/test/workspace/a.ts' } as any);
+
+    expect(writtenEntries().map(entry => entry.event)).toEqual(['lock', 'unlock']);
+  });
+
+  it('should drop entries older than the retention period', async () => {
+    logContent = JSON.stringify({ time: '2000-01-01T00:00:00.000Z', event: 'lock', path: '/test/workspace/old.ts' }) + '\n';
+
+    await auditLog.record('lock', { fsPath: '/test/workspace/new.ts' } as any);
+
+    expect(writtenEntries().map(entry => entry.path)).toEqual(['/test/workspace/new.ts']);
+  });
+
+  it('should show only the events of the requested file', async () => {
+    await auditLog.record('lock', { fsPath: '/test/workspace/a.ts' } as any);
+    await auditLog.record('lock', { fsPath: '/test/workspace/b.ts' } as any);
+
+    const content = await auditLog.provideTextDocumentContent({ query: 'path=%2Ftest%2Fworkspace%2Fa.ts' } as any);
+
+    expect(content).toContain('/test/workspace/a.ts');
+    expect(content).not.toContain('/test/workspace/b.ts');
+  });
+
+  it('should include events of files inside a requested folder', async () => {
+    await auditLog.record('save-blocked', { fsPath: '/test/workspace/config/prod.json' } as any);
+
+    const content = await auditLog.provideTextDocumentContent({ query: 'path=%2Ftest%2Fworkspace%2Fconfig' } as any);
+
+    expect(content).toContain('/test/workspace/config/prod.json');
+  });
+
+  it('should open the log filtered by the file it was run on', async () => {
+    mockVSCode.workspace.openTextDocument.mockResolvedValue({});
+
+    await auditLog.showAuditLog({ fsPath: '/test/workspace/a.ts' } as any);
+
+    expect(mockVSCode.window.showQuickPick).not.toHaveBeenCalled();
+    expect(mockVSCode.workspace.openTextDocument).toHaveBeenCalledWith(
+      expect.objectContaining({ scheme: 'lockor-audit', query: 'path=%2Ftest%2Fworkspace%2Fa.ts' })
+    );
+  });
+
+  it('should ask which file to show when run without one', async () => {
+    await auditLog.record('lock', { fsPath: '/test/workspace/a.ts' } as any);
+    mockVSCode.window.showQuickPick.mockResolvedValue(undefined);
+
+    await auditLog.showAuditLog();
+
+    const items = mockVSCode.window.showQuickPick.mock.calls[0][0];
+    expect(items.map((item: any) => item.label)).toEqual(['All files', 'a.ts']);
+    expect(mockVSCode.workspace.openTextDocument).not.toHaveBeenCalled();
+  });
+});
+
+describe('pruneAuditEntries', () => {
+  it('should keep entries within the retention period', () => {
+    const now = Date.parse('2025-03-01T00:00:00.000Z');
+    const entries: AuditEntry[] = [
+      { time: '2025-01-01T00:00:00.000Z', event: 'lock' },
+      { time: '2025-02-20T00:00:00.000Z', event: 'unlock' }
+    ];
+
+    expect(pruneAuditEntries(entries, 30, now)).toEqual([entries[1]]);
+  });
+});
+
+describe('formatAuditEntry', () => {
+  it('should show the time, event, file, level and detail', () => {
+    const line = formatAuditEntry({
+      time: '2025-01-31T10:00:00.000Z',
+      event: 'level-change',
+      path: 'src/schema.sql',
+      level: 'hard',
+      detail: 'was ai-aware'
+    });
+
+    expect(line).toBe('2025-01-31 10:00:00  level-change  src/schema.sql (hard) — was ai-aware');
+  });
+});
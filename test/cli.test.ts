@@ -0,0 +1,126 @@
+/**
+ * Unit tests for the lockor CLI
+ * Runs commands against a scratch repository with a .lockor manifest
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// The CLI works on the real file system and git
+vi.unmock('fs');
+vi.unmock('path');
+vi.unmock('child_process');
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { EXIT_ERROR, EXIT_LOCKED, EXIT_OK, main } from '../src/cli';
+import { parseManifest } from '../src/lockor-manifest';
+
+describe('Lockor CLI', () => {
+  let repo: string;
+  let output: { log: ReturnType<typeof vi.fn>; error: ReturnType<typeof vi.fn> };
+
+  const write = (relativePath: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(repo, relativePath)), { recursive: true });
+    fs.writeFileSync(path.join(repo, relativePath), content);
+  };
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf8' });
+  const run = (...args: string[]) => main(args, output, repo);
+  const lastJson = () => JSON.parse(output.log.mock.calls.at(-1)![0]);
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'lockor-cli-'));
+    output = { log: vi.fn(), error: vi.fn() };
+    git('init', '-q');
+    git('config', 'user.name', 'Ana');
+    git('config', 'user.email', 'ana@example.com');
+    write('src/config.ts', 'export const port = 80;');
+    write('src/app.ts', 'app');
+    write('migrations/001_init.sql', 'CREATE TABLE users;');
+    write('.lockor', [
+      'protection_level: "ai-aware"',
+      'locked_files:',
+      '  - path: "migrations"',
+      '    type: "folder"',
+      'locked_patterns:',
+      '  - pattern: "**/*.lock"'
+    ].join('\n'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('should lock files with metadata and a content hash', async () => {
+    expect(await run('lock', 'src/config.ts', '--level', 'hard', '--reason', 'Production settings')).toBe(EXIT_OK);
+
+    const manifest = parseManifest(fs.readFileSync(path.join(repo, '.lockor'), 'utf8'));
+    expect(manifest.files).toContainEqual(expect.objectContaining({
+      path: 'src/config.ts',
+      level: 'hard',
+      reason: 'Production settings',
+      lockedBy: 'Ana',
+      sha256: expect.stringMatching(/^[0-9a-f]{64}$/)
+    }));
+  });
+
+  it('should list locks as JSON', async () => {
+    expect(await run('list', '--json')).toBe(EXIT_OK);
+
+    expect(lastJson()).toEqual({
+      protectionLevel: 'ai-aware',
+      files: [{ path: 'migrations', type: 'folder' }],
+      patterns: [{ pattern: '**/*.lock' }]
+    });
+  });
+
+  it('should exit 1 when a checked path is locked', async () => {
+    expect(await run('check', 'src/app.ts', 'migrations/001_init.sql', '--json')).toBe(EXIT_LOCKED);
+
+    expect(lastJson().results).toEqual([
+      { path: 'src/app.ts', locked: false },
+      { path: 'migrations/001_init.sql', locked: true, level: 'ai-aware', lockedBy: 'folder', entry: 'migrations' }
+    ]);
+    expect(await run('check', 'src/app.ts')).toBe(EXIT_OK);
+  });
+
+  it('should fail verification when the diff touches files locked at the base', async () => {
+    git('add', '.');
+    git('commit', '-qm', 'initial');
+    write('migrations/001_init.sql', 'DROP TABLE users;');
+    write('src/app.ts', 'changed');
+    git('commit', '-qam', 'change');
+
+    expect(await run('verify', '--base', 'HEAD~1', '--json')).toBe(EXIT_LOCKED);
+    expect(lastJson()).toEqual({
+      base: 'HEAD~1',
+      changedFiles: 2,
+      violations: [{ path: 'migrations/001_init.sql', locked: true, level: 'ai-aware', lockedBy: 'folder', entry: 'migrations' }]
+    });
+  });
+
+  it('should detect locked files that no longer match their hash', async () => {
+    await run('lock', 'src/config.ts');
+    expect(await run('verify')).toBe(EXIT_OK);
+
+    write('src/config.ts', 'export const port = 8080;');
+
+    expect(await run('verify', '--json')).toBe(EXIT_LOCKED);
+    expect(lastJson().drifted).toEqual([expect.objectContaining({ path: 'src/config.ts' })]);
+  });
+
+  it('should unlock files and report paths that stay locked', async () => {
+    await run('lock', 'src/config.ts');
+
+    expect(await run('unlock', 'src/config.ts')).toBe(EXIT_OK);
+    expect(await run('unlock', 'migrations/001_init.sql')).toBe(EXIT_LOCKED);
+    expect(output.error).toHaveBeenCalledWith('migrations/001_init.sql is still in locked folder migrations/ (ai-aware)');
+  });
+
+  it('should exit 2 on usage errors', async () => {
+    expect(await run('check')).toBe(EXIT_ERROR);
+    expect(await run('lock', 'src/app.ts', '--level', 'maximum')).toBe(EXIT_ERROR);
+    expect(await run('frobnicate')).toBe(EXIT_ERROR);
+  });
+});
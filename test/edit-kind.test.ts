@@ -0,0 +1,59 @@
+/**
+ * Unit tests for edit classification
+ * Tests telling typing apart from pastes and bulk edits
+ */
+
+import { describe, it, expect } from 'vitest';
+import { classifyEdit, describeEdit, MAX_TYPED_LENGTH } from '../src/edit-kind';
+
+const change = (text: string, rangeLength = 0) => ({ text, rangeLength });
+
+describe('classifyEdit', () => {
+  it('should count keystrokes as typing', () => {
+    expect(classifyEdit([change('a')])).toBe('typing');
+    expect(classifyEdit([change('()')])).toBe('typing');
+    expect(classifyEdit([change('', 1)])).toBe('typing');
+    expect(classifyEdit([change('\n    ')])).toBe('typing');
+    expect(classifyEdit([change('\n    \n')])).toBe('typing');
+  });
+
+  it('should count accepted completions as typing', () => {
+    expect(classifyEdit([change('console.log', 3)])).toBe('typing');
+  });
+
+  it('should count completions that add an import as typing', () => {
+    expect(classifyEdit([change('useState', 3), change("import { useState } from 'react';\n")])).toBe('typing');
+    expect(classifyEdit([change('Path', 2), change('\nfrom pathlib import Path')])).toBe('typing');
+  });
+
+  it('should count keystrokes with format on type as typing', () => {
+    expect(classifyEdit([change('}'), change(' \n    ', 2), change('  ', 4)])).toBe('typing');
+  });
+
+  it('should count identical changes at several cursors as typing', () => {
+    expect(classifyEdit([change('x'), change('x'), change('x')])).toBe('typing');
+    expect(classifyEdit([change('', 1), change('', 1)])).toBe('typing');
+  });
+
+  it('should recognize pastes', () => {
+    expect(classifyEdit([change('const a = 1;\nconst b = 2;')])).toBe('paste');
+    expect(classifyEdit([change('x'.repeat(MAX_TYPED_LENGTH + 1))])).toBe('paste');
+  });
+
+  it('should recognize bulk edits', () => {
+    expect(classifyEdit([change('port = 80;\nhost = "prod";', 4), change('// Settings\n')])).toBe('bulk');
+    expect(classifyEdit([change('x'), change('const a = 1;\nconst b = 2;\n')])).toBe('bulk');
+  });
+
+  it('should leave undo and redo alone', () => {
+    expect(classifyEdit([change('port = 80'), change('host = "prod"')], true)).toBe('undo-redo');
+  });
+});
+
+describe('describeEdit', () => {
+  it('should describe pastes by their line count and bulk edits by their change count', () => {
+    expect(describeEdit('paste', [change('a\nb\nc')])).toBe('a paste of 3 lines');
+    expect(describeEdit('paste', [change('x'.repeat(50))])).toBe('a paste');
+    expect(describeEdit('bulk', [change('a'), change('b')])).toBe('a bulk edit of 2 changes');
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Unit tests for EditRevertManager class
+ * Tests reverting pastes and bulk edits to locked buffers
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EditRevertManager } from '../src/edit-revert-manager';
+import { mockVSCode } from './setup';
+
+describe('EditRevertManager', () => {
+  let manager: EditRevertManager;
+  let mockLockorManager: any;
+  let mockAuditLog: any;
+  let protectionLevel: string;
+  let text: string;
+  let replace: ReturnType<typeof vi.fn>;
+
+  const document = {
+    uri: { fsPath: '/test/workspace/config.ts', scheme: 'file', toString: () => 'file:///test/workspace/config.ts' },
+    isClosed: false,
+    getText: () => text,
+    positionAt: (offset: number) => ({ offset })
+  } as any;
+
+  // Apply changes to the text the way the editor would, then report them
+  const edit = (changes: { rangeOffset: number; rangeLength: number; text: string }[], reason?: number) => {
+    for (const change of [...changes].sort((a, b) => b.rangeOffset - a.rangeOffset)) {
+      text = text.slice(0, change.rangeOffset) + change.text + text.slice(change.rangeOffset + change.rangeLength);
+    }
+    return { document, contentChanges: changes, reason } as any;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    text = 'const port = 80;\n';
+    protectionLevel = 'ai-aware';
+    mockLockorManager = {
+      isFileLocked: vi.fn().mockReturnValue(true),
+      getProtectionLevel: vi.fn(() => protectionLevel)
+    };
+    mockAuditLog = { record: vi.fn().mockResolvedValue(undefined) };
+
+    replace = vi.fn();
+    mockVSCode.WorkspaceEdit.mockImplementation(function () {
+      return { replace };
+    });
+    mockVSCode.Range.mockImplementation(function (start: any, end: any) {
+      return { start, end };
+    });
+    mockVSCode.workspace.getConfiguration.mockReturnValue({
+      get: vi.fn().mockImplementation((key: string, defaultValue: any) => defaultValue)
+    });
+    mockVSCode.workspace.textDocuments = [document];
+
+    manager = new EditRevertManager(mockLockorManager, mockAuditLog);
+    manager.syncDocuments();
+  });
+
+  afterEach(() => {
+    mockVSCode.workspace.textDocuments = [];
+  });
+
+  it('should leave typing alone', async () => {
+    const event = edit([{ rangeOffset: 14, rangeLength: 0, text: '8' }]);
+
+    expect(manager.handlesChange(event)).toBe(false);
+    await manager.handleDocumentChanged(event);
+
+    expect(mockVSCode.workspace.applyEdit).not.toHaveBeenCalled();
+  });
+
+  it('should revert a paste and record it', async () => {
+    const event = edit([{ rangeOffset: 17, rangeLength: 0, text: 'const host = "prod";\nconst debug = false;\n' }]);
+
+    expect(manager.handlesChange(event)).toBe(true);
+    await manager.handleDocumentChanged(event);
+
+    expect(replace).toHaveBeenCalledWith(document.uri, expect.anything(), '');
+    expect(mockVSCode.workspace.applyEdit).toHaveBeenCalled();
+    expect(mockAuditLog.record).toHaveBeenCalledWith('edit-reverted', document.uri, { level: 'ai-aware', detail: 'a paste of 3 lines' });
+    expect(mockVSCode.window.showWarningMessage).toHaveBeenCalledWith(
+      expect.stringContaining('Reverted a paste of 3 lines to "config.ts"'),
+      'Allow This Time'
+    );
+  });
+
+  it('should revert each change of a bulk edit to the text it replaced', async () => {
+    await manager.handleDocumentChanged(edit([
+      { rangeOffset: 0, rangeLength: 0, text: '// Server settings\n' },
+      { rangeOffset: 13, rangeLength: 2, text: 'Number(process.env.PORT) ||\n    80' }
+    ]));
+
+    expect(replace).toHaveBeenCalledWith(document.uri, { start: { offset: 0 }, end: { offset: 19 } }, '');
+    expect(replace).toHaveBeenCalledWith(document.uri, { start: { offset: 32 }, end: { offset: 66 } }, '80');
+  });
+
+  it('should put the edit back when the user allows it', async () => {
+    mockVSCode.window.showWarningMessage.mockResolvedValue('Allow This Time');
+    // The mocked editor doesn't apply the revert, so restore the text by hand
+    mockVSCode.workspace.applyEdit.mockImplementationOnce(async () => {
+      text = 'const port = 80;\n';
+      return true;
+    });
+
+    await manager.handleDocumentChanged(edit([{ rangeOffset: 17, rangeLength: 0, text: 'const host = "prod";\nconst debug = false;\n' }]));
+
+    expect(mockVSCode.workspace.applyEdit).toHaveBeenCalledTimes(2);
+    expect(replace).toHaveBeenLastCalledWith(document.uri, expect.anything(), 'const host = "prod";\nconst debug = false;\n');
+    expect(mockAuditLog.record).toHaveBeenCalledWith('edit-allowed', document.uri, { level: 'ai-aware' });
+  });
+
+  it('should let announced changes through', async () => {
+    manager.expectChange(document.uri, 'const port = 80;\nconst host = "prod";\n');
+    const event = edit([{ rangeOffset: 17, rangeLength: 0, text: 'const host = "prod";\n' }]);
+
+    expect(manager.handlesChange(event)).toBe(true);
+    await manager.handleDocumentChanged(event);
+
+    expect(mockVSCode.workspace.applyEdit).not.toHaveBeenCalled();
+  });
+
+  it('should not revert undo and redo', async () => {
+    const event = edit([{ rangeOffset: 17, rangeLength: 0, text: 'const host = "prod";\nconst debug = false;\n' }], 1);
+
+    expect(manager.handlesChange(event)).toBe(false);
+  });
+
+  it('should only guard ai-aware and hidden locks', async () => {
+    protectionLevel = 'soft';
+
+    await manager.handleDocumentChanged(edit([{ rangeOffset: 17, rangeLength: 0, text: 'a\nb\n' }]));
+
+    expect(mockVSCode.workspace.applyEdit).not.toHaveBeenCalled();
+  });
+
+  it('should not revert anything when turned off', async () => {
+    mockVSCode.workspace.getConfiguration.mockReturnValue({
+      get: vi.fn().mockImplementation((key: string, defaultValue: any) => key === 'revertBulkEdits' ? false : defaultValue)
+    });
+
+    await manager.handleDocumentChanged(edit([{ rangeOffset: 17, rangeLength: 0, text: 'a\nb\n' }]));
+
+    expect(mockVSCode.workspace.applyEdit).not.toHaveBeenCalled();
+  });
+});
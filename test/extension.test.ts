@@ -6,6 +6,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { activate, deactivate } from '../src/extension';
 import { mockVSCode } from './setup';
+import { LockorManager } from '../src/lockor-manager';
+import { StatusBarManager } from '../src/status-bar-manager';
+import { SaveReviewManager } from '../src/save-review-manager';
+import { AuditLog } from '../src/audit-log';
 
 // Mock the classes
 vi.mock('../src/lockor-manager', () => ({
@@ -15,8 +19,142 @@ vi.mock('../src/lockor-manager', () => ({
     toggleFileLock: vi.fn(),
     showLockedFiles: vi.fn(),
     isFileLocked: vi.fn().mockReturnValue(false),
+    getProtectionLevel: vi.fn().mockReturnValue('ai-aware'),
+    getLockMetadata: vi.fn().mockReturnValue(undefined),
+    getDefaultProtectionLevel: vi.fn().mockReturnValue('ai-aware'),
+    setProtectionLevel: vi.fn(),
     getLockedFiles: vi.fn().mockReturnValue([]),
-    updateAllFilePermissions: vi.fn()
+    getLockedFolders: vi.fn().mockReturnValue([]),
+    getLockPatterns: vi.fn().mockReturnValue([]),
+    addLockPattern: vi.fn(),
+    removeLockPattern: vi.fn(),
+    updateAllFilePermissions: vi.fn(),
+    updateCursorRules: vi.fn(),
+    loadManifest: vi.fn().mockResolvedValue(undefined),
+    watchManifest: vi.fn().mockReturnValue({ dispose: vi.fn() }),
+    pruneStaleLocks: vi.fn().mockResolvedValue(undefined),
+    handleFilesRenamed: vi.fn(),
+    handleWillDeleteFiles: vi.fn().mockResolvedValue(undefined),
+    handleFilesDeleted: vi.fn(),
+    getLockHash: vi.fn(),
+    onDidChangeLocks: vi.fn().mockReturnValue({ dispose: vi.fn() })
+  }))
+}));
+
+vi.mock('../src/region-lock-manager', () => ({
+  RegionLockManager: vi.fn().mockImplementation(() => ({
+    lockSelection: vi.fn(),
+    unlockRegionAtCursor: vi.fn(),
+    handleDocumentOpened: vi.fn(),
+    handleDocumentChanged: vi.fn().mockResolvedValue(undefined),
+    handleDocumentSaved: vi.fn(),
+    handleDocumentClosed: vi.fn(),
+    updateDecorations: vi.fn(),
+    dispose: vi.fn()
+  }))
+}));
+
+vi.mock('../src/snapshot-manager', () => ({
+  SnapshotManager: vi.fn().mockImplementation(() => ({
+    watch: vi.fn().mockReturnValue({ dispose: vi.fn() }),
+    syncSnapshots: vi.fn().mockResolvedValue(undefined),
+    handleWillSaveDocument: vi.fn(),
+    handleDocumentSaved: vi.fn().mockResolvedValue(undefined),
+    showDiff: vi.fn(),
+    restoreSnapshot: vi.fn()
+  }))
+}));
+
+vi.mock('../src/integrity-manager', () => ({
+  IntegrityManager: vi.fn().mockImplementation(() => ({
+    verifyLockedFiles: vi.fn().mockResolvedValue([]),
+    handleWillSaveDocument: vi.fn(),
+    handleDocumentSaved: vi.fn().mockResolvedValue(undefined),
+    dispose: vi.fn()
+  }))
+}));
+
+vi.mock('../src/git-hook-manager', () => ({
+  GitHookManager: vi.fn().mockImplementation(() => ({
+    installHook: vi.fn(),
+    uninstallHook: vi.fn()
+  }))
+}));
+
+vi.mock('../src/agent-hook-manager', () => ({
+  AgentHookManager: vi.fn().mockImplementation(() => ({
+    sync: vi.fn().mockResolvedValue(0),
+    enableHooks: vi.fn(),
+    disableHooks: vi.fn()
+  }))
+}));
+
+vi.mock('../src/locked-files-view', () => ({
+  LockedFilesView: vi.fn().mockImplementation(() => ({
+    refresh: vi.fn(),
+    unlock: vi.fn(),
+    reveal: vi.fn(),
+    open: vi.fn(),
+    dispose: vi.fn()
+  }))
+}));
+
+vi.mock('../src/lock-decoration-provider', () => ({
+  LockDecorationProvider: vi.fn().mockImplementation(() => ({
+    refresh: vi.fn(),
+    dispose: vi.fn()
+  }))
+}));
+
+vi.mock('../src/read-only-editor-manager', () => ({
+  ReadOnlyEditorManager: vi.fn().mockImplementation(() => ({
+    updateActiveEditor: vi.fn().mockResolvedValue(undefined)
+  }))
+}));
+
+vi.mock('../src/edit-revert-manager', () => ({
+  EditRevertManager: vi.fn().mockImplementation(() => ({
+    handlesChange: vi.fn().mockReturnValue(false),
+    handleDocumentChanged: vi.fn().mockResolvedValue(undefined),
+    handleDocumentClosed: vi.fn(),
+    syncDocuments: vi.fn(),
+    dispose: vi.fn()
+  }))
+}));
+
+vi.mock('../src/save-review-manager', () => ({
+  SaveReviewManager: vi.fn().mockImplementation(() => ({
+    handleWillSaveDocument: vi.fn().mockReturnValue(undefined),
+    restore: vi.fn().mockResolvedValue(undefined),
+    dispose: vi.fn()
+  }))
+}));
+
+vi.mock('../src/audit-log', () => ({
+  AuditLog: vi.fn().mockImplementation(() => ({
+    record: vi.fn().mockResolvedValue(undefined),
+    showAuditLog: vi.fn().mockResolvedValue(undefined),
+    dispose: vi.fn()
+  }))
+}));
+
+vi.mock('../src/unlock-request-manager', () => ({
+  UnlockRequestManager: vi.fn().mockImplementation(() => ({
+    watch: vi.fn().mockResolvedValue(undefined),
+    dispose: vi.fn()
+  }))
+}));
+
+vi.mock('../src/temporary-unlock-manager', () => ({
+  TemporaryUnlockManager: vi.fn().mockImplementation(() => ({
+    promptTemporaryUnlock: vi.fn(),
+    restore: vi.fn().mockResolvedValue(undefined),
+    handleDocumentSaved: vi.fn().mockResolvedValue(undefined),
+    handleTabsChanged: vi.fn().mockResolvedValue(undefined),
+    handleFilesRenamed: vi.fn(),
+    getTemporaryUnlock: vi.fn(),
+    onDidChangeUnlocks: vi.fn().mockReturnValue({ dispose: vi.fn() }),
+    dispose: vi.fn()
   }))
 }));
 
@@ -86,14 +224,32 @@ describe('Extension', () => {
       const expectedCommands = [
         'lockor.lockFile',
         'lockor.unlockFile',
+        'lockor.unlockTemporarily',
+        'lockor.lockFileWithLevel',
+        'lockor.setProtectionLevel',
         'lockor.toggleLock',
+        'lockor.lockSelection',
+        'lockor.unlockRegion',
+        'lockor.showExternalChanges',
+        'lockor.restoreLockedVersion',
+        'lockor.verifyLockedFiles',
+        'lockor.installGitHook',
+        'lockor.uninstallGitHook',
+        'lockor.enableAgentHook',
+        'lockor.disableAgentHook',
         'lockor.showLockedFiles',
+        'lockor.showAuditLog',
+        'lockor.copyMcpServerConfig',
+        'lockor.lockedFiles.unlock',
+        'lockor.lockedFiles.reveal',
+        'lockor.lockedFiles.open',
+        'lockor.lockedFiles.refresh',
+        'lockor.addLockPattern',
+        'lockor.removeLockPattern',
         'lockor.isFileLocked',
         'lockor.getLockedFiles',
         'lockor.debugAIContext',
-        'lockor.getLockStatusInfo',
-        'lockor.internal.refreshStatusBar',
-        'lockor.internal.updateAIContext'
+        'lockor.getLockStatusInfo'
       ];
 
       expectedCommands.forEach(command => {
@@ -117,6 +273,32 @@ describe('Extension', () => {
       activate(mockContext);
       expect(mockContext.subscriptions.push).toHaveBeenCalled();
     });
+
+    it('should register the lock check tool for chat agents', () => {
+      activate(mockContext);
+
+      expect(mockVSCode.lm.registerTool).toHaveBeenCalledWith('lockor_checkPaths', expect.any(Object));
+    });
+
+    it('should return the versioned API', () => {
+      const api = activate(mockContext);
+
+      expect(api.version).toBe(1);
+      expect(typeof api.isLocked).toBe('function');
+      expect(typeof api.getLocks).toBe('function');
+    });
+
+    it('should refresh the status bar when locks change', async () => {
+      activate(mockContext);
+      const lockorManager = vi.mocked(LockorManager).mock.results.at(-1)!.value;
+      const statusBarManager = vi.mocked(StatusBarManager).mock.results.at(-1)!.value;
+      statusBarManager.updateStatusBar.mockClear();
+
+      const listener = lockorManager.onDidChangeLocks.mock.calls[0][0];
+      await listener({ uris: [] });
+
+      expect(statusBarManager.updateStatusBar).toHaveBeenCalled();
+    });
   });
 
   describe('Command Execution', () => {
@@ -250,6 +432,24 @@ describe('Extension', () => {
       expect(() => saveHandler!(mockEvent)).not.toThrow();
     });
 
+    it('should leave saves held for review to the review', () => {
+      const lockorManager = vi.mocked(LockorManager).mock.results.at(-1)!.value;
+      const saveReviewManager = vi.mocked(SaveReviewManager).mock.results.at(-1)!.value;
+      const auditLog = vi.mocked(AuditLog).mock.results.at(-1)!.value;
+      lockorManager.isFileLocked.mockReturnValue(true);
+      lockorManager.getProtectionLevel.mockReturnValue('soft');
+      saveReviewManager.handleWillSaveDocument.mockReturnValue('reviewing');
+
+      eventHandlers.get('onWillSaveTextDocument')!({
+        document: { uri: { fsPath: '/test/file.txt' }, fileName: 'file.txt' },
+        waitUntil: vi.fn()
+      });
+
+      expect(saveReviewManager.handleWillSaveDocument).toHaveBeenCalled();
+      expect(auditLog.record).not.toHaveBeenCalledWith('save-allowed', expect.anything(), expect.anything());
+      expect(mockVSCode.window.showWarningMessage).not.toHaveBeenCalled();
+    });
+
     it('should handle document change events', () => {
       const changeHandler = eventHandlers.get('onDidChangeTextDocument');
       expect(changeHandler).toBeDefined();
@@ -0,0 +1,85 @@
+/**
+ * Unit tests for GitHookManager class
+ * Tests installing and removing the pre-commit hook next to existing hooks
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import { GitHookManager } from '../src/git-hook-manager';
+import { buildPreCommitHook } from '../src/git-hook';
+import { mockVSCode } from './setup';
+
+describe('GitHookManager', () => {
+  let gitHookManager: GitHookManager;
+  let files: Map<string, string>;
+  const hookPath = '/test/workspace/.git/hooks/pre-commit';
+  const backupPath = '/test/workspace/.git/hooks/pre-commit.lockor-backup';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    files = new Map();
+    vi.mocked(execFile).mockImplementation(((file: string, args: string[], options: any, callback: any) => {
+      callback(null, '.git/hooks\n', '');
+    }) as any);
+    vi.spyOn(fs, 'chmod').mockImplementation(((filePath: any, mode: any, callback: any) => callback(null)) as any);
+    mockVSCode.workspace.fs.readFile.mockImplementation(async (uri: any) => {
+      if (!files.has(uri.fsPath)) {
+        throw new Error('File not found');
+      }
+      return Buffer.from(files.get(uri.fsPath)!);
+    });
+    mockVSCode.workspace.fs.writeFile.mockImplementation(async (uri: any, content: Uint8Array) => {
+      files.set(uri.fsPath, Buffer.from(content).toString('utf8'));
+    });
+    mockVSCode.workspace.fs.rename.mockImplementation(async (source: any, target: any) => {
+      files.set(target.fsPath, files.get(source.fsPath)!);
+      files.delete(source.fsPath);
+    });
+    mockVSCode.workspace.fs.delete.mockImplementation(async (uri: any) => {
+      files.delete(uri.fsPath);
+    });
+
+    gitHookManager = new GitHookManager();
+  });
+
+  it('should install an executable hook in the repository', async () => {
+    await gitHookManager.installHook();
+
+    expect(files.get(hookPath)).toBe(buildPreCommitHook());
+    expect(fs.chmod).toHaveBeenCalledWith(hookPath, 0o755, expect.any(Function));
+    expect(mockVSCode.window.showInformationMessage).toHaveBeenCalledWith(expect.stringContaining('Installed the Lockor pre-commit hook in 1 repository'));
+  });
+
+  it('should keep an existing hook as a backup and restore it on uninstall', async () => {
+    files.set(hookPath, '#!/bin/sh\nnpm run lint\n');
+
+    await gitHookManager.installHook();
+    expect(files.get(backupPath)).toBe('#!/bin/sh\nnpm run lint\n');
+
+    await gitHookManager.uninstallHook();
+    expect(files.get(hookPath)).toBe('#!/bin/sh\nnpm run lint\n');
+    expect(files.has(backupPath)).toBe(false);
+  });
+
+  it('should leave foreign hooks alone on uninstall', async () => {
+    files.set(hookPath, '#!/bin/sh\nnpm run lint\n');
+
+    await gitHookManager.uninstallHook();
+
+    expect(files.get(hookPath)).toBe('#!/bin/sh\nnpm run lint\n');
+    expect(mockVSCode.window.showInformationMessage).toHaveBeenCalledWith('No Lockor pre-commit hook is installed');
+  });
+
+  it('should warn when the workspace is not a git repository', async () => {
+    vi.mocked(execFile).mockImplementation(((file: string, args: string[], options: any, callback: any) => {
+      callback(new Error('not a git repository'), '', '');
+    }) as any);
+
+    await gitHookManager.installHook();
+
+    expect(mockVSCode.window.showWarningMessage).toHaveBeenCalledWith('No git repository found in the workspace');
+    expect(files.size).toBe(0);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the git pre-commit hook
+ * Runs the generated hook against staged changes in a scratch repository
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import { ALLOW_LOCKED_COMMIT_ENV, buildPreCommitHook, isLockorHook } from '../src/git-hook';
+
+// fs and child_process are mocked in setup; the hook needs the real ones
+const fs = await vi.importActual<typeof import('fs')>('fs');
+const { execFileSync, spawnSync } = await vi.importActual<typeof import('child_process')>('child_process');
+
+describe('Git Pre-Commit Hook', () => {
+  let repo: string;
+
+  const write = (relativePath: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(repo, relativePath)), { recursive: true });
+    fs.writeFileSync(path.join(repo, relativePath), content);
+  };
+  const stage = (...paths: string[]) => execFileSync('git', ['add', ...paths], { cwd: repo });
+  const runHook = (env: Record<string, string> = {}) => {
+    const hook = path.join(repo, '.git', 'hooks', 'pre-commit');
+    fs.writeFileSync(hook, buildPreCommitHook(), { mode: 0o755 });
+    return spawnSync(process.execPath, [hook], { cwd: repo, encoding: 'utf8', env: { ...process.env, ...env } });
+  };
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'lockor-hook-'));
+    execFileSync('git', ['init', '-q'], { cwd: repo });
+    write('.lockor', [
+      'locked_files:',
+      '  - path: "src/config.ts"',
+      '    reason: "Production settings"',
+      '  - path: "migrations"',
+      '    type: "folder"',
+      'locked_patterns:',
+      '  - pattern: "**/*.lock"'
+    ].join('\n'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('should mark the script as written by Lockor', () => {
+    expect(isLockorHook(buildPreCommitHook())).toBe(true);
+    expect(isLockorHook('#!/bin/sh\nnpm test\n')).toBe(false);
+  });
+
+  it('should allow commits that leave locked files alone', () => {
+    write('src/app.ts', 'app');
+    stage('src/app.ts', '.lockor');
+
+    expect(runHook().status).toBe(0);
+  });
+
+  it('should reject staged changes to locked files, folders and patterns', () => {
+    write('src/config.ts', 'changed');
+    write('migrations/001_init.sql', 'changed');
+    write('web/pnpm.lock', 'changed');
+    stage('.');
+
+    const result = runHook();
+
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain('src/config.ts (locked, ai-aware - Production settings)');
+    expect(result.stderr).toContain('migrations/001_init.sql (in locked folder migrations');
+    expect(result.stderr).toContain('web/pnpm.lock (matches lock pattern **/*.lock)');
+  });
+
+  it('should apply manifests in subfolders to their own paths', () => {
+    write('packages/api/.lockor', 'locked_files:\n  - path: "schema.sql"\n');
+    write('packages/api/schema.sql', 'changed');
+    stage('packages');
+
+    expect(runHook().stderr).toContain('packages/api/schema.sql');
+  });
+
+  it('should run in packages that are ES modules', () => {
+    write('package.json', '{ "type": "module" }');
+    write('src/app.ts', 'app');
+    stage('package.json', 'src/app.ts');
+    expect(runHook().status).toBe(0);
+
+    write('src/config.ts', 'changed');
+    stage('src/config.ts');
+    const result = runHook();
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain('src/config.ts (locked');
+  });
+
+  it('should allow locked changes with the override variable', () => {
+    write('src/config.ts', 'changed');
+    stage('src/config.ts');
+
+    expect(runHook({ [ALLOW_LOCKED_COMMIT_ENV]: '1' }).status).toBe(0);
+  });
+});
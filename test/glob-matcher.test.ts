@@ -0,0 +1,58 @@
+/**
+ * Unit tests for glob matching
+ * Tests glob-to-regex conversion used by pattern lock entries
+ */
+
+import { describe, it, expect } from 'vitest';
+import { globToRegExp, matchesGlob } from '../src/glob-matcher';
+
+describe('Glob Matcher', () => {
+  describe('Wildcards', () => {
+    it('should match single segments with *', () => {
+      expect(matchesGlob('key.pem', '*.pem')).toBe(true);
+      expect(matchesGlob('certs/key.pem', '*.pem')).toBe(false);
+    });
+
+    it('should match any depth with **/', () => {
+      expect(matchesGlob('pnpm.lock', '**/*.lock')).toBe(true);
+      expect(matchesGlob('packages/app/yarn.lock', '**/*.lock')).toBe(true);
+      expect(matchesGlob('packages/app/yarn.lock.bak', '**/*.lock')).toBe(false);
+    });
+
+    it('should match everything below a trailing **', () => {
+      expect(matchesGlob('src/generated/api/client.ts', '**/generated/**')).toBe(true);
+      expect(matchesGlob('generated/types.ts', '**/generated/**')).toBe(true);
+      expect(matchesGlob('src/generator.ts', '**/generated/**')).toBe(false);
+    });
+
+    it('should match a single character with ?', () => {
+      expect(matchesGlob('v1.json', 'v?.json')).toBe(true);
+      expect(matchesGlob('v10.json', 'v?.json')).toBe(false);
+    });
+  });
+
+  describe('Groups and Classes', () => {
+    it('should match brace alternatives', () => {
+      expect(matchesGlob('config/prod.yml', 'config/*.{yml,yaml}')).toBe(true);
+      expect(matchesGlob('config/prod.yaml', 'config/*.{yml,yaml}')).toBe(true);
+      expect(matchesGlob('config/prod.json', 'config/*.{yml,yaml}')).toBe(false);
+    });
+
+    it('should match character classes and negated classes', () => {
+      expect(matchesGlob('file1.txt', 'file[0-9].txt')).toBe(true);
+      expect(matchesGlob('fileA.txt', 'file[!0-9].txt')).toBe(true);
+      expect(matchesGlob('file1.txt', 'file[!0-9].txt')).toBe(false);
+    });
+  });
+
+  describe('Escaping', () => {
+    it('should treat regex characters literally', () => {
+      expect(globToRegExp('a+b(1).txt').test('a+b(1).txt')).toBe(true);
+      expect(matchesGlob('axtxt', 'a.txt')).toBe(false);
+    });
+
+    it('should normalize Windows separators', () => {
+      expect(matchesGlob('src\\generated\\a.ts', 'src/generated/*.ts')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Unit tests for AI ignore files
+ * Tests the Lockor block listing files locked at the "hidden" level
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildIgnoreSection, IGNORE_SECTION_MARKERS, toIgnorePattern } from '../src/ignore-files';
+import { applyManagedSection } from '../src/rule-emitters';
+
+describe('AI Ignore Files', () => {
+  it('should anchor paths at the workspace folder', () => {
+    expect(toIgnorePattern('secrets.env')).toBe('/secrets.env');
+    expect(toIgnorePattern('customers/**')).toBe('/customers/**');
+    expect(toIgnorePattern('**/*.pem')).toBe('**/*.pem');
+  });
+
+  it('should build no block when nothing is hidden', () => {
+    expect(buildIgnoreSection([])).toBeUndefined();
+  });
+
+  it('should add the block below user-authored lines and remove it again', () => {
+    const userLines = 'node_modules/\n# keep build output out too\ndist/\n';
+    const withBlock = applyManagedSection(userLines, buildIgnoreSection(['secrets.env', 'customers/**']), IGNORE_SECTION_MARKERS);
+
+    expect(withBlock).toBe(
+      'node_modules/\n# keep build output out too\ndist/\n\n' +
+      `${IGNORE_SECTION_MARKERS.begin}\n# Files locked at the "hidden" level in Lockor\n/secrets.env\n/customers/**\n${IGNORE_SECTION_MARKERS.end}\n`
+    );
+    expect(applyManagedSection(withBlock, undefined, IGNORE_SECTION_MARKERS)).toBe(userLines);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for IntegrityManager class
+ * Tests content-hash verification of locked files
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IntegrityManager } from '../src/integrity-manager';
+import { hashContent } from '../src/content-hash';
+import { mockVSCode } from './setup';
+
+describe('IntegrityManager', () => {
+  let integrityManager: IntegrityManager;
+  let mockLockorManager: any;
+  let mockSnapshotManager: any;
+  let files: Map<string, Buffer>;
+  let diagnostics: any;
+  const testPath = '/test/workspace/schema.sql';
+  const lockedHash = hashContent(Buffer.from('locked'));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    files = new Map([[testPath, Buffer.from('locked')]]);
+    mockLockorManager = {
+      getLockedFiles: vi.fn().mockReturnValue([testPath]),
+      getLockHash: vi.fn().mockReturnValue(lockedHash),
+      updateLockHash: vi.fn().mockResolvedValue(undefined),
+      writeLockedFile: vi.fn(async (uri: any, content: Uint8Array) => { files.set(uri.fsPath, Buffer.from(content)); })
+    };
+    mockSnapshotManager = {
+      getSnapshot: vi.fn().mockResolvedValue(Buffer.from('locked')),
+      updateSnapshot: vi.fn().mockResolvedValue(undefined)
+    };
+    mockVSCode.workspace.fs.readFile.mockImplementation(async (uri: any) => files.get(uri.fsPath));
+    mockVSCode.window.showWarningMessage.mockResolvedValue(undefined);
+    diagnostics = mockVSCode.languages.createDiagnosticCollection();
+
+    integrityManager = new IntegrityManager(mockLockorManager, mockSnapshotManager);
+  });
+
+  it('should confirm when every locked file is unchanged', async () => {
+    const drifted = await integrityManager.verifyLockedFiles(true);
+
+    expect(drifted).toEqual([]);
+    expect(mockVSCode.window.showInformationMessage).toHaveBeenCalledWith(expect.stringContaining('All locked files match'));
+  });
+
+  it('should report drifted files as diagnostics', async () => {
+    files.set(testPath, Buffer.from('changed'));
+
+    const drifted = await integrityManager.verifyLockedFiles();
+
+    expect(drifted).toEqual([{
+      uri: expect.objectContaining({ fsPath: testPath }),
+      expectedHash: lockedHash,
+      actualHash: hashContent(Buffer.from('changed'))
+    }]);
+    expect(diagnostics.set).toHaveBeenCalledWith(expect.objectContaining({ fsPath: testPath }), [expect.anything()]);
+    expect(mockVSCode.window.showWarningMessage).toHaveBeenCalledWith(
+      '⚠️ 1 locked file(s) changed since they were locked: schema.sql', 'Review'
+    );
+  });
+
+  it('should not repeat a background report for the same drift', async () => {
+    files.set(testPath, Buffer.from('changed'));
+
+    await integrityManager.verifyLockedFiles();
+    await integrityManager.verifyLockedFiles();
+
+    expect(mockVSCode.window.showWarningMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should re-hash accepted content', async () => {
+    files.set(testPath, Buffer.from('changed'));
+    const [file] = await integrityManager.verifyLockedFiles();
+
+    await integrityManager.acceptContent(file);
+
+    expect(mockLockorManager.updateLockHash).toHaveBeenCalledWith(file.uri, Buffer.from('changed'));
+    expect(mockSnapshotManager.updateSnapshot).toHaveBeenCalledWith(file.uri, Buffer.from('changed'));
+    expect(diagnostics.delete).toHaveBeenCalledWith(file.uri);
+  });
+
+  it('should revert to the snapshot taken at lock time', async () => {
+    files.set(testPath, Buffer.from('changed'));
+    const [file] = await integrityManager.verifyLockedFiles();
+
+    await integrityManager.revertContent(file);
+
+    expect(files.get(testPath)!.toString()).toBe('locked');
+  });
+
+  it('should refuse to revert to a snapshot with different content', async () => {
+    files.set(testPath, Buffer.from('changed'));
+    mockSnapshotManager.getSnapshot.mockResolvedValue(Buffer.from('something else'));
+    const [file] = await integrityManager.verifyLockedFiles();
+
+    await integrityManager.revertContent(file);
+
+    expect(mockLockorManager.writeLockedFile).not.toHaveBeenCalled();
+    expect(mockVSCode.window.showErrorMessage).toHaveBeenCalledWith(expect.stringContaining('No copy of the locked version'));
+  });
+
+  it('should only re-hash saves the user accepted in a review', async () => {
+    const document = { uri: { fsPath: testPath } } as any;
+
+    integrityManager.handleWillSaveDocument(document, false);
+    await integrityManager.handleDocumentSaved(document);
+    expect(mockLockorManager.updateLockHash).not.toHaveBeenCalled();
+
+    integrityManager.handleWillSaveDocument(document, true);
+    await integrityManager.handleDocumentSaved(document);
+    expect(mockLockorManager.updateLockHash).toHaveBeenCalledWith(document.uri);
+  });
+});
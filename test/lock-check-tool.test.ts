@@ -0,0 +1,99 @@
+/**
+ * Unit tests for LockCheckTool class
+ * Tests the lock state chat agents get back from the lockor_checkPaths tool
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LockCheckTool } from '../src/lock-check-tool';
+import { mockVSCode } from './setup';
+
+describe('LockCheckTool', () => {
+  let tool: LockCheckTool;
+  let mockLockorManager: any;
+  let lockedPaths: Record<string, string>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    lockedPaths = {
+      '/test/workspace/schema.sql': 'hard',
+      '/test/workspace/notes.md': 'soft'
+    };
+
+    mockLockorManager = {
+      isFileLocked: vi.fn((uri: any) => uri.fsPath in lockedPaths),
+      getProtectionLevel: vi.fn((uri: any) => lockedPaths[uri.fsPath] ?? 'ai-aware'),
+      getLockMetadata: vi.fn((uri: any) => uri.fsPath === '/test/workspace/schema.sql'
+        ? { reason: 'Owned by the DBA team', author: 'Ana', createdAt: '2025-01-31T10:00:00.000Z' }
+        : undefined),
+      getLockedRegions: vi.fn((uri: any) => uri.fsPath === '/test/workspace/src/app.ts'
+        ? [{ startLine: 9, endLine: 19, source: 'selection' }]
+        : [])
+    };
+
+    tool = new LockCheckTool(mockLockorManager);
+  });
+
+  it('should return the lock state, level, reason and guidance of each path', () => {
+    const result = tool.invoke({ input: { paths: ['schema.sql', '/test/workspace/readme.md'] } } as any);
+
+    expect(result.content).toHaveLength(1);
+    const { results } = JSON.parse((result.content[0] as any).value);
+    expect(results).toEqual([
+      {
+        path: 'schema.sql',
+        locked: true,
+        protectionLevel: 'hard',
+        reason: 'Owned by the DBA team',
+        lockedBy: 'Ana',
+        canModify: false,
+        guidance: expect.stringContaining('read-only')
+      },
+      {
+        path: '/test/workspace/readme.md',
+        locked: false,
+        canModify: true,
+        guidance: 'Not locked. You may modify this file.'
+      }
+    ]);
+  });
+
+  it('should allow changes to soft locked files', () => {
+    const [status] = tool.checkPaths(['notes.md']);
+
+    expect(status).toMatchObject({ locked: true, protectionLevel: 'soft', canModify: true });
+  });
+
+  it('should list locked regions of unlocked files', () => {
+    const [status] = tool.checkPaths(['src/app.ts']);
+
+    expect(status).toMatchObject({ locked: false, lockedRegions: ['lines 10-20'], canModify: true });
+    expect(status.guidance).toContain('lines 10-20');
+  });
+
+  it('should resolve paths against the folder they name in multi-root workspaces', () => {
+    const originalFolders = mockVSCode.workspace.workspaceFolders;
+    mockVSCode.workspace.workspaceFolders = [
+      { uri: { fsPath: '/test/api' }, name: 'api', index: 0 },
+      { uri: { fsPath: '/test/workspace' }, name: 'workspace', index: 1 }
+    ];
+    try {
+      const [status] = tool.checkPaths(['workspace/schema.sql']);
+
+      expect(status).toMatchObject({ path: 'workspace/schema.sql', locked: true });
+    } finally {
+      mockVSCode.workspace.workspaceFolders = originalFolders;
+    }
+  });
+
+  it('should ignore malformed input', () => {
+    const result = tool.invoke({ input: {} } as any);
+
+    expect(JSON.parse((result.content[0] as any).value)).toEqual({ results: [] });
+  });
+
+  it('should describe the check while it runs', () => {
+    expect(tool.prepareInvocation({ input: { paths: ['a', 'b'] } } as any)).toEqual({
+      invocationMessage: 'Checking Lockor locks for 2 paths'
+    });
+  });
+});
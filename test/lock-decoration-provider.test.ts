@@ -0,0 +1,77 @@
+/**
+ * Unit tests for LockDecorationProvider class
+ * Tests lock badges, colors per protection level and tooltips
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LockDecorationProvider } from '../src/lock-decoration-provider';
+import { mockVSCode } from './setup';
+
+describe('LockDecorationProvider', () => {
+  let provider: LockDecorationProvider;
+  let mockLockorManager: any;
+  let showFileDecorations: boolean;
+  const lockedUri = { scheme: 'file', fsPath: '/test/workspace/schema.sql' } as any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    showFileDecorations = true;
+
+    mockVSCode.workspace.getConfiguration.mockReturnValue({
+      get: vi.fn().mockImplementation((key: string, defaultValue: any) =>
+        key === 'showFileDecorations' ? showFileDecorations : defaultValue
+      )
+    });
+
+    mockLockorManager = {
+      isFileLocked: vi.fn((uri: any) => uri.fsPath === lockedUri.fsPath),
+      getProtectionLevel: vi.fn().mockReturnValue('hard'),
+      getLockMetadata: vi.fn().mockReturnValue(undefined)
+    };
+
+    provider = new LockDecorationProvider(mockLockorManager);
+  });
+
+  it('should register itself as a file decoration provider', () => {
+    expect(mockVSCode.window.registerFileDecorationProvider).toHaveBeenCalledWith(provider);
+  });
+
+  it('should badge locked files with the color of their protection level', () => {
+    const decoration = provider.provideFileDecoration(lockedUri)!;
+
+    expect(decoration.badge).toBe('🔒');
+    expect(decoration.tooltip).toBe('Locked by Lockor (hard)');
+    expect(decoration.color).toEqual({ id: 'lockor.hardLockForeground' });
+    expect(decoration.propagate).toBe(true);
+  });
+
+  it('should explain the lock in the tooltip', () => {
+    mockLockorManager.getProtectionLevel.mockReturnValue('hidden');
+    mockLockorManager.getLockMetadata.mockReturnValue({ reason: 'Customer data', author: 'Ana' });
+
+    const decoration = provider.provideFileDecoration(lockedUri)!;
+
+    expect(decoration.tooltip).toBe('Locked by Lockor (hidden) — Reason: Customer data — locked by Ana');
+    expect(decoration.color).toEqual({ id: 'lockor.hiddenLockForeground' });
+  });
+
+  it('should leave unlocked files and other schemes alone', () => {
+    expect(provider.provideFileDecoration({ scheme: 'file', fsPath: '/test/workspace/app.ts' } as any)).toBeUndefined();
+    expect(provider.provideFileDecoration({ scheme: 'git', fsPath: lockedUri.fsPath } as any)).toBeUndefined();
+  });
+
+  it('should show no badges when turned off', () => {
+    showFileDecorations = false;
+
+    expect(provider.provideFileDecoration(lockedUri)).toBeUndefined();
+  });
+
+  it('should ask VS Code to redecorate every file on refresh', () => {
+    const listener = vi.fn();
+    provider.onDidChangeFileDecorations(listener);
+
+    provider.refresh();
+
+    expect(listener).toHaveBeenCalledWith(undefined);
+  });
+});
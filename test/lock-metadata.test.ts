@@ -0,0 +1,54 @@
+/**
+ * Unit tests for lock metadata
+ * Tests formatting of lock reasons, authors and timestamps
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as childProcess from 'child_process';
+import { formatLockAge, formatLockMetadata, getGitUserName } from '../src/lock-metadata';
+
+describe('Lock Metadata', () => {
+  describe('Formatting', () => {
+    it('should format reason, author and date', () => {
+      expect(formatLockMetadata({ reason: 'Generated code', author: 'Ana', createdAt: '2025-01-31T10:00:00.000Z' }))
+        .toBe('Reason: Generated code — locked by Ana on 2025-01-31');
+    });
+
+    it('should leave out missing fields', () => {
+      expect(formatLockMetadata({ createdAt: '2025-01-31T10:00:00.000Z' })).toBe('locked on 2025-01-31');
+      expect(formatLockMetadata({ reason: 'Owned by DBA team' })).toBe('Reason: Owned by DBA team');
+      expect(formatLockMetadata(undefined)).toBe('');
+    });
+  });
+
+  describe('Lock Age', () => {
+    const now = Date.parse('2025-03-10T12:00:00.000Z');
+
+    it('should describe the age in the largest whole unit', () => {
+      expect(formatLockAge('2025-03-10T11:59:30.000Z', now)).toBe('just now');
+      expect(formatLockAge('2025-03-10T11:55:00.000Z', now)).toBe('5 minutes ago');
+      expect(formatLockAge('2025-03-10T11:00:00.000Z', now)).toBe('1 hour ago');
+      expect(formatLockAge('2025-03-07T12:00:00.000Z', now)).toBe('3 days ago');
+      expect(formatLockAge('2024-01-10T12:00:00.000Z', now)).toBe('1 year ago');
+    });
+
+    it('should give no age for an unreadable date', () => {
+      expect(formatLockAge('not a date', now)).toBe('');
+    });
+  });
+
+  describe('Git Author', () => {
+    it('should read user.name from git', async () => {
+      vi.mocked(childProcess.execFile).mockImplementationOnce(((file: string, args: string[], options: any, callback: any) => {
+        callback(null, 'Ana Silva\n', '');
+      }) as any);
+
+      await expect(getGitUserName('/test/workspace')).resolves.toBe('Ana Silva');
+      expect(childProcess.execFile).toHaveBeenCalledWith('git', ['config', 'user.name'], expect.objectContaining({ cwd: '/test/workspace' }), expect.any(Function));
+    });
+
+    it('should fall back to no author when git fails', async () => {
+      await expect(getGitUserName('/test/workspace')).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for LockedFilesView class
+ * Tests the Locked Files tree: grouping, item details and view actions
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LockedFilesView } from '../src/locked-files-view';
+import { mockVSCode } from './setup';
+
+describe('LockedFilesView', () => {
+  let view: LockedFilesView;
+  let mockLockorManager: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockLockorManager = {
+      getLockedFiles: vi.fn().mockReturnValue(['/test/workspace/src/b.ts', '/test/workspace/src/a.ts', '/test/workspace/package.json']),
+      getLockedFolders: vi.fn().mockReturnValue(['/test/workspace/src/generated']),
+      getLockPatterns: vi.fn().mockReturnValue(['**/*.lock']),
+      findPatternMatches: vi.fn().mockResolvedValue([{ fsPath: '/test/workspace/pnpm.lock' }]),
+      getOwningFolder: vi.fn().mockReturnValue(mockVSCode.workspace.workspaceFolders[0]),
+      getProtectionLevel: vi.fn().mockReturnValue('hard'),
+      getDefaultProtectionLevel: vi.fn().mockReturnValue('ai-aware'),
+      getLockMetadata: vi.fn().mockReturnValue({ reason: 'Generated', author: 'Ana', createdAt: new Date(Date.now() - 3 * 86400 * 1000).toISOString() }),
+      unlockFile: vi.fn(),
+      removeLockPattern: vi.fn()
+    };
+
+    view = new LockedFilesView(mockLockorManager);
+  });
+
+  it('should register a multi-select tree view', () => {
+    expect(mockVSCode.window.createTreeView).toHaveBeenCalledWith('lockor.lockedFiles', expect.objectContaining({
+      treeDataProvider: view,
+      canSelectMany: true
+    }));
+  });
+
+  it('should group locks by directory, followed by lock patterns', async () => {
+    const roots = await view.getChildren();
+
+    expect(roots.map(node => node.kind === 'directory' ? node.label : node.kind)).toEqual(['src', 'workspace', 'pattern']);
+    const src = roots[0];
+    expect(await view.getChildren(src)).toEqual([
+      { kind: 'folder', path: '/test/workspace/src/generated' },
+      { kind: 'file', path: '/test/workspace/src/a.ts' },
+      { kind: 'file', path: '/test/workspace/src/b.ts' }
+    ]);
+    expect(await view.getChildren(roots[2])).toEqual([{ kind: 'match', path: '/test/workspace/pnpm.lock' }]);
+  });
+
+  it('should show the protection level and lock age of a file', () => {
+    const item = view.getTreeItem({ kind: 'file', path: '/test/workspace/src/a.ts' });
+
+    expect(item.label).toBe('a.ts');
+    expect(item.description).toBe('hard · 3 days ago');
+    expect(item.tooltip).toContain('Reason: Generated — locked by Ana');
+    expect(item.contextValue).toBe('lockor.file');
+    expect(item.command).toEqual(expect.objectContaining({ command: 'vscode.open' }));
+  });
+
+  it('should not open locked folders on click', () => {
+    const item = view.getTreeItem({ kind: 'folder', path: '/test/workspace/src/generated' });
+
+    expect(item.label).toBe('generated/');
+    expect(item.command).toBeUndefined();
+  });
+
+  it('should unlock every selected item', async () => {
+    const file = { kind: 'file' as const, path: '/test/workspace/src/a.ts' };
+    const pattern = { kind: 'pattern' as const, pattern: '**/*.lock' };
+
+    await view.unlock(file, [file, pattern]);
+
+    expect(mockLockorManager.unlockFile).toHaveBeenCalledWith(expect.objectContaining({ fsPath: '/test/workspace/src/a.ts' }));
+    expect(mockLockorManager.removeLockPattern).toHaveBeenCalledWith('**/*.lock');
+  });
+
+  it('should only unlock the clicked item when it is outside the selection', async () => {
+    const clicked = { kind: 'file' as const, path: '/test/workspace/src/a.ts' };
+    const selectedElsewhere = { kind: 'file' as const, path: '/test/workspace/src/b.ts' };
+
+    await view.unlock(clicked, [selectedElsewhere]);
+
+    expect(mockLockorManager.unlockFile).toHaveBeenCalledTimes(1);
+    expect(mockLockorManager.unlockFile).toHaveBeenCalledWith(expect.objectContaining({ fsPath: '/test/workspace/src/a.ts' }));
+  });
+
+  it('should reveal items in the Explorer', async () => {
+    await view.reveal({ kind: 'folder', path: '/test/workspace/src/generated' });
+
+    expect(mockVSCode.commands.executeCommand).toHaveBeenCalledWith(
+      'revealInExplorer', expect.objectContaining({ fsPath: '/test/workspace/src/generated' })
+    );
+  });
+
+  it('should notify the tree on refresh', () => {
+    const listener = vi.fn();
+    view.onDidChangeTreeData(listener);
+
+    view.refresh();
+
+    expect(listener).toHaveBeenCalledWith(undefined);
+  });
+});
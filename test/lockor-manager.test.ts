@@ -85,6 +85,16 @@ describe('LockorManager', () => {
       );
     });
 
+    it('should notify listeners when a lock changes', async () => {
+      const testUri = { fsPath: '/test/file.txt' };
+      const listener = vi.fn();
+      lockorManager.onDidChangeLocks(listener);
+
+      await lockorManager.lockFile(testUri as any);
+
+      expect(listener).toHaveBeenCalledWith({ uris: [testUri] });
+    });
+
     it('should toggle file lock state', async () => {
       const testUri = { fsPath: '/test/file.txt' };
       
@@ -128,6 +138,677 @@ describe('LockorManager', () => {
     });
   });
 
+  describe('Folder Locking', () => {
+    beforeEach(() => {
+      mockVSCode.workspace.fs.stat.mockImplementation(async (uri: any) => ({
+        type: uri.fsPath === '/test/migrations' ? mockVSCode.FileType.Directory : mockVSCode.FileType.File
+      }));
+    });
+
+    it('should lock every file underneath a locked folder', async () => {
+      await lockorManager.lockFile({ fsPath: '/test/migrations' } as any);
+
+      expect(lockorManager.isFileLocked({ fsPath: '/test/migrations/001_init.sql' } as any)).toBe(true);
+      expect(lockorManager.isFileLocked({ fsPath: '/test/migrations/nested/created-later.sql' } as any)).toBe(true);
+      expect(lockorManager.getLockedFolders()).toEqual(['/test/migrations']);
+      expect(lockorManager.getLockedFiles()).toEqual([]);
+      expect(mockContext.workspaceState.update).toHaveBeenCalledWith(
+        'lockor.lockedFolders',
+        ['/test/migrations']
+      );
+    });
+
+    it('should not treat sibling paths with the same prefix as locked', async () => {
+      await lockorManager.lockFile({ fsPath: '/test/migrations' } as any);
+
+      expect(lockorManager.isFileLocked({ fsPath: '/test/migrations-old/001_init.sql' } as any)).toBe(false);
+    });
+
+    it('should point to the folder when unlocking a file it covers', async () => {
+      await lockorManager.lockFile({ fsPath: '/test/migrations' } as any);
+      await lockorManager.unlockFile({ fsPath: '/test/migrations/001_init.sql' } as any);
+
+      expect(lockorManager.isFileLocked({ fsPath: '/test/migrations/001_init.sql' } as any)).toBe(true);
+      expect(mockVSCode.window.showInformationMessage).toHaveBeenCalledWith(
+        'File "001_init.sql" is locked by folder "migrations". Unlock the folder instead.'
+      );
+    });
+
+    it('should unlock the folder with toggle', async () => {
+      await lockorManager.toggleFileLock({ fsPath: '/test/migrations' } as any);
+      await lockorManager.toggleFileLock({ fsPath: '/test/migrations' } as any);
+
+      expect(lockorManager.getLockedFolders()).toEqual([]);
+      expect(lockorManager.isFileLocked({ fsPath: '/test/migrations/001_init.sql' } as any)).toBe(false);
+    });
+
+    it('should list the files underneath a locked folder', async () => {
+      await lockorManager.lockFile({ fsPath: '/test/migrations' } as any, undefined, {});
+      await lockorManager.lockFile({ fsPath: '/test/workspace/schema.sql' } as any, undefined, {});
+      mockVSCode.workspace.findFiles.mockResolvedValueOnce([{ fsPath: '/test/migrations/001_init.sql' }]);
+
+      const uris = await lockorManager.getLockedFileUris();
+
+      expect(uris.map(uri => uri.fsPath)).toEqual(['/test/workspace/schema.sql', '/test/migrations/001_init.sql']);
+      expect(mockVSCode.RelativePattern).toHaveBeenCalledWith('/test/migrations', '**/*');
+    });
+
+    it('should emit a recursive glob in cursor rules', async () => {
+      mockVSCode.workspace.fs.stat.mockResolvedValueOnce({ type: mockVSCode.FileType.Directory });
+      await lockorManager.lockFile({ fsPath: '/test/workspace/migrations' } as any);
+
+      const ruleWrite = mockVSCode.workspace.fs.writeFile.mock.calls.find(
+        ([uri]: any[]) => uri.fsPath.endsWith('lockor.mdc')
+      );
+      expect(ruleWrite).toBeDefined();
+      expect(Buffer.from(ruleWrite![1]).toString('utf8')).toContain('  - "migrations/**"');
+    });
+  });
+
+  describe('Pattern Locking', () => {
+    it('should lock files matching an added pattern', async () => {
+      await lockorManager.addLockPattern('**/*.lock');
+
+      expect(lockorManager.getLockPatterns()).toEqual(['**/*.lock']);
+      expect(lockorManager.isFileLocked({ fsPath: 'packages/app/yarn.lock' } as any)).toBe(true);
+      expect(lockorManager.isFileLocked({ fsPath: 'packages/app/package.json' } as any)).toBe(false);
+      expect(mockContext.workspaceState.update).toHaveBeenCalledWith(
+        'lockor.lockedPatterns',
+        ['**/*.lock']
+      );
+    });
+
+    it('should honor patterns from the lockPatterns setting', () => {
+      mockVSCode.workspace.getConfiguration.mockReturnValue({
+        get: vi.fn().mockImplementation((key: string, defaultValue: any) => {
+          const config: Record<string, any> = {
+            'lockPatterns': ['*.pem']
+          };
+          return config[key] ?? defaultValue;
+        })
+      });
+
+      expect(lockorManager.isFileLocked({ fsPath: 'server.pem' } as any)).toBe(true);
+      expect(lockorManager.isFileLocked({ fsPath: 'certs/server.pem' } as any)).toBe(false);
+    });
+
+    it('should unlock files when the pattern is removed', async () => {
+      await lockorManager.addLockPattern('**/generated/**');
+      await lockorManager.removeLockPattern('**/generated/**');
+
+      expect(lockorManager.getLockPatterns()).toEqual([]);
+      expect(lockorManager.isFileLocked({ fsPath: 'src/generated/api.ts' } as any)).toBe(false);
+    });
+
+    it('should pass patterns straight through to cursor rules and the status file', async () => {
+      mockVSCode.workspace.findFiles.mockResolvedValueOnce([{ fsPath: 'pnpm.lock' }]);
+
+      await lockorManager.addLockPattern('**/*.lock');
+
+      const writes = mockVSCode.workspace.fs.writeFile.mock.calls.map(
+        ([uri, content]: any[]) => [uri.fsPath, Buffer.from(content).toString('utf8')]
+      );
+      const rules = writes.find(([filePath]: string[]) => filePath.endsWith('lockor.mdc'));
+      const status = writes.find(([filePath]: string[]) => filePath.endsWith('.lockor'));
+      expect(rules![1]).toContain('  - "**/*.lock"');
+      expect(status![1]).toContain('  - pattern: "**/*.lock"');
+    });
+
+    it('should point to the pattern when unlocking a matching file', async () => {
+      await lockorManager.addLockPattern('*.pem');
+      await lockorManager.unlockFile({ fsPath: 'server.pem' } as any);
+
+      expect(mockVSCode.window.showInformationMessage).toHaveBeenCalledWith(
+        'File "server.pem" is locked by pattern "*.pem". Remove the pattern instead.'
+      );
+    });
+  });
+
+  describe('Shared Manifest', () => {
+    it('should write the manifest with workspace-relative paths', async () => {
+      await lockorManager.lockFile({ fsPath: '/test/workspace/src/config.ts' } as any);
+
+      const statusWrite = mockVSCode.workspace.fs.writeFile.mock.calls.find(
+        ([uri]: any[]) => uri.fsPath.endsWith('.lockor')
+      );
+      const yaml = Buffer.from(statusWrite![1]).toString('utf8');
+      expect(yaml).toContain('  - path: "src/config.ts"');
+      expect(yaml).not.toContain('/test/workspace');
+    });
+
+    it('should load locks from the manifest', async () => {
+      const fs = await import('fs');
+      vi.spyOn(fs, 'stat').mockImplementation((path, callback) => {
+        callback(new Error('ENOENT'), undefined as any);
+        return {} as any;
+      });
+      vi.spyOn(fs, 'readdir').mockImplementation(((path: any, options: any, callback: any) => {
+        callback(new Error('ENOENT'));
+      }) as any);
+      mockVSCode.workspace.fs.readFile.mockResolvedValueOnce(Buffer.from(
+        'locked_files:\n  - path: "src/config.ts"\n  - path: "migrations"\n    type: "folder"\n'
+      ));
+
+      await lockorManager.loadManifest();
+
+      expect(lockorManager.getLockedFiles()).toEqual(['/test/workspace/src/config.ts']);
+      expect(lockorManager.getLockedFolders()).toEqual(['/test/workspace/migrations']);
+      expect(lockorManager.isFileLocked({ fsPath: '/test/workspace/migrations/001.sql' } as any)).toBe(true);
+    });
+
+    it('should ignore reloads of its own writes', async () => {
+      await lockorManager.loadManifest();
+      await lockorManager.lockFile({ fsPath: '/test/workspace/src/config.ts' } as any);
+      const statusWrite = mockVSCode.workspace.fs.writeFile.mock.calls.find(
+        ([uri]: any[]) => uri.fsPath.endsWith('.lockor')
+      );
+      mockVSCode.workspace.fs.readFile.mockResolvedValueOnce(statusWrite![1]);
+      mockVSCode.workspace.fs.writeFile.mockClear();
+
+      await lockorManager.loadManifest();
+
+      expect(lockorManager.getLockedFiles()).toEqual(['/test/workspace/src/config.ts']);
+      expect(mockVSCode.workspace.fs.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('should clear locks when a previously synced manifest is removed', async () => {
+      mockContext.workspaceState.get.mockImplementation((key: string, defaultValue: any) =>
+        key === 'lockor.manifestSynced' ? true : (key === 'lockor.lockedFiles' ? ['/test/workspace/a.ts'] : defaultValue)
+      );
+      const manager = new LockorManager(mockContext as any);
+
+      await manager.loadManifest();
+
+      expect(manager.getLockedFiles()).toEqual([]);
+    });
+
+    it('should keep local locks when the manifest is not written', async () => {
+      mockContext.workspaceState.get.mockImplementation((key: string, defaultValue: any) =>
+        key === 'lockor.manifestSynced' ? true : (key === 'lockor.lockedFiles' ? ['/test/workspace/a.ts'] : defaultValue)
+      );
+      mockVSCode.workspace.getConfiguration.mockReturnValue({
+        get: vi.fn().mockImplementation((key: string, defaultValue: any) => key === 'createStatusFile' ? false : defaultValue)
+      });
+      mockVSCode.workspace.fs.readFile.mockResolvedValueOnce(Buffer.from('locked_files:\n  - path: "src/config.ts"\n'));
+      const manager = new LockorManager(mockContext as any);
+
+      await manager.loadManifest();
+
+      expect(manager.getLockedFiles().sort()).toEqual(['/test/workspace/a.ts', '/test/workspace/src/config.ts']);
+    });
+
+    it('should publish existing local locks when no manifest exists yet', async () => {
+      mockContext.workspaceState.get.mockImplementation((key: string, defaultValue: any) =>
+        key === 'lockor.lockedFiles' ? ['/test/workspace/a.ts'] : defaultValue
+      );
+      const manager = new LockorManager(mockContext as any);
+
+      await manager.loadManifest();
+
+      expect(manager.getLockedFiles()).toEqual(['/test/workspace/a.ts']);
+      expect(mockVSCode.workspace.fs.writeFile).toHaveBeenCalledWith(
+        expect.objectContaining({ fsPath: '/test/workspace/.lockor' }),
+        expect.anything()
+      );
+    });
+  });
+
+  describe('Multi-root Workspaces', () => {
+    const folders = [
+      { uri: { fsPath: '/test/api' }, name: 'api', index: 0 },
+      { uri: { fsPath: '/test/web' }, name: 'web', index: 1 }
+    ];
+    let originalFolders: any[];
+
+    beforeEach(() => {
+      originalFolders = mockVSCode.workspace.workspaceFolders;
+      mockVSCode.workspace.workspaceFolders = folders;
+    });
+
+    afterEach(() => {
+      mockVSCode.workspace.workspaceFolders = originalFolders;
+    });
+
+    const writtenContent = (filePath: string) => {
+      const write = mockVSCode.workspace.fs.writeFile.mock.calls.filter(
+        ([uri]: any[]) => uri.fsPath === filePath
+      ).pop();
+      return write ? Buffer.from(write[1]).toString('utf8') : undefined;
+    };
+
+    it('should write rules and manifests into the folder owning each lock', async () => {
+      await lockorManager.lockFile({ fsPath: '/test/api/src/db.ts' } as any);
+      await lockorManager.lockFile({ fsPath: '/test/web/src/app.ts' } as any);
+
+      const apiRules = writtenContent('/test/api/.cursor/rules/lockor.mdc');
+      const webRules = writtenContent('/test/web/.cursor/rules/lockor.mdc');
+      expect(apiRules).toContain('  - "src/db.ts"');
+      expect(apiRules).not.toContain('app.ts');
+      expect(webRules).toContain('  - "src/app.ts"');
+      expect(webRules).not.toContain('db.ts');
+
+      expect(writtenContent('/test/api/.lockor')).toContain('  - path: "src/db.ts"');
+      expect(writtenContent('/test/web/.lockor')).toContain('  - path: "src/app.ts"');
+    });
+
+    it('should remove files of folders that no longer have locks', async () => {
+      await lockorManager.lockFile({ fsPath: '/test/api/src/db.ts' } as any);
+
+      expect(mockVSCode.workspace.fs.delete).toHaveBeenCalledWith(
+        expect.objectContaining({ fsPath: '/test/web/.lockor' })
+      );
+      expect(mockVSCode.workspace.fs.delete).toHaveBeenCalledWith(
+        expect.objectContaining({ fsPath: '/test/web/.cursor/rules/lockor.mdc' })
+      );
+    });
+
+    it('should load manifests from every folder', async () => {
+      mockVSCode.workspace.fs.readFile.mockImplementation(async (uri: any) => {
+        if (uri.fsPath === '/test/api/.lockor') {
+          return Buffer.from('locked_files:\n  - path: "src/db.ts"\n');
+        }
+        if (uri.fsPath === '/test/web/.lockor') {
+          return Buffer.from('locked_files:\n  - path: "src/app.ts"\n');
+        }
+        throw new Error('File not found');
+      });
+
+      await lockorManager.loadManifest();
+      mockVSCode.workspace.fs.readFile.mockRejectedValue(new Error('File not found'));
+
+      expect(lockorManager.getLockedFiles().sort()).toEqual(['/test/api/src/db.ts', '/test/web/src/app.ts']);
+    });
+
+    it('should group locked files by folder', async () => {
+      await lockorManager.lockFile({ fsPath: '/test/api/src/db.ts' } as any);
+      await lockorManager.lockFile({ fsPath: '/test/web/src/app.ts' } as any);
+      mockVSCode.window.showQuickPick.mockResolvedValueOnce(undefined);
+
+      await lockorManager.showLockedFiles();
+
+      const items = mockVSCode.window.showQuickPick.mock.calls[0][0];
+      expect(items.map((item: any) => item.label)).toEqual(['api', '🔒 db.ts', 'web', '🔒 app.ts']);
+      expect(items[0].kind).toBe(mockVSCode.QuickPickItemKind.Separator);
+      expect(items[1].description).toBe('src/db.ts');
+    });
+  });
+
+  describe('Lock Metadata', () => {
+    const lastWrite = (suffix: string) => {
+      const write = mockVSCode.workspace.fs.writeFile.mock.calls.filter(
+        ([uri]: any[]) => uri.fsPath.endsWith(suffix)
+      ).pop();
+      return Buffer.from(write![1]).toString('utf8');
+    };
+
+    it('should record the reason given when locking', async () => {
+      mockVSCode.window.showInputBox.mockResolvedValueOnce('  Generated by the build  ');
+      const testUri = { fsPath: '/test/workspace/schema.sql' };
+
+      await lockorManager.lockFile(testUri as any);
+
+      const metadata = lockorManager.getLockMetadata(testUri as any);
+      expect(metadata?.reason).toBe('Generated by the build');
+      expect(metadata?.createdAt).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    });
+
+    it('should lock without a reason when the prompt is dismissed', async () => {
+      mockVSCode.window.showInputBox.mockResolvedValueOnce(undefined);
+      const testUri = { fsPath: '/test/workspace/schema.sql' };
+
+      await lockorManager.lockFile(testUri as any);
+
+      expect(lockorManager.isFileLocked(testUri as any)).toBe(true);
+      expect(lockorManager.getLockMetadata(testUri as any)?.reason).toBeUndefined();
+    });
+
+    it('should keep given metadata without prompting', async () => {
+      const metadata = { reason: 'Owned by DBA team', author: 'Ana', createdAt: '2025-01-31T10:00:00.000Z' };
+
+      await lockorManager.lockFile({ fsPath: '/test/workspace/schema.sql' } as any, undefined, metadata);
+
+      expect(mockVSCode.window.showInputBox).not.toHaveBeenCalled();
+      expect(lockorManager.getLockMetadata({ fsPath: '/test/workspace/schema.sql' } as any)).toEqual(metadata);
+    });
+
+    it('should write metadata into the rules and the manifest', async () => {
+      const metadata = { reason: 'Owned by DBA team', author: 'Ana', createdAt: '2025-01-31T10:00:00.000Z' };
+      await lockorManager.lockFile({ fsPath: '/test/workspace/schema.sql' } as any, undefined, metadata);
+
+      expect(lastWrite('lockor.mdc')).toContain('- `schema.sql` — Reason: Owned by DBA team — locked by Ana on 2025-01-31');
+      expect(lastWrite('.lockor')).toContain(
+        '  - path: "schema.sql"\n    reason: "Owned by DBA team"\n    locked_by: "Ana"\n    locked_at: "2025-01-31T10:00:00.000Z"'
+      );
+    });
+
+    it('should record a content hash for locked files', async () => {
+      mockVSCode.workspace.fs.readFile.mockResolvedValueOnce(Buffer.from('CREATE TABLE users;'));
+
+      await lockorManager.lockFile({ fsPath: '/test/workspace/schema.sql' } as any, undefined, {});
+
+      const hash = lockorManager.getLockHash({ fsPath: '/test/workspace/schema.sql' } as any);
+      expect(hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(lastWrite('.lockor')).toContain(`    sha256: "${hash}"`);
+    });
+
+    it('should restore metadata from the manifest', async () => {
+      mockVSCode.workspace.fs.readFile.mockResolvedValueOnce(Buffer.from(
+        'locked_files:\n  - path: "schema.sql"\n    reason: "Owned by DBA team"\n    locked_by: "Ana"\n'
+      ));
+
+      await lockorManager.loadManifest();
+
+      expect(lockorManager.getLockMetadata({ fsPath: '/test/workspace/schema.sql' } as any)).toEqual({
+        reason: 'Owned by DBA team', author: 'Ana', createdAt: undefined
+      });
+    });
+
+    it('should show metadata in the locked files list', async () => {
+      const metadata = { reason: 'Owned by DBA team', createdAt: '2025-01-31T10:00:00.000Z' };
+      await lockorManager.lockFile({ fsPath: '/test/workspace/schema.sql' } as any, undefined, metadata);
+      mockVSCode.window.showQuickPick.mockResolvedValueOnce(undefined);
+
+      await lockorManager.showLockedFiles();
+
+      const items = mockVSCode.window.showQuickPick.mock.calls[0][0];
+      expect(items[1].detail).toBe('Reason: Owned by DBA team — locked on 2025-01-31');
+    });
+  });
+
+  describe('Rename, Move and Delete', () => {
+    const metadata = { reason: 'Generated', createdAt: '2025-01-31T10:00:00.000Z' };
+
+    beforeEach(() => {
+      mockVSCode.workspace.fs.stat.mockImplementation(async (uri: any) => ({
+        type: uri.fsPath === '/test/workspace/db' ? mockVSCode.FileType.Directory : mockVSCode.FileType.File
+      }));
+    });
+
+    it('should carry the lock, level and metadata to the new path', async () => {
+      await lockorManager.lockFile({ fsPath: '/test/workspace/schema.sql' } as any, 'soft', metadata);
+
+      await lockorManager.handleFilesRenamed([{
+        oldUri: { fsPath: '/test/workspace/schema.sql' } as any,
+        newUri: { fsPath: '/test/workspace/db/schema.sql' } as any
+      }]);
+
+      const newUri = { fsPath: '/test/workspace/db/schema.sql' } as any;
+      expect(lockorManager.isFileLocked({ fsPath: '/test/workspace/schema.sql' } as any)).toBe(false);
+      expect(lockorManager.isFileLocked(newUri)).toBe(true);
+      expect(lockorManager.getProtectionLevel(newUri)).toBe('soft');
+      expect(lockorManager.getLockMetadata(newUri)).toEqual(metadata);
+    });
+
+    it('should move locks underneath a renamed folder', async () => {
+      await lockorManager.lockFile({ fsPath: '/test/workspace/db/schema.sql' } as any, undefined, {});
+      await lockorManager.lockRegion({ fsPath: '/test/workspace/db/seed.sql' } as any, 1, 2);
+
+      await lockorManager.handleFilesRenamed([{
+        oldUri: { fsPath: '/test/workspace/db' } as any,
+        newUri: { fsPath: '/test/workspace/database' } as any
+      }]);
+
+      expect(lockorManager.getLockedFiles()).toEqual(['/test/workspace/database/schema.sql']);
+      expect(lockorManager.getLockedRegions({ fsPath: '/test/workspace/database/seed.sql' } as any)).toHaveLength(1);
+    });
+
+    it('should restore a deleted ai-aware locked file', async () => {
+      const content = Buffer.from('CREATE TABLE users;');
+      await lockorManager.lockFile({ fsPath: '/test/workspace/schema.sql' } as any, 'ai-aware', metadata);
+      mockVSCode.workspace.fs.readFile.mockResolvedValueOnce(content);
+      const deleted = [{ fsPath: '/test/workspace/schema.sql' } as any];
+
+      await lockorManager.handleWillDeleteFiles(deleted);
+      await lockorManager.handleFilesDeleted(deleted);
+
+      expect(mockVSCode.workspace.fs.writeFile).toHaveBeenCalledWith(
+        expect.objectContaining({ fsPath: '/test/workspace/schema.sql' }),
+        content
+      );
+      expect(mockVSCode.window.showWarningMessage).toHaveBeenCalledWith(expect.stringContaining("can't be deleted"));
+      expect(lockorManager.isFileLocked(deleted[0])).toBe(true);
+    });
+
+    it('should drop the lock when a soft locked file is deleted', async () => {
+      await lockorManager.lockFile({ fsPath: '/test/workspace/notes.md' } as any, 'soft', metadata);
+      mockVSCode.workspace.fs.readFile.mockClear();
+      const deleted = [{ fsPath: '/test/workspace/notes.md' } as any];
+
+      await lockorManager.handleWillDeleteFiles(deleted);
+      await lockorManager.handleFilesDeleted(deleted);
+
+      expect(mockVSCode.workspace.fs.readFile).not.toHaveBeenCalledWith(expect.objectContaining({ fsPath: '/test/workspace/notes.md' }));
+      expect(lockorManager.isFileLocked(deleted[0])).toBe(false);
+      expect(lockorManager.getLockMetadata(deleted[0])).toBeUndefined();
+    });
+
+    it('should prune locks for files that no longer exist', async () => {
+      await lockorManager.lockFile({ fsPath: '/test/workspace/gone.ts' } as any, undefined, {});
+      await lockorManager.lockFile({ fsPath: '/test/workspace/kept.ts' } as any, undefined, {});
+      mockVSCode.workspace.fs.stat.mockImplementation(async (uri: any) => {
+        if (uri.fsPath === '/test/workspace/gone.ts') {
+          throw new Error('ENOENT');
+        }
+        return { type: mockVSCode.FileType.File };
+      });
+
+      await lockorManager.pruneStaleLocks();
+
+      expect(lockorManager.getLockedFiles()).toEqual(['/test/workspace/kept.ts']);
+    });
+  });
+
+  describe('Region Locks', () => {
+    const rulesContent = () => {
+      const write = mockVSCode.workspace.fs.writeFile.mock.calls.filter(
+        ([uri]: any[]) => uri.fsPath.endsWith('lockor.mdc')
+      ).pop();
+      return write ? Buffer.from(write[1]).toString('utf8') : undefined;
+    };
+
+    it('should lock a range of lines', async () => {
+      const testUri = { fsPath: '/test/workspace/src/algo.ts' };
+      await lockorManager.lockRegion(testUri as any, 12, 4);
+
+      expect(lockorManager.getLockedRegions(testUri as any)).toEqual([{ startLine: 4, endLine: 12, source: 'selection' }]);
+      expect(lockorManager.isFileLocked(testUri as any)).toBe(false);
+    });
+
+    it('should list locked line spans per file in the Cursor rules', async () => {
+      await lockorManager.lockRegion({ fsPath: '/test/workspace/src/algo.ts' } as any, 4, 12);
+
+      const rules = rulesContent();
+      expect(rules).toContain('  - "src/algo.ts"');
+      expect(rules).toContain('- `src/algo.ts`: lines 5-13 (ai-aware)');
+      expect(rules).not.toContain('# LOCKED FILES');
+    });
+
+    it('should not lock regions of files locked as a whole', async () => {
+      const testUri = { fsPath: '/test/workspace/src/algo.ts' };
+      await lockorManager.lockFile(testUri as any);
+      await lockorManager.lockRegion(testUri as any, 1, 2);
+
+      expect(lockorManager.getLockedRegions(testUri as any)).toEqual([]);
+    });
+
+    it('should unlock the selection region containing a line', async () => {
+      const testUri = { fsPath: '/test/workspace/src/algo.ts' };
+      await lockorManager.lockRegion(testUri as any, 4, 12);
+
+      expect(await lockorManager.unlockRegion(testUri as any, 8)).toBe(true);
+      expect(lockorManager.getLockedRegions(testUri as any)).toEqual([]);
+    });
+
+    it('should keep marker regions when unlocking', async () => {
+      const testUri = { fsPath: '/test/workspace/src/algo.ts' };
+      lockorManager.updateRegions(testUri as any, 'marker', [{ startLine: 2, endLine: 5, source: 'marker' }]);
+
+      expect(await lockorManager.unlockRegion(testUri as any, 3)).toBe(false);
+      expect(mockVSCode.window.showInformationMessage).toHaveBeenCalledWith(
+        expect.stringContaining('lockor:begin/lockor:end comments')
+      );
+    });
+
+    it('should report whether tracked regions changed', () => {
+      const testUri = { fsPath: '/test/workspace/src/algo.ts' };
+      const regions = [{ startLine: 2, endLine: 5, source: 'marker' as const }];
+
+      expect(lockorManager.updateRegions(testUri as any, 'marker', regions)).toBe(true);
+      expect(lockorManager.updateRegions(testUri as any, 'marker', regions)).toBe(false);
+    });
+  });
+
+  describe('Rule Files', () => {
+    const ruleFileWrite = (suffix: string) => {
+      const write = mockVSCode.workspace.fs.writeFile.mock.calls.filter(
+        ([uri]: any[]) => uri.fsPath.endsWith(suffix)
+      ).pop();
+      return write ? Buffer.from(write[1]).toString('utf8') : undefined;
+    };
+
+    const enableRuleFiles = (ruleFiles: Record<string, boolean>) => {
+      mockVSCode.workspace.getConfiguration.mockReturnValue({
+        get: vi.fn().mockImplementation((key: string, defaultValue: any) => {
+          const config: Record<string, any> = { 'protectionLevel': 'ai-aware', 'ruleFiles': ruleFiles };
+          return config[key] ?? defaultValue;
+        })
+      });
+    };
+
+    it('should not write rule files that are turned off', async () => {
+      await lockorManager.lockFile({ fsPath: '/test/workspace/schema.sql' } as any);
+
+      expect(ruleFileWrite('AGENTS.md')).toBeUndefined();
+      expect(ruleFileWrite('CLAUDE.md')).toBeUndefined();
+    });
+
+    it('should add a Lockor section to enabled rule files, keeping hand-written content', async () => {
+      enableRuleFiles({ agents: true, copilot: true });
+      mockVSCode.workspace.fs.readFile.mockImplementation(async (uri: any) => {
+        if (uri.fsPath === '/test/workspace/AGENTS.md') {
+          return Buffer.from('# Agent notes\n\nRun pnpm test before committing.\n');
+        }
+        throw new Error('ENOENT');
+      });
+
+      await lockorManager.lockFile({ fsPath: '/test/workspace/schema.sql' } as any);
+
+      const agents = ruleFileWrite('AGENTS.md');
+      expect(agents).toMatch(/^# Agent notes\n\nRun pnpm test before committing\.\n\n<!-- lockor:rules:begin/);
+      expect(agents).toContain('- `schema.sql`');
+      expect(agents).toMatch(/<!-- lockor:rules:end -->\n$/);
+      expect(ruleFileWrite('.github/copilot-instructions.md')).toContain('# LOCKED FILES - DO NOT EDIT');
+      expect(ruleFileWrite('CLAUDE.md')).toBeUndefined();
+      mockVSCode.workspace.fs.readFile.mockRejectedValue(new Error('File not found'));
+    });
+
+    it('should remove the section once nothing is locked', async () => {
+      enableRuleFiles({ claude: true });
+      await lockorManager.lockFile({ fsPath: '/test/workspace/schema.sql' } as any);
+      const claude = ruleFileWrite('CLAUDE.md')!;
+      mockVSCode.workspace.fs.readFile.mockImplementation(async (uri: any) => {
+        if (uri.fsPath === '/test/workspace/CLAUDE.md') {
+          return Buffer.from(`# House rules\n\n${claude}`);
+        }
+        throw new Error('ENOENT');
+      });
+
+      await lockorManager.unlockFile({ fsPath: '/test/workspace/schema.sql' } as any);
+
+      expect(ruleFileWrite('CLAUDE.md')).toBe('# House rules\n');
+      mockVSCode.workspace.fs.readFile.mockRejectedValue(new Error('File not found'));
+    });
+
+    it('should delete a rule file that only held the Lockor section', async () => {
+      enableRuleFiles({ windsurf: true });
+      await lockorManager.lockFile({ fsPath: '/test/workspace/schema.sql' } as any);
+      const windsurf = ruleFileWrite('.windsurfrules')!;
+      mockVSCode.workspace.fs.readFile.mockImplementation(async (uri: any) => {
+        if (uri.fsPath === '/test/workspace/.windsurfrules') {
+          return Buffer.from(windsurf);
+        }
+        throw new Error('ENOENT');
+      });
+
+      await lockorManager.unlockFile({ fsPath: '/test/workspace/schema.sql' } as any);
+
+      expect(mockVSCode.workspace.fs.delete).toHaveBeenCalledWith(
+        expect.objectContaining({ fsPath: '/test/workspace/.windsurfrules' })
+      );
+      mockVSCode.workspace.fs.readFile.mockRejectedValue(new Error('File not found'));
+    });
+
+    it('should write into a .clinerules folder', async () => {
+      enableRuleFiles({ cline: true });
+      mockVSCode.workspace.fs.stat.mockImplementation(async (uri: any) => ({
+        type: uri.fsPath === '/test/workspace/.clinerules' ? mockVSCode.FileType.Directory : mockVSCode.FileType.File
+      }));
+
+      await lockorManager.lockFile({ fsPath: '/test/workspace/schema.sql' } as any);
+
+      expect(ruleFileWrite('.clinerules/lockor.md')).toContain('- `schema.sql`');
+      mockVSCode.workspace.fs.stat.mockReset();
+    });
+  });
+
+  describe('Hidden Files', () => {
+    const written = (suffix: string) => {
+      const write = mockVSCode.workspace.fs.writeFile.mock.calls.filter(
+        ([uri]: any[]) => uri.fsPath.endsWith(suffix)
+      ).pop();
+      return write ? Buffer.from(write[1]).toString('utf8') : undefined;
+    };
+
+    it('should list hidden files in every AI ignore file', async () => {
+      await lockorManager.lockFile({ fsPath: '/test/workspace/secrets.env' } as any, 'hidden', {});
+
+      for (const ignoreFile of ['.cursorignore', '.cursorindexingignore', '.aiexclude', '.codeiumignore', '.aiderignore']) {
+        expect(written(`/test/workspace/${ignoreFile}`)).toContain('\n/secrets.env\n# lockor:hidden:end\n');
+      }
+    });
+
+    it('should not touch ignore files for other levels', async () => {
+      await lockorManager.lockFile({ fsPath: '/test/workspace/schema.sql' } as any, 'hard', {});
+
+      expect(written('.cursorignore')).toBeUndefined();
+    });
+
+    it('should leave user-authored ignore files without a Lockor block alone', async () => {
+      mockVSCode.workspace.fs.readFile.mockImplementation(async (uri: any) => {
+        if (uri.fsPath === '/test/workspace/.aiexclude') {
+          return Buffer.from('node_modules/\n\n  \n');
+        }
+        if (uri.fsPath === '/test/workspace/.aiderignore') {
+          return Buffer.from('\n');
+        }
+        throw new Error('ENOENT');
+      });
+
+      await lockorManager.lockFile({ fsPath: '/test/workspace/schema.sql' } as any, 'hard', {});
+
+      expect(written('.aiexclude')).toBeUndefined();
+      expect(written('.aiderignore')).toBeUndefined();
+      expect(mockVSCode.workspace.fs.delete).not.toHaveBeenCalledWith(expect.objectContaining({ fsPath: '/test/workspace/.aiderignore' }));
+      mockVSCode.workspace.fs.readFile.mockRejectedValue(new Error('File not found'));
+    });
+
+    it('should remove the entry on unlock and keep user-authored lines', async () => {
+      await lockorManager.lockFile({ fsPath: '/test/workspace/secrets.env' } as any, 'hidden', {});
+      const block = written('.cursorignore')!;
+      mockVSCode.workspace.fs.readFile.mockImplementation(async (uri: any) => {
+        if (uri.fsPath === '/test/workspace/.cursorignore') {
+          return Buffer.from(`node_modules/\n\n${block}`);
+        }
+        throw new Error('ENOENT');
+      });
+
+      await lockorManager.unlockFile({ fsPath: '/test/workspace/secrets.env' } as any);
+
+      expect(written('.cursorignore')).toBe('node_modules/\n');
+      mockVSCode.workspace.fs.readFile.mockRejectedValue(new Error('File not found'));
+    });
+  });
+
   describe('File State Management', () => {
     it('should load locked files from workspace state', () => {
       const storedFiles = ['/test/file1.txt', '/test/file2.txt'];
@@ -208,6 +889,71 @@ describe('LockorManager', () => {
         '🔒 File "file.txt" is now locked'
       );
     }, 10000);
+
+    it('should give a lock its own protection level', async () => {
+      const testUri = { fsPath: '/test/workspace/keys.pem' };
+      await lockorManager.lockFile(testUri as any, 'soft');
+
+      expect(lockorManager.getProtectionLevel(testUri as any)).toBe('soft');
+      expect(lockorManager.hasOwnProtectionLevel(testUri as any)).toBe(true);
+      expect(lockorManager.getProtectionLevel({ fsPath: '/test/workspace/other.ts' } as any)).toBe('ai-aware');
+    });
+
+    it('should apply a folder level to files inside it', async () => {
+      mockVSCode.workspace.fs.stat.mockResolvedValueOnce({ type: mockVSCode.FileType.Directory });
+      await lockorManager.lockFile({ fsPath: '/test/workspace/docs' } as any, 'soft');
+
+      expect(lockorManager.getProtectionLevel({ fsPath: '/test/workspace/docs/guide.md' } as any)).toBe('soft');
+    });
+
+    it('should revert to the default level', async () => {
+      const testUri = { fsPath: '/test/workspace/keys.pem' };
+      await lockorManager.lockFile(testUri as any, 'soft');
+      await lockorManager.setProtectionLevel(testUri as any, undefined);
+
+      expect(lockorManager.hasOwnProtectionLevel(testUri as any)).toBe(false);
+      expect(lockorManager.getProtectionLevel(testUri as any)).toBe('ai-aware');
+    });
+
+    it('should forget the level when the file is unlocked', async () => {
+      const testUri = { fsPath: '/test/workspace/keys.pem' };
+      await lockorManager.lockFile(testUri as any, 'soft');
+      await lockorManager.unlockFile(testUri as any);
+      await lockorManager.lockFile(testUri as any);
+
+      expect(lockorManager.hasOwnProtectionLevel(testUri as any)).toBe(false);
+    });
+
+    it('should split strict and soft files in the Cursor rules', async () => {
+      await lockorManager.lockFile({ fsPath: '/test/workspace/notes.md' } as any, 'soft');
+      await lockorManager.lockFile({ fsPath: '/test/workspace/schema.sql' } as any);
+
+      const rulesWrite = mockVSCode.workspace.fs.writeFile.mock.calls.filter(
+        ([uri]: any[]) => uri.fsPath.endsWith('lockor.mdc')
+      ).pop();
+      const rules = Buffer.from(rulesWrite![1]).toString('utf8');
+      const strictSection = rules.slice(rules.indexOf('# LOCKED FILES'), rules.indexOf('# PROTECTED FILES'));
+      const softSection = rules.slice(rules.indexOf('# PROTECTED FILES'));
+      expect(rules).toContain('description: "CRITICAL');
+      expect(strictSection).toContain('- `schema.sql`');
+      expect(strictSection).not.toContain('notes.md');
+      expect(softSection).toContain('- `notes.md`');
+    });
+
+    it('should record explicit levels in the manifest and restore them', async () => {
+      await lockorManager.lockFile({ fsPath: '/test/workspace/keys.pem' } as any, 'soft');
+      const statusWrite = mockVSCode.workspace.fs.writeFile.mock.calls.filter(
+        ([uri]: any[]) => uri.fsPath.endsWith('.lockor')
+      ).pop();
+      const yaml = Buffer.from(statusWrite![1]).toString('utf8');
+      expect(yaml).toContain('  - path: "keys.pem"\n    level: "soft"');
+
+      const manager = new LockorManager(mockContext as any);
+      mockVSCode.workspace.fs.readFile.mockResolvedValueOnce(statusWrite![1]);
+      await manager.loadManifest();
+
+      expect(manager.getProtectionLevel({ fsPath: '/test/workspace/keys.pem' } as any)).toBe('soft');
+    });
   });
 
   describe('File Operations', () => {
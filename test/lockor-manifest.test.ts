@@ -0,0 +1,86 @@
+/**
+ * Unit tests for the .lockor manifest format
+ * Tests serialization and parsing of shared lock manifests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseManifest, serializeManifest } from '../src/lockor-manifest';
+
+describe('Lockor Manifest', () => {
+  describe('Serialization', () => {
+    it('should write relative paths only', () => {
+      const yaml = serializeManifest({
+        protectionLevel: 'hard',
+        files: [{ path: 'src/config.ts' }, { path: 'migrations', type: 'folder' }],
+        patterns: [{ pattern: '**/*.lock', matches: ['pnpm.lock'] }]
+      });
+
+      expect(yaml).toContain('protection_level: "hard"');
+      expect(yaml).toContain('  - path: "src/config.ts"');
+      expect(yaml).toContain('    type: "folder"');
+      expect(yaml).toContain('    matches: ["pnpm.lock"]');
+      expect(yaml).toContain('total_locked_files: 1');
+      expect(yaml).toContain('total_locked_folders: 1');
+      expect(yaml).not.toContain('absolute:');
+      expect(yaml).not.toContain('generated:');
+    });
+
+    it('should explain the hidden protection level', () => {
+      const yaml = serializeManifest({ protectionLevel: 'hidden', files: [{ path: '.env' }], patterns: [] });
+
+      expect(yaml).toContain('  mode: "hidden"');
+      expect(yaml).toContain('  save_blocking: false');
+      expect(yaml).toContain('  os_readonly: false');
+    });
+
+    it('should escape quotes in paths', () => {
+      const yaml = serializeManifest({ files: [{ path: 'docs/"quoted".md' }], patterns: [] });
+      expect(parseManifest(yaml).files[0].path).toBe('docs/"quoted".md');
+    });
+  });
+
+  describe('Parsing', () => {
+    it('should round-trip a serialized manifest', () => {
+      const manifest = {
+        protectionLevel: 'soft',
+        files: [{ path: 'migrations', type: 'folder' as const }, { path: '.env' }],
+        patterns: [{ pattern: '*.pem', matches: ['server.pem', 'client.pem'] }]
+      };
+
+      expect(parseManifest(serializeManifest(manifest))).toEqual(manifest);
+    });
+
+    it('should round-trip content hashes', () => {
+      const sha256 = 'a'.repeat(64);
+      const yaml = serializeManifest({ files: [{ path: 'schema.sql', sha256 }], patterns: [] });
+
+      expect(yaml).toContain(`    sha256: "${sha256}"`);
+      expect(parseManifest(yaml).files[0].sha256).toBe(sha256);
+    });
+
+    it('should read manifests written by earlier versions', () => {
+      const legacy = [
+        '# ⚠️  DO NOT EDIT THIS FILE MANUALLY',
+        'version: "1.0"',
+        'generated: "2025-09-06T17:46:39.469Z"',
+        'protection_level: "ai-aware"',
+        'locked_files:',
+        '  - path: "demo-config.js"',
+        '    absolute: "/Users/someone/lockor/demo-config.js"',
+        'protection_info:',
+        '  mode: "ai-aware"'
+      ].join('\n');
+
+      const manifest = parseManifest(legacy);
+      expect(manifest.protectionLevel).toBe('ai-aware');
+      expect(manifest.files).toHaveLength(1);
+      expect(manifest.files[0].path).toBe('demo-config.js');
+      expect(manifest.patterns).toEqual([]);
+    });
+
+    it('should ignore entries without a path', () => {
+      const manifest = parseManifest('locked_files:\n  - type: "folder"\n');
+      expect(manifest.files).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Unit tests for the Lockor MCP server
+ * Runs tool calls against a scratch workspace with a .lockor manifest
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// The server works on the real file system
+vi.unmock('fs');
+vi.unmock('path');
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { LockorMcpServer } from '../src/mcp-server';
+import { EDITOR_FILE_NAME, getUnlockRequestDir, REQUEST_SUFFIX, RESPONSE_SUFFIX } from '../src/unlock-requests';
+
+describe('Lockor MCP server', () => {
+  let root: string;
+  let server: LockorMcpServer;
+
+  const callTool = async (name: string, args: Record<string, unknown> = {}) => {
+    const response: any = await server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } });
+    return response.error ? response : JSON.parse(response.result.content[0].text);
+  };
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'lockor-mcp-')));
+    fs.mkdirSync(path.join(root, 'src'));
+    fs.writeFileSync(path.join(root, 'src/config.ts'), 'export const port = 80;');
+    fs.writeFileSync(path.join(root, '.lockor'), [
+      'protection_level: "ai-aware"',
+      'locked_files:',
+      '  - path: "src/config.ts"',
+      '    level: "hard"',
+      '    reason: "Production settings"',
+      '  - path: "migrations"',
+      '    type: "folder"',
+      'locked_patterns:',
+      '  - pattern: "**/*.lock"'
+    ].join('\n'));
+    server = new LockorMcpServer({ root, unlockTimeoutMs: 2000, pollIntervalMs: 10 });
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+    fs.rmSync(getUnlockRequestDir(root), { recursive: true, force: true });
+  });
+
+  it('should answer initialize with its tools capability', async () => {
+    const response: any = await server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26' } });
+
+    expect(response.result).toMatchObject({
+      protocolVersion: '2025-03-26',
+      capabilities: { tools: {} },
+      serverInfo: { name: 'lockor' }
+    });
+  });
+
+  it('should list its tools', async () => {
+    const response: any = await server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+    expect(response.result.tools.map((tool: any) => tool.name)).toEqual(['list_locked_files', 'is_locked', 'request_unlock']);
+  });
+
+  it('should not answer notifications', async () => {
+    expect(await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeUndefined();
+  });
+
+  it('should report unknown methods', async () => {
+    const response: any = await server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'resources/list' });
+
+    expect(response.error.code).toBe(-32601);
+  });
+
+  it('should report failures as internal errors', async () => {
+    fs.rmSync(path.join(root, '.lockor'));
+    fs.mkdirSync(path.join(root, '.lockor'));
+
+    const response = await callTool('list_locked_files');
+
+    expect(response.error.code).toBe(-32603);
+  });
+
+  it('should list locked files, folders and patterns', async () => {
+    expect(await callTool('list_locked_files')).toMatchObject({
+      defaultProtectionLevel: 'ai-aware',
+      files: [{ path: 'src/config.ts', level: 'hard', reason: 'Production settings' }],
+      folders: [{ path: 'migrations', level: 'ai-aware' }],
+      patterns: ['**/*.lock']
+    });
+  });
+
+  it('should check paths against files, folders and patterns', async () => {
+    const { results } = await callTool('is_locked', {
+      paths: ['src/config.ts', path.join(root, 'migrations/001.sql'), 'pnpm.lock', 'src/app.ts', '../elsewhere.ts']
+    });
+
+    expect(results).toEqual([
+      expect.objectContaining({ path: 'src/config.ts', locked: true, protectionLevel: 'hard', reason: 'Production settings', canModify: false }),
+      expect.objectContaining({ path: 'migrations/001.sql', locked: true, lockedBy: 'folder', entry: 'migrations' }),
+      expect.objectContaining({ path: 'pnpm.lock', locked: true, lockedBy: 'pattern', entry: '**/*.lock' }),
+      expect.objectContaining({ path: 'src/app.ts', locked: false, canModify: true }),
+      expect.objectContaining({ path: '../elsewhere.ts', locked: false })
+    ]);
+  });
+
+  it('should reject is_locked without paths', async () => {
+    const response = await callTool('is_locked', { paths: 'src/config.ts' });
+
+    expect(response.error.code).toBe(-32602);
+  });
+
+  it('should tell the agent to ask the user when no editor is listening', async () => {
+    expect(await callTool('request_unlock', { path: 'src/config.ts', reason: 'Change the port' })).toMatchObject({
+      path: 'src/config.ts',
+      decision: 'no-editor'
+    });
+  });
+
+  it('should pass unlock requests to the editor and return its answer', async () => {
+    const directory = getUnlockRequestDir(root);
+    fs.mkdirSync(directory, { recursive: true });
+    fs.writeFileSync(path.join(directory, EDITOR_FILE_NAME), JSON.stringify({ pid: process.pid }));
+
+    // Stand in for the extension: answer the first request that shows up
+    const answer = setInterval(() => {
+      const requestFile = fs.readdirSync(directory).find(name => name.endsWith(REQUEST_SUFFIX));
+      if (requestFile) {
+        const request = JSON.parse(fs.readFileSync(path.join(directory, requestFile), 'utf8'));
+        expect(request).toMatchObject({ path: 'src/config.ts', reason: 'Change the port' });
+        fs.writeFileSync(path.join(directory, requestFile.replace(REQUEST_SUFFIX, RESPONSE_SUFFIX)), JSON.stringify({ id: request.id, decision: 'unlocked' }));
+        clearInterval(answer);
+      }
+    }, 5);
+
+    try {
+      expect(await callTool('request_unlock', { path: 'src/config.ts', reason: 'Change the port' })).toMatchObject({ decision: 'unlocked' });
+      expect(fs.readdirSync(directory)).toEqual([EDITOR_FILE_NAME]);
+    } finally {
+      clearInterval(answer);
+    }
+  });
+
+  it('should wait for an answer that is still being written', async () => {
+    const directory = getUnlockRequestDir(root);
+    fs.mkdirSync(directory, { recursive: true });
+    fs.writeFileSync(path.join(directory, EDITOR_FILE_NAME), JSON.stringify({ pid: process.pid }));
+
+    // Answer in two halves, a few polls apart
+    let responseFile: string | undefined;
+    const answer = setInterval(() => {
+      const requestFile = fs.readdirSync(directory).find(name => name.endsWith(REQUEST_SUFFIX));
+      if (!responseFile && requestFile) {
+        const request = JSON.parse(fs.readFileSync(path.join(directory, requestFile), 'utf8'));
+        responseFile = path.join(directory, requestFile.replace(REQUEST_SUFFIX, RESPONSE_SUFFIX));
+        fs.writeFileSync(responseFile, `{ "id": "${request.id}", `);
+        setTimeout(() => fs.appendFileSync(responseFile!, '"decision": "unlocked" }'), 50);
+        clearInterval(answer);
+      }
+    }, 5);
+
+    try {
+      expect(await callTool('request_unlock', { path: 'src/config.ts', reason: 'Change the port' })).toMatchObject({ decision: 'unlocked' });
+    } finally {
+      clearInterval(answer);
+    }
+  });
+
+  it('should not ask to unlock paths that are not locked', async () => {
+    expect(await callTool('request_unlock', { path: 'src/app.ts', reason: 'Refactor' })).toMatchObject({ decision: 'not-locked' });
+  });
+
+  it('should serve newline-delimited JSON-RPC over streams', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const lines: string[] = [];
+    output.on('data', chunk => lines.push(...chunk.toString().split('\n').filter(Boolean)));
+
+    const served = server.serve(input, output);
+    input.write('{"jsonrpc":"2.0","id":1,"method":"ping"}\n');
+    input.write('not json\n');
+    input.end();
+    await served;
+
+    // Answers go out as each call finishes, so their order isn't fixed
+    const responses = lines.map(line => JSON.parse(line));
+    expect(responses).toHaveLength(2);
+    expect(responses).toContainEqual({ jsonrpc: '2.0', id: 1, result: {} });
+    expect(responses).toContainEqual({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Invalid JSON' } });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for ReadOnlyEditorManager class
+ * Tests making editors of locked files read-only and writable again
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ReadOnlyEditorManager } from '../src/read-only-editor-manager';
+import { mockVSCode } from './setup';
+
+describe('ReadOnlyEditorManager', () => {
+  let manager: ReadOnlyEditorManager;
+  let mockLockorManager: any;
+  let readOnlyEditors: Record<string, boolean>;
+  const editor = { document: { uri: { scheme: 'file', fsPath: '/test/workspace/schema.sql' } } } as any;
+
+  const executedCommands = () => mockVSCode.commands.executeCommand.mock.calls
+    .map(([command]: any[]) => command)
+    .filter((command: string) => command !== 'setContext');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    readOnlyEditors = {};
+
+    mockVSCode.workspace.getConfiguration.mockReturnValue({
+      get: vi.fn().mockImplementation((key: string, defaultValue: any) =>
+        key === 'readOnlyEditors' ? readOnlyEditors : defaultValue
+      )
+    });
+    mockVSCode.commands.executeCommand.mockResolvedValue(undefined);
+
+    mockLockorManager = {
+      isFileLocked: vi.fn().mockReturnValue(true),
+      getProtectionLevel: vi.fn().mockReturnValue('ai-aware')
+    };
+
+    manager = new ReadOnlyEditorManager(mockLockorManager);
+  });
+
+  it('should make the editor of a locked file read-only once', async () => {
+    await manager.updateActiveEditor(editor);
+    await manager.updateActiveEditor(editor);
+
+    expect(executedCommands()).toEqual(['workbench.action.files.setActiveEditorReadonlyInSession']);
+    expect(mockVSCode.commands.executeCommand).toHaveBeenCalledWith('setContext', 'lockor.activeEditorReadOnly', true);
+  });
+
+  it('should make the editor writable again once the file is unlocked', async () => {
+    await manager.updateActiveEditor(editor);
+    mockLockorManager.isFileLocked.mockReturnValue(false);
+
+    await manager.updateActiveEditor(editor);
+
+    expect(executedCommands()).toEqual([
+      'workbench.action.files.setActiveEditorReadonlyInSession',
+      'workbench.action.files.resetActiveEditorReadonlyInSession'
+    ]);
+    expect(mockVSCode.commands.executeCommand).toHaveBeenLastCalledWith('setContext', 'lockor.activeEditorReadOnly', false);
+  });
+
+  it('should leave soft locks and unlocked files writable by default', async () => {
+    mockLockorManager.getProtectionLevel.mockReturnValue('soft');
+    await manager.updateActiveEditor(editor);
+    mockLockorManager.isFileLocked.mockReturnValue(false);
+    await manager.updateActiveEditor(editor);
+
+    expect(executedCommands()).toEqual([]);
+  });
+
+  it('should respect levels turned off in the settings', async () => {
+    readOnlyEditors = { 'ai-aware': false };
+
+    await manager.updateActiveEditor(editor);
+
+    expect(manager.isReadOnlyLevel('ai-aware')).toBe(false);
+    expect(manager.isReadOnlyLevel('hard')).toBe(true);
+    expect(executedCommands()).toEqual([]);
+  });
+
+  it('should ignore editors that are not files on disk', async () => {
+    await manager.updateActiveEditor({ document: { uri: { scheme: 'untitled', fsPath: 'Untitled-1' } } } as any);
+
+    expect(mockLockorManager.isFileLocked).not.toHaveBeenCalled();
+    expect(mockVSCode.commands.executeCommand).toHaveBeenCalledWith('setContext', 'lockor.activeEditorReadOnly', false);
+  });
+
+  it('should keep working when VS Code has no read-only editors', async () => {
+    mockVSCode.commands.executeCommand.mockImplementation(async (command: string) => {
+      if (command !== 'setContext') {
+        throw new Error(`command '${command}' not found`);
+      }
+    });
+
+    await expect(manager.updateActiveEditor(editor)).resolves.toBeUndefined();
+    expect(mockVSCode.commands.executeCommand).toHaveBeenCalledWith('setContext', 'lockor.activeEditorReadOnly', false);
+    mockVSCode.commands.executeCommand.mockReset();
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Unit tests for RegionLockManager class
+ * Tests edit tracking, warnings and reverts for locked line ranges
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RegionLockManager } from '../src/region-lock-manager';
+import { LockedRegion, RegionSource } from '../src/region-lock';
+import { mockVSCode } from './setup';
+
+describe('RegionLockManager', () => {
+  let regionLockManager: RegionLockManager;
+  let mockLockorManager: any;
+  let regions: LockedRegion[];
+  let protectionLevel: string;
+  let replace: ReturnType<typeof vi.fn>;
+
+  const createDocument = (text: string) => ({
+    uri: { fsPath: '/test/workspace/algo.ts', scheme: 'file', toString: () => 'file:///test/workspace/algo.ts' },
+    getText: () => text,
+    positionAt: (offset: number) => ({ offset })
+  });
+
+  const createEvent = (document: any, change: { startLine: number; endLine: number; rangeOffset: number; rangeLength: number; text: string }) => ({
+    document,
+    contentChanges: [{
+      range: { start: { line: change.startLine }, end: { line: change.endLine } },
+      rangeOffset: change.rangeOffset,
+      rangeLength: change.rangeLength,
+      text: change.text
+    }]
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    regions = [{ startLine: 2, endLine: 3, source: 'selection' }];
+    protectionLevel = 'ai-aware';
+    mockLockorManager = {
+      getLockedRegions: vi.fn(() => regions),
+      updateRegions: vi.fn((uri: any, source: RegionSource, next: LockedRegion[]) => {
+        regions = [...regions.filter(region => region.source !== source), ...next];
+        return true;
+      }),
+      getCommentFormat: vi.fn().mockReturnValue({ start: '/*', end: '*/' }),
+      getProtectionLevel: vi.fn(() => protectionLevel),
+      isFileLocked: vi.fn().mockReturnValue(false),
+      updateCursorRules: vi.fn().mockResolvedValue(undefined),
+      lockRegion: vi.fn().mockResolvedValue(undefined)
+    };
+
+    replace = vi.fn();
+    mockVSCode.WorkspaceEdit.mockImplementation(function () {
+      return { replace };
+    });
+    mockVSCode.workspace.getConfiguration.mockReturnValue({
+      get: vi.fn().mockImplementation((key: string, defaultValue: any) => defaultValue)
+    });
+
+    regionLockManager = new RegionLockManager(mockLockorManager, { fsPath: '/ext' } as any);
+  });
+
+  afterEach(() => {
+    regionLockManager.dispose();
+  });
+
+  it('should create a gutter decoration', () => {
+    expect(mockVSCode.window.createTextEditorDecorationType).toHaveBeenCalledWith(
+      expect.objectContaining({ gutterIconPath: expect.objectContaining({ fsPath: '/ext/assets/region-lock.svg' }) })
+    );
+  });
+
+  it('should lock the lines of the selection', async () => {
+    const editor = {
+      document: createDocument('a\nb\nc\nd\n'),
+      selection: { start: { line: 1, character: 0 }, end: { line: 3, character: 0 } }
+    };
+
+    await regionLockManager.lockSelection(editor as any);
+
+    expect(mockLockorManager.lockRegion).toHaveBeenCalledWith(editor.document.uri, 1, 2);
+  });
+
+  it('should shift regions when lines are inserted above them', async () => {
+    const document = createDocument('new\na\nb\nc\nd\n');
+
+    await regionLockManager.handleDocumentChanged(createEvent(document, {
+      startLine: 0, endLine: 0, rangeOffset: 0, rangeLength: 0, text: 'new\n'
+    }) as any);
+
+    expect(regions).toEqual([{ startLine: 3, endLine: 4, source: 'selection' }]);
+    expect(mockVSCode.window.showWarningMessage).not.toHaveBeenCalled();
+  });
+
+  it('should warn once when a locked region is edited', async () => {
+    const document = createDocument('a\nb\nC\nd\n');
+    const event = createEvent(document, { startLine: 2, endLine: 2, rangeOffset: 4, rangeLength: 1, text: 'C' });
+
+    await regionLockManager.handleDocumentChanged(event as any);
+    await regionLockManager.handleDocumentChanged(event as any);
+
+    expect(mockVSCode.window.showWarningMessage).toHaveBeenCalledTimes(1);
+    expect(mockVSCode.workspace.applyEdit).not.toHaveBeenCalled();
+  });
+
+  it('should revert edits to a locked region in hard mode', async () => {
+    protectionLevel = 'hard';
+    await regionLockManager.handleDocumentOpened(createDocument('a\nb\nc\nd\n') as any);
+
+    const document = createDocument('a\nb\nCHANGED\nd\n');
+    await regionLockManager.handleDocumentChanged(createEvent(document, {
+      startLine: 2, endLine: 2, rangeOffset: 4, rangeLength: 1, text: 'CHANGED'
+    }) as any);
+
+    expect(replace).toHaveBeenCalledWith(document.uri, expect.anything(), 'c');
+    expect(mockVSCode.workspace.applyEdit).toHaveBeenCalled();
+    expect(mockVSCode.window.showErrorMessage).toHaveBeenCalledWith(expect.stringContaining('The edit was reverted'));
+  });
+
+  it('should pick up lockor:begin/lockor:end comments', async () => {
+    regions = [];
+
+    await regionLockManager.handleDocumentOpened(createDocument('a\n// lockor:begin\nb\n// lockor:end\n') as any);
+
+    expect(regions).toEqual([{ startLine: 1, endLine: 3, source: 'marker' }]);
+    expect(mockLockorManager.updateCursorRules).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for region lock helpers
+ * Tests marker detection and line tracking for locked line ranges
+ */
+
+import { describe, it, expect } from 'vitest';
+import { changeIntersectsRegion, findMarkerRegions, formatRegion, LockedRegion, shiftRegions } from '../src/region-lock';
+
+const region = (startLine: number, endLine: number): LockedRegion => ({ startLine, endLine, source: 'selection' });
+
+describe('Region Locks', () => {
+  describe('Marker Regions', () => {
+    it('should find blocks between begin and end comments', () => {
+      const lines = [
+        'const a = 1;',
+        '// lockor:begin',
+        'const b = 2;',
+        '// lockor:end',
+        'const c = 3;'
+      ];
+
+      expect(findMarkerRegions(lines, ['//', '/*'])).toEqual([{ startLine: 1, endLine: 3, source: 'marker' }]);
+    });
+
+    it('should ignore markers outside comments', () => {
+      const lines = ['const marker = "lockor:begin";', 'x', 'const end = "lockor:end";'];
+
+      expect(findMarkerRegions(lines, ['#'])).toEqual([]);
+    });
+
+    it('should lock to the end of the file when the end marker is missing', () => {
+      const lines = ['# lockor:begin', 'a', 'b'];
+
+      expect(findMarkerRegions(lines, ['#'])).toEqual([{ startLine: 0, endLine: 2, source: 'marker' }]);
+    });
+  });
+
+  describe('Line Tracking', () => {
+    it('should shift regions below an insertion', () => {
+      const shifted = shiftRegions([region(5, 8)], { startLine: 1, endLine: 1, insertedLineCount: 2 });
+
+      expect(shifted).toEqual([region(7, 10)]);
+    });
+
+    it('should shift regions up when lines above are deleted', () => {
+      const shifted = shiftRegions([region(5, 8)], { startLine: 1, endLine: 3, insertedLineCount: 0 });
+
+      expect(shifted).toEqual([region(3, 6)]);
+    });
+
+    it('should leave regions above the change alone', () => {
+      const shifted = shiftRegions([region(1, 2)], { startLine: 5, endLine: 5, insertedLineCount: 3 });
+
+      expect(shifted).toEqual([region(1, 2)]);
+    });
+
+    it('should resize regions when lines inside change', () => {
+      const shifted = shiftRegions([region(5, 8)], { startLine: 6, endLine: 6, insertedLineCount: 1 });
+
+      expect(shifted).toEqual([region(5, 9)]);
+    });
+
+    it('should detect changes that touch a region', () => {
+      expect(changeIntersectsRegion({ startLine: 8, endLine: 9, insertedLineCount: 0 }, region(5, 8))).toBe(true);
+      expect(changeIntersectsRegion({ startLine: 9, endLine: 9, insertedLineCount: 0 }, region(5, 8))).toBe(false);
+    });
+  });
+
+  describe('Formatting', () => {
+    it('should format one-based line spans', () => {
+      expect(formatRegion(region(0, 0))).toBe('line 1');
+      expect(formatRegion(region(4, 9))).toBe('lines 5-10');
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Unit tests for rule emitters
+ * Tests maintaining the Lockor section of other AI tools' instruction files
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyManagedSection,
+  hasManagedSection,
+  MANAGED_SECTION_BEGIN,
+  MANAGED_SECTION_END,
+  RULE_EMITTERS
+} from '../src/rule-emitters';
+
+describe('Rule Emitters', () => {
+  it('should cover every supported tool', () => {
+    expect(RULE_EMITTERS.map(emitter => emitter.relativePath)).toEqual([
+      '.github/copilot-instructions.md',
+      'AGENTS.md',
+      'CLAUDE.md',
+      '.windsurfrules',
+      '.clinerules'
+    ]);
+  });
+
+  describe('Managed Section', () => {
+    it('should create a file holding only the section', () => {
+      expect(applyManagedSection('', '# LOCKED FILES\n')).toBe(`${MANAGED_SECTION_BEGIN}\n# LOCKED FILES\n${MANAGED_SECTION_END}\n`);
+    });
+
+    it('should append the section after hand-written content', () => {
+      const updated = applyManagedSection('# Project notes\n\nUse pnpm.\n', '# LOCKED FILES');
+
+      expect(updated).toBe(`# Project notes\n\nUse pnpm.\n\n${MANAGED_SECTION_BEGIN}\n# LOCKED FILES\n${MANAGED_SECTION_END}\n`);
+      expect(hasManagedSection(updated)).toBe(true);
+    });
+
+    it('should replace the section in place, keeping content before and after it', () => {
+      const existing = `# Intro\n\n${MANAGED_SECTION_BEGIN}\nold rules\n${MANAGED_SECTION_END}\n\n# Footer\n`;
+
+      expect(applyManagedSection(existing, 'new rules')).toBe(`# Intro\n\n${MANAGED_SECTION_BEGIN}\nnew rules\n${MANAGED_SECTION_END}\n\n# Footer\n`);
+    });
+
+    it('should remove the section and leave hand-written content alone', () => {
+      const existing = `# Intro\n\n${MANAGED_SECTION_BEGIN}\nold rules\n${MANAGED_SECTION_END}\n\n# Footer\n`;
+
+      expect(applyManagedSection(existing, undefined)).toBe('# Intro\n\n# Footer\n');
+    });
+
+    it('should leave nothing when the file held only the section', () => {
+      expect(applyManagedSection(`${MANAGED_SECTION_BEGIN}\nold rules\n${MANAGED_SECTION_END}\n`, undefined)).toBe('');
+    });
+
+    it('should leave files without a section alone when there is nothing to add', () => {
+      expect(applyManagedSection('# My rules\n\n', undefined)).toBe('# My rules\n\n');
+      expect(applyManagedSection('# My rules', undefined)).toBe('# My rules');
+      expect(applyManagedSection(' \n', undefined)).toBe(' \n');
+    });
+
+    it('should keep Windows line endings', () => {
+      expect(applyManagedSection('# Notes\r\n', 'line one\nline two')).toBe(
+        `# Notes\r\n\r\n${MANAGED_SECTION_BEGIN}\r\nline one\r\nline two\r\n${MANAGED_SECTION_END}\r\n`
+      );
+    });
+  });
+});
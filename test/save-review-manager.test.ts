@@ -0,0 +1,175 @@
+/**
+ * Unit tests for SaveReviewManager class
+ * Tests holding back saves of locked files until their diff is accepted
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SaveReviewManager } from '../src/save-review-manager';
+import { mockVSCode } from './setup';
+
+describe('SaveReviewManager', () => {
+  let manager: SaveReviewManager;
+  let mockLockorManager: any;
+  let mockSnapshotManager: any;
+  let mockEditRevertManager: any;
+  let mockAuditLog: any;
+  let mockContext: any;
+  let stored: Record<string, any>;
+  let reviewLevels: Record<string, boolean>;
+  let text: string;
+  let replace: ReturnType<typeof vi.fn>;
+
+  const document = {
+    uri: { fsPath: '/test/workspace/config.ts', path: '/test/workspace/config.ts', scheme: 'file', toString: () => 'file:///test/workspace/config.ts' },
+    isClosed: false,
+    getText: () => text,
+    positionAt: (offset: number) => ({ offset }),
+    save: vi.fn()
+  } as any;
+
+  // Run a save: collect the edits the participant asks for and apply them like the editor would
+  const save = async () => {
+    let edits: Promise<any[]> | undefined;
+    const result = manager.handleWillSaveDocument({ document, reason: 1, waitUntil: (thenable: any) => { edits = thenable; } } as any);
+    for (const edit of await edits ?? []) {
+      text = edit.newText;
+    }
+    // Let the review run up to its prompt
+    await new Promise(resolve => setTimeout(resolve, 0));
+    return result;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    text = 'export const port = 8080;\n';
+    reviewLevels = { soft: true };
+    mockLockorManager = {
+      isFileLocked: vi.fn().mockReturnValue(true),
+      getProtectionLevel: vi.fn().mockReturnValue('soft')
+    };
+    mockSnapshotManager = {
+      getSnapshot: vi.fn().mockResolvedValue(Buffer.from('export const port = 80;\n'))
+    };
+    mockEditRevertManager = { expectChange: vi.fn() };
+    mockAuditLog = { record: vi.fn().mockResolvedValue(undefined) };
+    stored = {};
+    mockContext = {
+      workspaceState: {
+        get: vi.fn((key: string, defaultValue: any) => key === 'lockor.pendingReviews' ? stored : defaultValue),
+        update: vi.fn((key: string, value: any) => { stored = value; })
+      }
+    };
+
+    replace = vi.fn((uri: any, range: any, newText: string) => {
+      text = newText;
+    });
+    mockVSCode.WorkspaceEdit.mockImplementation(function () {
+      return { replace };
+    });
+    mockVSCode.workspace.getConfiguration.mockReturnValue({
+      get: vi.fn().mockImplementation((key: string, defaultValue: any) => key === 'reviewBeforeSave' ? reviewLevels : defaultValue)
+    });
+    document.save.mockImplementation(async () => {
+      manager.handleWillSaveDocument({ document, reason: 1, waitUntil: vi.fn() } as any);
+      return true;
+    });
+
+    manager = new SaveReviewManager(mockContext, mockLockorManager, mockSnapshotManager, mockEditRevertManager, mockAuditLog);
+  });
+
+  it('should save the locked version and show a diff of the changes', async () => {
+    mockVSCode.window.showWarningMessage.mockReturnValue(new Promise(() => undefined));
+
+    expect(await save()).toBe('reviewing');
+
+    expect(text).toBe('export const port = 80;\n');
+    const [, lockedUri, changedUri] = mockVSCode.commands.executeCommand.mock.calls.find(call => call[0] === 'vscode.diff')!;
+    expect(manager.provideTextDocumentContent(lockedUri)).toBe('export const port = 80;\n');
+    expect(manager.provideTextDocumentContent(changedUri)).toBe('export const port = 8080;\n');
+    expect(mockVSCode.window.showWarningMessage).toHaveBeenCalledWith(expect.stringContaining('Review the changes'), 'Accept', 'Reject');
+  });
+
+  it('should put the changes back and save them when accepted', async () => {
+    mockVSCode.window.showWarningMessage.mockResolvedValue('Accept');
+
+    await save();
+
+    expect(text).toBe('export const port = 8080;\n');
+    expect(mockEditRevertManager.expectChange).toHaveBeenLastCalledWith(document.uri, 'export const port = 8080;\n');
+    expect(document.save).toHaveBeenCalled();
+  });
+
+  it('should let the accepted save through', async () => {
+    mockVSCode.window.showWarningMessage.mockResolvedValue('Accept');
+    document.save.mockImplementation(async () => {
+      expect(manager.handleWillSaveDocument({ document, reason: 1, waitUntil: vi.fn() } as any)).toBe('accepted');
+      return true;
+    });
+
+    await save();
+
+    expect(document.save).toHaveBeenCalled();
+  });
+
+  it('should keep the locked version when rejected', async () => {
+    mockVSCode.window.showWarningMessage.mockResolvedValue('Reject');
+
+    await save();
+
+    expect(text).toBe('export const port = 80;\n');
+    expect(document.save).not.toHaveBeenCalled();
+    expect(mockAuditLog.record).toHaveBeenCalledWith('save-rejected', document.uri, { level: 'soft' });
+  });
+
+  it('should put the changes back unsaved when the prompt is closed', async () => {
+    mockVSCode.window.showWarningMessage.mockResolvedValue(undefined);
+
+    await save();
+
+    expect(text).toBe('export const port = 8080;\n');
+    expect(document.save).not.toHaveBeenCalled();
+  });
+
+  it('should only review the protection levels it is turned on for', async () => {
+    reviewLevels = { soft: false, 'ai-aware': true };
+
+    expect(await save()).toBeUndefined();
+    expect(mockSnapshotManager.getSnapshot).not.toHaveBeenCalled();
+  });
+
+  it('should let saves without changes through', async () => {
+    text = 'export const port = 80;\n';
+
+    await save();
+
+    expect(mockVSCode.commands.executeCommand).not.toHaveBeenCalledWith('vscode.diff', expect.anything(), expect.anything(), expect.anything());
+  });
+
+  it('should keep changes under review until the review ends', async () => {
+    let answer: (selection: string) => void = () => undefined;
+    mockVSCode.window.showWarningMessage.mockReturnValue(new Promise(resolve => { answer = resolve; }));
+
+    await save();
+    expect(stored).toEqual({ [document.uri.toString()]: { locked: 'export const port = 80;\n', changed: 'export const port = 8080;\n' } });
+
+    answer('Reject');
+    await vi.waitFor(() => expect(stored).toEqual({}));
+  });
+
+  it('should offer changes left by a closed window for review again', async () => {
+    text = 'export const port = 80;\n';
+    stored = { [document.uri.toString()]: { locked: 'export const port = 80;\n', changed: 'export const port = 8080;\n' } };
+    mockVSCode.workspace.openTextDocument.mockResolvedValue(document);
+    mockVSCode.window.showWarningMessage
+      .mockResolvedValueOnce('Review')
+      .mockResolvedValueOnce('Accept');
+    manager = new SaveReviewManager(mockContext, mockLockorManager, mockSnapshotManager, mockEditRevertManager, mockAuditLog);
+
+    await manager.restore();
+
+    expect(mockVSCode.window.showWarningMessage).toHaveBeenCalledWith(expect.stringContaining('waiting for review when the window closed'), 'Review', 'Discard');
+    expect(text).toBe('export const port = 8080;\n');
+    expect(document.save).toHaveBeenCalled();
+    expect(stored).toEqual({});
+  });
+});
@@ -12,33 +12,74 @@ const mockVSCode = {
     showWarningMessage: vi.fn(),
     showErrorMessage: vi.fn(),
     showQuickPick: vi.fn(),
+    showInputBox: vi.fn(),
     createStatusBarItem: vi.fn(),
+    createTextEditorDecorationType: vi.fn(() => ({ dispose: vi.fn() })),
+    createTreeView: vi.fn(() => ({ selection: [] as any[], dispose: vi.fn() })),
+    registerFileDecorationProvider: vi.fn(() => ({ dispose: vi.fn() })),
+    createOutputChannel: vi.fn(() => ({ appendLine: vi.fn(), dispose: vi.fn() })),
+    showTextDocument: vi.fn(),
     activeTextEditor: null,
-    onDidChangeActiveTextEditor: vi.fn()
+    visibleTextEditors: [] as any[],
+    onDidChangeActiveTextEditor: vi.fn(),
+    onDidChangeVisibleTextEditors: vi.fn(),
+    onDidChangeWindowState: vi.fn(),
+    tabGroups: {
+      all: [] as any[],
+      onDidChangeTabs: vi.fn()
+    }
   },
   workspace: {
     getConfiguration: vi.fn(),
     onDidChangeConfiguration: vi.fn(),
     onWillSaveTextDocument: vi.fn(),
     onDidChangeTextDocument: vi.fn(),
+    onDidOpenTextDocument: vi.fn(),
+    onDidSaveTextDocument: vi.fn(),
+    onDidCloseTextDocument: vi.fn(),
+    onDidRenameFiles: vi.fn(),
+    onWillDeleteFiles: vi.fn(),
+    onDidDeleteFiles: vi.fn(),
+    textDocuments: [] as any[],
+    applyEdit: vi.fn().mockResolvedValue(true),
+    onDidChangeWorkspaceFolders: vi.fn(() => ({ dispose: vi.fn() })),
     asRelativePath: vi.fn((path: string) => path),
+    findFiles: vi.fn().mockResolvedValue([]),
+    registerTextDocumentContentProvider: vi.fn(() => ({ dispose: vi.fn() })),
+    openTextDocument: vi.fn(),
     workspaceFolders: [{
-      uri: { fsPath: '/test/workspace' }
-    }],
+      uri: { fsPath: '/test/workspace' },
+      name: 'workspace',
+      index: 0
+    }] as any[],
     fs: {
       createDirectory: vi.fn(),
       writeFile: vi.fn(),
-      delete: vi.fn()
-    }
+      delete: vi.fn(),
+      rename: vi.fn(),
+      stat: vi.fn(),
+      readFile: vi.fn().mockRejectedValue(new Error('File not found')),
+      readDirectory: vi.fn().mockResolvedValue([])
+    },
+    createFileSystemWatcher: vi.fn(() => ({
+      onDidChange: vi.fn(),
+      onDidCreate: vi.fn(),
+      onDidDelete: vi.fn(),
+      dispose: vi.fn()
+    }))
   },
   commands: {
     registerCommand: vi.fn(),
     executeCommand: vi.fn()
   },
+  lm: {
+    registerTool: vi.fn(() => ({ dispose: vi.fn() }))
+  },
   languages: {
     createDiagnosticCollection: vi.fn().mockReturnValue({
       clear: vi.fn(),
       set: vi.fn(),
+      delete: vi.fn(),
       dispose: vi.fn()
     })
   },
@@ -47,7 +88,17 @@ const mockVSCode = {
     joinPath: vi.fn((base: any, ...paths: string[]) => ({
       fsPath: [base.fsPath, ...paths].join('/'),
       toString: () => [base.fsPath, ...paths].join('/')
-    }))
+    })),
+    from: vi.fn((components: any) => ({ ...components, toString: () => `${components.scheme}:${components.path}?${components.query}` })),
+    parse: vi.fn((value: string) => ({ fsPath: value.replace(/^file:\/\//, ''), toString: () => value }))
+  },
+  RelativePattern: vi.fn((base: any, pattern: string) => ({ base, pattern })),
+  Disposable: Object.assign(vi.fn((callOnDispose: () => void) => ({ dispose: callOnDispose })), {
+    from: vi.fn((...disposables: any[]) => ({ dispose: () => disposables.forEach(d => d.dispose()) }))
+  }),
+  QuickPickItemKind: {
+    Separator: -1,
+    Default: 0
   },
   Range: vi.fn(),
   Position: vi.fn(),
@@ -57,14 +108,59 @@ const mockVSCode = {
     Warning: 2,
     Error: 3
   },
+  FileType: {
+    File: 1,
+    Directory: 2
+  },
+  OverviewRulerLane: {
+    Left: 1
+  },
   StatusBarAlignment: {
     Right: 2
   },
   ConfigurationTarget: {
     Workspace: 1
   },
-  ThemeColor: vi.fn(),
+  ThemeColor: vi.fn(function (this: any, id: string) {
+    this.id = id;
+  }),
+  FileDecoration: vi.fn(function (this: any, badge?: string, tooltip?: string, color?: any) {
+    this.badge = badge;
+    this.tooltip = tooltip;
+    this.color = color;
+  }),
+  ThemeIcon: Object.assign(vi.fn((id: string) => ({ id })), {
+    Folder: { id: 'folder' },
+    File: { id: 'file' }
+  }),
+  TreeItem: vi.fn(function (this: any, label: string, collapsibleState?: number) {
+    this.label = label;
+    this.collapsibleState = collapsibleState;
+  }),
+  TreeItemCollapsibleState: {
+    None: 0,
+    Collapsed: 1,
+    Expanded: 2
+  },
+  LanguageModelTextPart: vi.fn(function (this: any, value: string) {
+    this.value = value;
+  }),
+  LanguageModelToolResult: vi.fn(function (this: any, content: any[]) {
+    this.content = content;
+  }),
+  EventEmitter: vi.fn(function (this: any) {
+    const listeners: ((value: any) => void)[] = [];
+    this.event = (listener: (value: any) => void) => {
+      listeners.push(listener);
+      return { dispose: vi.fn() };
+    };
+    this.fire = vi.fn((value: any) => listeners.forEach(listener => listener(value)));
+    this.dispose = vi.fn();
+  }),
   WorkspaceEdit: vi.fn(),
+  TextEdit: {
+    replace: vi.fn((range: any, newText: string) => ({ range, newText }))
+  },
   env: {
     clipboard: {
       writeText: vi.fn()
@@ -80,6 +176,7 @@ vi.mock('fs', () => ({
   default: {
     stat: vi.fn(),
     chmod: vi.fn(),
+    readdir: vi.fn(),
     constants: {
       S_IWUSR: 0o200,
       S_IWGRP: 0o020,
@@ -88,6 +185,7 @@ vi.mock('fs', () => ({
   },
   stat: vi.fn(),
   chmod: vi.fn(),
+  readdir: vi.fn(),
   constants: {
     S_IWUSR: 0o200,
     S_IWGRP: 0o020,
@@ -98,18 +196,37 @@ vi.mock('fs', () => ({
 // Mock path module
 vi.mock('path', () => ({
   default: {
+    sep: '/',
+    join: vi.fn((...parts: string[]) => parts.join('/')),
+    isAbsolute: vi.fn((path: string) => path.startsWith('/')),
+    relative: vi.fn((from: string, to: string) => to.startsWith(from + '/') ? to.slice(from.length + 1) : to),
+    resolve: vi.fn((...parts: string[]) => parts.reduce((resolved, part) => part.startsWith('/') ? part : `${resolved}/${part}`)),
     basename: vi.fn((path: string) => path.split('/').pop() || path),
+    dirname: vi.fn((path: string) => path.split('/').slice(0, -1).join('/') || '/'),
     extname: vi.fn((path: string) => {
       const parts = path.split('.');
       return parts.length > 1 ? '.' + parts.pop() : '';
     })
   },
+  sep: '/',
+  join: vi.fn((...parts: string[]) => parts.join('/')),
+  isAbsolute: vi.fn((path: string) => path.startsWith('/')),
+  relative: vi.fn((from: string, to: string) => to.startsWith(from + '/') ? to.slice(from.length + 1) : to),
+  resolve: vi.fn((...parts: string[]) => parts.reduce((resolved, part) => part.startsWith('/') ? part : `${resolved}/${part}`)),
   basename: vi.fn((path: string) => path.split('/').pop() || path),
+  dirname: vi.fn((path: string) => path.split('/').slice(0, -1).join('/') || '/'),
   extname: vi.fn((path: string) => {
     const parts = path.split('.');
     return parts.length > 1 ? '.' + parts.pop() : '';
   })
 }));
 
+// Mock child_process so git lookups never run in tests
+vi.mock('child_process', () => ({
+  execFile: vi.fn((file: string, args: string[], options: any, callback: any) => {
+    callback(new Error('git not available in tests'), '', '');
+  })
+}));
+
 // Export mock for use in tests
 export { mockVSCode };
@@ -0,0 +1,143 @@
+/**
+ * Unit tests for SnapshotManager class
+ * Tests detection of locked files modified outside the editor
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SnapshotManager } from '../src/snapshot-manager';
+import { mockVSCode } from './setup';
+
+describe('SnapshotManager', () => {
+  let snapshotManager: SnapshotManager;
+  let mockLockorManager: any;
+  let mockContext: any;
+  let files: Map<string, Buffer>;
+  let protectionLevel: string;
+  const testUri = { fsPath: '/test/workspace/config.ts' };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    files = new Map([[testUri.fsPath, Buffer.from('locked')]]);
+    protectionLevel = 'ai-aware';
+    mockContext = {
+      storageUri: { fsPath: '/storage' },
+      workspaceState: {
+        get: vi.fn().mockReturnValue([]),
+        update: vi.fn()
+      }
+    };
+    mockLockorManager = {
+      getLockedFileUris: vi.fn().mockResolvedValue([testUri]),
+      getProtectionLevel: vi.fn(() => protectionLevel),
+      updateLockHash: vi.fn().mockResolvedValue(undefined),
+      writeLockedFile: vi.fn(async (uri: any, content: Uint8Array) => { files.set(uri.fsPath, Buffer.from(content)); })
+    };
+
+    mockVSCode.workspace.fs.readFile.mockImplementation(async (uri: any) => {
+      const content = files.get(uri.fsPath);
+      if (!content) {
+        throw new Error('File not found');
+      }
+      return content;
+    });
+    mockVSCode.workspace.fs.writeFile.mockImplementation(async (uri: any, content: Uint8Array) => {
+      files.set(uri.fsPath, Buffer.from(content));
+    });
+    mockVSCode.workspace.getConfiguration.mockReturnValue({
+      get: vi.fn().mockImplementation((key: string, defaultValue: any) => defaultValue)
+    });
+    mockVSCode.window.showWarningMessage.mockResolvedValue(undefined);
+    mockVSCode.window.showErrorMessage.mockResolvedValue(undefined);
+
+    snapshotManager = new SnapshotManager(mockContext, mockLockorManager);
+    await snapshotManager.syncSnapshots();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const snapshotContents = () => Array.from(files.entries())
+    .filter(([filePath]) => filePath.startsWith('/storage/snapshots/'))
+    .map(([, content]) => content.toString());
+
+  it('should snapshot locked files', () => {
+    expect(snapshotContents()).toEqual(['locked']);
+    expect(mockContext.workspaceState.update).toHaveBeenCalledWith('lockor.snapshots', [testUri.fsPath]);
+  });
+
+  it('should ignore writes that match the snapshot', async () => {
+    await snapshotManager.handleFileChanged(testUri as any);
+
+    expect(mockVSCode.window.showWarningMessage).not.toHaveBeenCalled();
+  });
+
+  it('should offer a diff for external changes in ai-aware mode', async () => {
+    mockVSCode.window.showWarningMessage.mockResolvedValueOnce('Show Diff');
+    files.set(testUri.fsPath, Buffer.from('changed by an agent'));
+
+    await snapshotManager.handleFileChanged(testUri as any);
+    await vi.waitFor(() => expect(mockVSCode.commands.executeCommand).toHaveBeenCalled());
+
+    expect(mockVSCode.commands.executeCommand).toHaveBeenCalledWith(
+      'vscode.diff', expect.objectContaining({ fsPath: expect.stringMatching(/^\/storage\/snapshots\/\w+\.ts$/) }), testUri, expect.any(String)
+    );
+    expect(mockLockorManager.writeLockedFile).not.toHaveBeenCalled();
+  });
+
+  it('should restore hard locked files and keep the rejected content', async () => {
+    protectionLevel = 'hard';
+    files.set(testUri.fsPath, Buffer.from('changed by an agent'));
+
+    await snapshotManager.handleFileChanged(testUri as any);
+
+    expect(files.get(testUri.fsPath)!.toString()).toBe('locked');
+    const rejected = Array.from(files.entries()).find(([filePath]) => filePath.startsWith('/storage/rejected/config.'));
+    expect(rejected?.[1].toString()).toBe('changed by an agent');
+    expect(mockVSCode.window.showErrorMessage).toHaveBeenCalledWith(expect.stringContaining('was restored'), 'Show Rejected Changes');
+  });
+
+  it('should accept external changes in soft mode', async () => {
+    protectionLevel = 'soft';
+    files.set(testUri.fsPath, Buffer.from('changed by an agent'));
+
+    await snapshotManager.handleFileChanged(testUri as any);
+
+    expect(snapshotContents()).toEqual(['changed by an agent']);
+    expect(mockLockorManager.updateLockHash).toHaveBeenCalledWith(testUri, Buffer.from('changed by an agent'));
+    expect(mockVSCode.window.showWarningMessage).toHaveBeenCalledWith(expect.stringContaining('SOFT mode'));
+  });
+
+  it('should take editor saves as the new snapshot', async () => {
+    const document = { uri: testUri };
+    snapshotManager.handleWillSaveDocument(document as any);
+    files.set(testUri.fsPath, Buffer.from('saved in the editor'));
+
+    await snapshotManager.handleFileChanged(testUri as any);
+    await snapshotManager.handleDocumentSaved(document as any);
+    await snapshotManager.handleFileChanged(testUri as any);
+
+    expect(snapshotContents()).toEqual(['saved in the editor']);
+    expect(mockVSCode.window.showWarningMessage).not.toHaveBeenCalled();
+  });
+
+  it('should check writes again when a save never completes', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    snapshotManager.handleWillSaveDocument({ uri: testUri } as any);
+    vi.advanceTimersByTime(5000);
+    files.set(testUri.fsPath, Buffer.from('changed by an agent'));
+
+    await snapshotManager.handleFileChanged(testUri as any);
+
+    expect(mockVSCode.window.showWarningMessage).toHaveBeenCalledWith(expect.stringContaining('modified outside the editor'), 'Show Diff', 'Restore Locked Version', 'Keep Changes');
+  });
+
+  it('should drop snapshots of unlocked files', async () => {
+    mockLockorManager.getLockedFileUris.mockResolvedValue([]);
+
+    await snapshotManager.syncSnapshots();
+
+    expect(mockVSCode.workspace.fs.delete).toHaveBeenCalledWith(expect.objectContaining({ fsPath: expect.stringMatching(/^\/storage\/snapshots\//) }));
+  });
+});
@@ -43,7 +43,10 @@ describe('StatusBarManager', () => {
 
     // Create mock LockorManager
     mockLockorManager = {
-      isFileLocked: vi.fn().mockReturnValue(false)
+      isFileLocked: vi.fn().mockReturnValue(false),
+      getProtectionLevel: vi.fn().mockReturnValue('ai-aware'),
+      hasOwnProtectionLevel: vi.fn().mockReturnValue(false),
+      getLockMetadata: vi.fn().mockReturnValue(undefined)
     } as any;
 
     // Create StatusBarManager instance
@@ -116,6 +119,42 @@ describe('StatusBarManager', () => {
       expect(mockStatusBarItem.show).toHaveBeenCalled();
     });
 
+    it('should name the protection level of locks that carry their own', () => {
+      const testUri = { fsPath: '/test/file.txt' };
+      mockLockorManager.isFileLocked.mockReturnValue(true);
+      mockLockorManager.getProtectionLevel.mockReturnValue('hard');
+      mockLockorManager.hasOwnProtectionLevel.mockReturnValue(true);
+
+      statusBarManager.updateStatusBar(testUri as any);
+
+      expect(mockStatusBarItem.tooltip).toBe('File "file.txt" is locked (hard). Click to unlock.');
+      expect(mockVSCode.ThemeColor).toHaveBeenCalledWith('statusBarItem.errorBackground');
+    });
+
+    it('should show the lock reason in the tooltip', () => {
+      const testUri = { fsPath: '/test/file.txt' };
+      mockLockorManager.isFileLocked.mockReturnValue(true);
+      mockLockorManager.getLockMetadata.mockReturnValue({ reason: 'Generated', author: 'Ana' });
+
+      statusBarManager.updateStatusBar(testUri as any);
+
+      expect(mockStatusBarItem.tooltip).toBe('File "file.txt" is locked. Click to unlock.\nReason: Generated — locked by Ana');
+    });
+
+    it('should count down for temporarily unlocked files', () => {
+      const testUri = { fsPath: '/test/file.txt' };
+      const temporaryUnlockManager = {
+        getTemporaryUnlock: vi.fn().mockReturnValue({ trigger: 'duration' }),
+        describeRelock: vi.fn().mockReturnValue('4:59')
+      };
+      const manager = new StatusBarManager(mockLockorManager, temporaryUnlockManager as any);
+
+      manager.updateStatusBar(testUri as any);
+
+      expect(mockStatusBarItem.text).toBe('🔓 4:59');
+      expect(mockStatusBarItem.tooltip).toBe('File "file.txt" is temporarily unlocked (re-locks: 4:59). Click to lock now.');
+    });
+
     it('should show unlocked status for unlocked file', () => {
       const testUri = { fsPath: '/test/file.txt' };
       mockLockorManager.isFileLocked.mockReturnValue(false);
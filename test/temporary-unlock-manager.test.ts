@@ -0,0 +1,141 @@
+/**
+ * Unit tests for TemporaryUnlockManager class
+ * Tests automatic re-locking after a duration, a save or closing the editor
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TemporaryUnlockManager } from '../src/temporary-unlock-manager';
+import { mockVSCode } from './setup';
+
+describe('TemporaryUnlockManager', () => {
+  let temporaryUnlockManager: TemporaryUnlockManager;
+  let mockLockorManager: any;
+  let mockContext: any;
+  let locked: Set<string>;
+  const testUri = { fsPath: '/test/workspace/config.ts' };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+
+    locked = new Set([testUri.fsPath]);
+    mockContext = {
+      workspaceState: {
+        get: vi.fn().mockReturnValue({}),
+        update: vi.fn()
+      }
+    };
+    mockLockorManager = {
+      isFileLocked: vi.fn((uri: any) => locked.has(uri.fsPath)),
+      hasOwnProtectionLevel: vi.fn().mockReturnValue(true),
+      getProtectionLevel: vi.fn().mockReturnValue('hard'),
+      getLockMetadata: vi.fn().mockReturnValue({ reason: 'Generated', author: 'Ana', createdAt: '2025-01-31T10:00:00.000Z' }),
+      getLockedFiles: vi.fn(() => Array.from(locked)),
+      getLockedFolders: vi.fn().mockReturnValue([]),
+      unlockFile: vi.fn(async (uri: any) => { locked.delete(uri.fsPath); }),
+      lockFile: vi.fn(async (uri: any) => { locked.add(uri.fsPath); })
+    };
+    mockVSCode.commands.executeCommand.mockResolvedValue(undefined);
+    mockVSCode.window.tabGroups.all = [];
+
+    temporaryUnlockManager = new TemporaryUnlockManager(mockContext, mockLockorManager);
+  });
+
+  afterEach(() => {
+    temporaryUnlockManager.dispose();
+    vi.useRealTimers();
+  });
+
+  it('should re-lock after the duration with the original level and metadata', async () => {
+    await temporaryUnlockManager.unlockTemporarily(testUri as any, 'duration', 5);
+    expect(mockLockorManager.unlockFile).toHaveBeenCalledWith(testUri);
+    expect(temporaryUnlockManager.describeRelock(temporaryUnlockManager.getTemporaryUnlock(testUri as any)!)).toBe('5:00');
+
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+
+    expect(mockLockorManager.lockFile).toHaveBeenCalledWith(
+      expect.objectContaining({ fsPath: testUri.fsPath }),
+      'hard',
+      { reason: 'Generated', author: 'Ana', createdAt: '2025-01-31T10:00:00.000Z' }
+    );
+    expect(temporaryUnlockManager.getTemporaryUnlock(testUri as any)).toBeUndefined();
+  });
+
+  it('should re-lock after the next save', async () => {
+    await temporaryUnlockManager.unlockTemporarily(testUri as any, 'save');
+
+    await temporaryUnlockManager.handleDocumentSaved({ uri: { fsPath: '/test/workspace/other.ts' } } as any);
+    expect(mockLockorManager.lockFile).not.toHaveBeenCalled();
+
+    await temporaryUnlockManager.handleDocumentSaved({ uri: testUri } as any);
+    expect(mockLockorManager.lockFile).toHaveBeenCalled();
+  });
+
+  it('should re-lock once the last editor tab closes', async () => {
+    mockVSCode.window.tabGroups.all = [{ tabs: [{ input: { uri: testUri } }] }];
+    await temporaryUnlockManager.unlockTemporarily(testUri as any, 'close');
+
+    await temporaryUnlockManager.handleTabsChanged();
+    expect(mockLockorManager.lockFile).not.toHaveBeenCalled();
+
+    mockVSCode.window.tabGroups.all = [];
+    await temporaryUnlockManager.handleTabsChanged();
+    expect(mockLockorManager.lockFile).toHaveBeenCalled();
+  });
+
+  it('should follow a renamed file', async () => {
+    await temporaryUnlockManager.unlockTemporarily(testUri as any, 'save');
+
+    temporaryUnlockManager.handleFilesRenamed([{ oldUri: testUri as any, newUri: { fsPath: '/test/workspace/settings.ts' } as any }]);
+
+    expect(temporaryUnlockManager.getTemporaryUnlock(testUri as any)).toBeUndefined();
+    expect(temporaryUnlockManager.getTemporaryUnlock({ fsPath: '/test/workspace/settings.ts' } as any)?.trigger).toBe('save');
+  });
+
+  it('should not track files that stay locked by a folder or pattern', async () => {
+    mockLockorManager.unlockFile.mockResolvedValueOnce(undefined);
+
+    await temporaryUnlockManager.unlockTemporarily(testUri as any, 'save');
+
+    expect(temporaryUnlockManager.getTemporaryUnlock(testUri as any)).toBeUndefined();
+    expect(mockContext.workspaceState.update).not.toHaveBeenCalled();
+  });
+
+  it('should not track files that were never locked', async () => {
+    locked.clear();
+
+    await temporaryUnlockManager.unlockTemporarily(testUri as any, 'duration', 5);
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+
+    expect(temporaryUnlockManager.getTemporaryUnlock(testUri as any)).toBeUndefined();
+    expect(mockLockorManager.lockFile).not.toHaveBeenCalled();
+  });
+
+  it('should re-lock expired unlocks restored after a reload', async () => {
+    locked.clear();
+    mockContext.workspaceState.get.mockReturnValue({
+      [testUri.fsPath]: { trigger: 'duration', relockAt: Date.now() - 1000 }
+    });
+    const restored = new TemporaryUnlockManager(mockContext, mockLockorManager);
+
+    await restored.restore();
+
+    expect(mockLockorManager.lockFile).toHaveBeenCalledWith(expect.objectContaining({ fsPath: testUri.fsPath }), undefined, {});
+    restored.dispose();
+  });
+
+  it('should resume countdowns restored after a reload', async () => {
+    locked.clear();
+    mockContext.workspaceState.get.mockReturnValue({
+      [testUri.fsPath]: { trigger: 'duration', relockAt: Date.now() + 2000 }
+    });
+    const restored = new TemporaryUnlockManager(mockContext, mockLockorManager);
+
+    await restored.restore();
+    expect(mockLockorManager.lockFile).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(mockLockorManager.lockFile).toHaveBeenCalled();
+    restored.dispose();
+  });
+});
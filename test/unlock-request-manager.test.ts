@@ -0,0 +1,114 @@
+/**
+ * Unit tests for UnlockRequestManager class
+ * Tests answering unlock requests sent by the MCP server
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { UnlockRequestManager } from '../src/unlock-request-manager';
+import { mockVSCode } from './setup';
+
+describe('UnlockRequestManager', () => {
+  let manager: UnlockRequestManager;
+  let mockLockorManager: any;
+  let mockTemporaryUnlockManager: any;
+  const folder = { uri: { fsPath: '/test/workspace' }, name: 'workspace', index: 0 } as any;
+  const requestUri = { fsPath: '/tmp/lockor/abc/1234.request.json' } as any;
+
+  const writtenResponse = () => {
+    const [, content] = mockVSCode.workspace.fs.writeFile.mock.calls.at(-1)!;
+    const [, target] = mockVSCode.workspace.fs.rename.mock.calls.at(-1)!;
+    return { path: target.fsPath, ...JSON.parse(Buffer.from(content).toString('utf8')) };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVSCode.workspace.fs.readFile.mockResolvedValue(Buffer.from(JSON.stringify({
+      id: '1234',
+      path: 'src/config.ts',
+      reason: 'Change the port',
+      requestedAt: '2025-01-31T10:00:00.000Z'
+    })));
+
+    mockLockorManager = {
+      unlockFile: vi.fn().mockResolvedValue(undefined),
+      isFileLocked: vi.fn().mockReturnValue(true)
+    };
+    mockTemporaryUnlockManager = {
+      promptTemporaryUnlock: vi.fn().mockResolvedValue(undefined)
+    };
+    manager = new UnlockRequestManager(mockLockorManager, mockTemporaryUnlockManager);
+  });
+
+  afterEach(() => {
+    mockVSCode.workspace.fs.readFile.mockRejectedValue(new Error('File not found'));
+  });
+
+  it('should unlock the file when the user agrees', async () => {
+    mockVSCode.window.showWarningMessage.mockResolvedValue('Unlock');
+    mockLockorManager.unlockFile.mockImplementation(async () => mockLockorManager.isFileLocked.mockReturnValue(false));
+
+    expect(await manager.handleRequest(requestUri, folder)).toBe('unlocked');
+
+    expect(mockVSCode.window.showWarningMessage).toHaveBeenCalledWith(
+      expect.stringContaining('"src/config.ts": Change the port'),
+      'Unlock', 'Unlock Temporarily', 'Deny'
+    );
+    expect(mockLockorManager.unlockFile).toHaveBeenCalledWith(expect.objectContaining({ fsPath: '/test/workspace/src/config.ts' }));
+    expect(writtenResponse()).toEqual({ path: '/tmp/lockor/abc/1234.response.json', id: '1234', decision: 'unlocked' });
+    expect(mockVSCode.workspace.fs.writeFile).toHaveBeenCalledWith(
+      expect.objectContaining({ fsPath: '/tmp/lockor/abc/1234.response.json.partial' }), expect.anything()
+    );
+  });
+
+  it('should unlock temporarily when the user picks it', async () => {
+    mockVSCode.window.showWarningMessage.mockResolvedValue('Unlock Temporarily');
+    mockTemporaryUnlockManager.promptTemporaryUnlock.mockImplementation(async () => mockLockorManager.isFileLocked.mockReturnValue(false));
+
+    expect(await manager.handleRequest(requestUri, folder)).toBe('temporarily-unlocked');
+  });
+
+  it('should deny the request when the user dismisses it', async () => {
+    mockVSCode.window.showWarningMessage.mockResolvedValue(undefined);
+
+    expect(await manager.handleRequest(requestUri, folder)).toBe('denied');
+
+    expect(mockLockorManager.unlockFile).not.toHaveBeenCalled();
+    expect(writtenResponse().decision).toBe('denied');
+  });
+
+  it('should deny the request when the file stays locked', async () => {
+    mockVSCode.window.showWarningMessage.mockResolvedValue('Unlock');
+
+    expect(await manager.handleRequest(requestUri, folder)).toBe('denied');
+  });
+
+  it('should ignore the answer once the request expired', async () => {
+    mockVSCode.window.showWarningMessage.mockResolvedValue('Unlock');
+    mockVSCode.workspace.fs.stat.mockRejectedValueOnce(new Error('File not found'));
+
+    expect(await manager.handleRequest(requestUri, folder)).toBeUndefined();
+
+    expect(mockLockorManager.unlockFile).not.toHaveBeenCalled();
+    expect(mockVSCode.workspace.fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should announce the editor for every workspace folder', async () => {
+    await manager.watch();
+
+    const [uri, content] = mockVSCode.workspace.fs.writeFile.mock.calls[0];
+    expect(uri.fsPath).toMatch(/editor\.json$/);
+    expect(JSON.parse(Buffer.from(content).toString('utf8'))).toEqual({ pid: process.pid, root: '/test/workspace' });
+    expect(mockVSCode.workspace.createFileSystemWatcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only withdraw its own announcement', async () => {
+    mockVSCode.workspace.fs.readFile.mockResolvedValueOnce(Buffer.from(JSON.stringify({ pid: process.pid + 1, root: '/test/workspace' })));
+    manager.dispose();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(mockVSCode.workspace.fs.delete).not.toHaveBeenCalled();
+
+    mockVSCode.workspace.fs.readFile.mockResolvedValueOnce(Buffer.from(JSON.stringify({ pid: process.pid, root: '/test/workspace' })));
+    manager.dispose();
+    await vi.waitFor(() => expect(mockVSCode.workspace.fs.delete).toHaveBeenCalledWith(expect.objectContaining({ fsPath: expect.stringMatching(/editor\.json$/) })));
+  });
+});